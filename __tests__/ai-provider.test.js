@@ -0,0 +1,169 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'node:http'
+
+import { createConfig } from '../dist/config/index.js'
+import { callAIProvider } from '../dist/core/ai-provider.js'
+
+const MESSAGES = [
+  { role: 'system', content: '你是翻译助手' },
+  { role: 'user', content: '保存' }
+]
+
+/**
+ * 启动本地 HTTP 桩服务，记录收到的请求并按 respond 返回 JSON
+ */
+async function startStub(t, respond) {
+  const requests = []
+  const server = http.createServer((req, res) => {
+    let raw = ''
+    req.on('data', (chunk) => {
+      raw += chunk
+    })
+    req.on('end', () => {
+      const request = { method: req.method, url: req.url, headers: req.headers, body: JSON.parse(raw || '{}') }
+      requests.push(request)
+      const { status = 200, body } = respond(request)
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(body))
+    })
+  })
+
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve))
+  t.after(() => new Promise((resolve) => server.close(resolve)))
+
+  return { url: `http://127.0.0.1:${server.address().port}`, requests }
+}
+
+function buildConfig(aiProvider) {
+  return createConfig({
+    translation: { maxTokensPerRequest: 512 },
+    aiProvider: { apiKey: 'test-key', requestsPerMinute: 60000, maxRetries: 1, ...aiProvider }
+  })
+}
+
+test('openai 适配器使用 Bearer 鉴权并读取 choices', async (t) => {
+  const stub = await startStub(t, () => ({ body: { choices: [{ message: { content: 'Save' } }] } }))
+  const config = buildConfig({ apiUrl: `${stub.url}/v1/chat/completions`, model: 'gpt-test' })
+
+  assert.equal(await callAIProvider(MESSAGES, {}, config), 'Save')
+
+  const [request] = stub.requests
+  assert.equal(request.url, '/v1/chat/completions')
+  assert.equal(request.headers.authorization, 'Bearer test-key')
+  assert.deepEqual(request.body, { model: 'gpt-test', messages: MESSAGES, temperature: 0.3, max_tokens: 512 })
+})
+
+test('anthropic 适配器单独传递 system 并拼接 text 内容块', async (t) => {
+  const stub = await startStub(t, () => ({
+    body: {
+      type: 'message',
+      content: [
+        { type: 'text', text: 'Sa' },
+        { type: 'text', text: 've' }
+      ]
+    }
+  }))
+  const config = buildConfig({ type: 'anthropic', apiUrl: `${stub.url}/v1/messages` })
+
+  assert.equal(await callAIProvider(MESSAGES, { temperature: 0 }, config), 'Save')
+
+  const [request] = stub.requests
+  assert.equal(request.headers['x-api-key'], 'test-key')
+  assert.equal(request.headers['anthropic-version'], '2023-06-01')
+  assert.equal(request.headers.authorization, undefined)
+  assert.deepEqual(request.body, {
+    model: 'claude-3-5-haiku-latest',
+    system: '你是翻译助手',
+    messages: [{ role: 'user', content: '保存' }],
+    temperature: 0,
+    max_tokens: 512
+  })
+})
+
+test('azure 适配器按部署名称拼接地址并携带 api-version 与 api-key', async (t) => {
+  const stub = await startStub(t, () => ({ body: { choices: [{ message: { content: 'Save' } }] } }))
+  const config = buildConfig({ type: 'azure', apiUrl: `${stub.url}/`, model: 'gpt-4o-prod', apiVersion: '2024-06-01' })
+
+  assert.equal(await callAIProvider(MESSAGES, {}, config), 'Save')
+
+  const [request] = stub.requests
+  assert.equal(request.url, '/openai/deployments/gpt-4o-prod/chat/completions?api-version=2024-06-01')
+  assert.equal(request.headers['api-key'], 'test-key')
+  assert.equal(request.headers.authorization, undefined)
+  assert.equal(request.body.model, undefined)
+  assert.deepEqual(request.body.messages, MESSAGES)
+
+  assert.throws(() => buildConfig({ type: 'azure', apiUrl: '' }), /azure 时需要提供 apiUrl/)
+})
+
+test('gemini 适配器写入 systemInstruction 与 generationConfig', async (t) => {
+  const stub = await startStub(t, () => ({
+    body: { candidates: [{ content: { role: 'model', parts: [{ text: 'Save' }] } }] }
+  }))
+  const config = buildConfig({ type: 'gemini', apiUrl: `${stub.url}/v1beta`, model: 'gemini-test' })
+
+  assert.equal(await callAIProvider(MESSAGES, { maxTokens: 64 }, config), 'Save')
+
+  const [request] = stub.requests
+  assert.equal(request.url, '/v1beta/models/gemini-test:generateContent')
+  assert.equal(request.headers['x-goog-api-key'], 'test-key')
+  assert.deepEqual(request.body, {
+    systemInstruction: { parts: [{ text: '你是翻译助手' }] },
+    contents: [{ role: 'user', parts: [{ text: '保存' }] }],
+    generationConfig: { temperature: 0.3, maxOutputTokens: 64 }
+  })
+})
+
+test('ollama 适配器关闭流式输出且无需 apiKey', async (t) => {
+  const stub = await startStub(t, () => ({ body: { message: { role: 'assistant', content: 'Save' }, done: true } }))
+  const config = buildConfig({ type: 'ollama', apiKey: '', apiUrl: `${stub.url}/api/chat` })
+
+  assert.equal(await callAIProvider(MESSAGES, {}, config), 'Save')
+
+  const [request] = stub.requests
+  assert.equal(request.headers.authorization, undefined)
+  assert.deepEqual(request.body, {
+    model: 'llama3.1',
+    messages: MESSAGES,
+    stream: false,
+    options: { temperature: 0.3, num_predict: 512 }
+  })
+})
+
+test('callAIProvider 合并 request 覆盖并报告服务端错误', async (t) => {
+  const stub = await startStub(t, (request) =>
+    request.url === '/fail'
+      ? { status: 400, body: { error: { message: 'bad request' } } }
+      : { body: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } }
+  )
+
+  const overridden = buildConfig({
+    type: 'anthropic',
+    apiUrl: `${stub.url}/v1/messages`,
+    request: { headers: { 'anthropic-beta': 'test' }, body: { top_k: 5 } }
+  })
+  await assert.rejects(() => callAIProvider(MESSAGES, {}, overridden), /AI 服务响应错误: Overloaded/)
+  assert.equal(stub.requests[0].headers['anthropic-beta'], 'test')
+  assert.equal(stub.requests[0].body.top_k, 5)
+
+  const failing = buildConfig({ apiUrl: `${stub.url}/fail` })
+  await assert.rejects(() => callAIProvider(MESSAGES, {}, failing), /API 错误 400/)
+
+  assert.throws(() => buildConfig({ type: 'bedrock' }), /aiProvider.type 必须是/)
+})
+
+test('mock 接口按任务描述生成确定的 key 且不发送请求', async () => {
+  const config = createConfig({ aiProvider: { type: 'mock', apiKey: '' } })
+
+  const key = await callAIProvider(MESSAGES, { task: { type: 'key', text: '保存' } }, config)
+  assert.match(key, /^mock_[0-9a-f]{8}$/)
+  assert.equal(await callAIProvider(MESSAGES, { task: { type: 'key', text: '保存' } }, config), key)
+
+  const keys = JSON.parse(await callAIProvider(MESSAGES, { task: { type: 'keys', texts: ['保存', '取消'] } }, config))
+  assert.equal(keys[0], key)
+  assert.notEqual(keys[1], key)
+
+  // 未附带任务描述时原样返回用户消息
+  assert.equal(await callAIProvider(MESSAGES, {}, config), '保存')
+})
@@ -97,6 +97,55 @@ test('createConfig 支持自定义 skipFunctionCalls', () => {
   assert(config.skipFunctionCalls.includes('logger'))
 })
 
+test('createConfig 校验 sourceTextDetection 配置', () => {
+  const config = createConfig({
+    sourceTextDetection: { scripts: ['Hiragana', 'Katakana', 'Han'] }
+  })
+  assert.deepEqual(config.sourceTextDetection.scripts, ['Hiragana', 'Katakana', 'Han'])
+
+  assert.throws(
+    () => createConfig({ sourceTextDetection: { scripts: ['Klingon'] } }),
+    /未知的 Unicode 书写系统: Klingon/
+  )
+  assert.throws(() => createConfig({ sourceTextDetection: { pattern: '[' } }), /不是合法的正则/)
+  assert.throws(() => createConfig({ sourceTextDetection: { test: 'yes' } }), /test 必须是函数/)
+})
+
+test('createConfig 按预设解析 runtime 配置', () => {
+  assert.equal(createConfig().runtime.callee, 'intl.get')
+
+  const i18next = createConfig({ runtime: { preset: 'react-i18next' } })
+  assert.equal(i18next.runtime.callee, 'i18n.t')
+  assert.deepEqual(i18next.runtime.hook, {
+    name: 'useTranslation',
+    source: 'react-i18next',
+    callee: 't',
+    destructure: true
+  })
+
+  const custom = createConfig({
+    runtime: { preset: 'custom', callee: '$t', import: { source: '@/i18n', imported: '$t' } }
+  })
+  assert.equal(custom.runtime.callee, '$t')
+  assert.deepEqual(custom.runtime.import, { source: '@/i18n', imported: '$t' })
+  assert.equal(custom.runtime.hook, null)
+
+  const withoutHook = createConfig({ runtime: { preset: 'react-intl', hook: null, jsx: null } })
+  assert.equal(withoutHook.runtime.keyArgument, 'descriptor')
+  assert.equal(withoutHook.runtime.hook, null)
+
+  assert.throws(() => createConfig({ runtime: { preset: 'vue-i18n' } }), /runtime.preset 必须是/)
+  assert.throws(() => createConfig({ runtime: { callee: 'intl[get]' } }), /runtime.callee 必须是函数名/)
+
+  assert.deepEqual(createConfig().runtime.richText, { mode: 'html', callee: 'intl.getHTML' })
+  assert.equal(i18next.runtime.richText.component, 'Trans')
+  assert.equal(withoutHook.runtime.richText, null)
+  assert.throws(
+    () => createConfig({ runtime: { richText: { mode: 'component', component: 'RichText' } } }),
+    /runtime.richText 为 component 模式时需要提供/
+  )
+})
+
 test('createConfig 多次调用不会污染默认配置', () => {
   const dirA = fs.mkdtempSync(path.join(os.tmpdir(), 'forge-config-a-'))
   const dirB = fs.mkdtempSync(path.join(os.tmpdir(), 'forge-config-b-'))
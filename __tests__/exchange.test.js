@@ -0,0 +1,456 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { createConfig, resetConfig } from '../dist/config/index.js'
+import { translate } from '../dist/core/translate.js'
+import { applyReviewDecisions } from '../dist/core/review.js'
+import { exportTranslations, importTranslations } from '../dist/core/exchange.js'
+import { parseCSV, stringifyCSV } from '../dist/utils/csv.js'
+
+const SHOULD_CLEAN_FIXTURE = process.env.KEEP_I18N_FIXTURE !== '1'
+
+const TMP_ROOT = (() => {
+  if (process.env.I18N_TEST_TMP_DIR) {
+    const dir = path.resolve(process.cwd(), process.env.I18N_TEST_TMP_DIR)
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+    return dir
+  }
+  return os.tmpdir()
+})()
+
+function createTempDir(prefix) {
+  return fs.mkdtempSync(path.join(TMP_ROOT, prefix))
+}
+
+function cleanupTempDir(dirPath) {
+  if (!dirPath || !fs.existsSync(dirPath)) return
+  if (SHOULD_CLEAN_FIXTURE) {
+    fs.rmSync(dirPath, { recursive: true, force: true })
+  } else {
+    console.log(`测试保留临时目录: ${dirPath}`)
+  }
+}
+
+function writeJSON(filePath, data) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8')
+}
+
+function readJSON(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+}
+
+/**
+ * 源语言文件、详情文件与由 mock 接口生成的英文译文
+ */
+async function setupProject(tempDir, targets = ['zh_CN', 'en_US']) {
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: { source: 'zh_CN', targets },
+      translation: { batchSize: 10, batchDelay: 0, maxTokensPerRequest: 1000 },
+      aiProvider: { type: 'mock', apiKey: '' }
+    },
+    { cwd: tempDir }
+  )
+
+  writeJSON(config.getOutputPath('zh_CN'), {
+    'order.total': '共{count}条订单',
+    'order.greeting': '你好，{name}',
+    'common.cancel': '取消',
+    'common.close': '关闭',
+    'order.tip': '请确认"收货地址"\n再提交'
+  })
+  writeJSON(config.getOutputDetailPath('zh_CN'), {
+    'order.total': {
+      text: '共{count}条订单',
+      plurals: ['count'],
+      notes: ['订单列表底部的统计'],
+      occurrences: [
+        { file: 'src/pages/order.tsx', line: 42, column: 8, component: 'OrderList', function: null }
+      ]
+    }
+  })
+  await translate({ config })
+  return config
+}
+
+test('export 生成 XLIFF 2.0，import 校验后写回译文与审校状态', async (t) => {
+  const tempDir = createTempDir('forge-exchange-xliff2-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = await setupProject(tempDir)
+  applyReviewDecisions([{ locale: 'en_US', key: 'common.close', action: 'lock' }], { config })
+
+  const result = await exportTranslations({ config, format: 'xliff' })
+  const file = path.join(tempDir, 'i18n-exchange', 'en_US.xlf')
+  assert.deepEqual(result.files, [file])
+
+  const xliff = fs.readFileSync(file, 'utf-8')
+  assert.match(xliff, /<xliff version="2\.0" xmlns="urn:oasis:names:tc:xliff:document:2\.0" srcLang="zh-CN" trgLang="en-US">/)
+  assert.match(xliff, /<note category="developer">订单列表底部的统计<\/note>/)
+  assert.match(xliff, /<note category="location">src\/pages\/order\.tsx:42<\/note>/)
+  assert.match(xliff, /<data id="d1">\{count\}<\/data>/)
+  assert.match(xliff, /<source>共<ph id="1" dataRef="d1" equiv="\{count\}" disp="\{count\}"\/>条订单<\/source>/)
+  assert.match(xliff, /<segment state="initial">\s*<source>取消<\/source>\s*<target>\[en_US\] 取消<\/target>/)
+  assert.match(xliff, /<unit id="common.close" name="common.close" translate="no">/)
+  assert.match(xliff, /<segment state="final">/)
+
+  // 供应商在 CAT 工具中修改译文并确认
+  const edited = xliff
+    .replace('<target>[en_US] 取消</target>', '<target>Cancel</target>')
+    .replace('<segment state="initial">\n        <source>取消', '<segment state="translated">\n        <source>取消')
+    .replace(
+      /<target>\[en_US\] 你好，<ph id="1" dataRef="d1"[^>]*\/><\/target>/,
+      '<target>Hello</target>'
+    )
+    .replace(
+      /<target>\{count, plural, .*<\/target>/,
+      '<target>{count, plural, one {<ph id="1" dataRef="d1"/> order} other {<ph id="1" dataRef="d1"/> orders}}</target>'
+    )
+    .replace('<target>[en_US] 关闭</target>', '<target>Close</target>')
+  fs.writeFileSync(file, edited, 'utf-8')
+
+  const dryRun = await importTranslations({ config, file: 'i18n-exchange/en_US.xlf', dryRun: true })
+  assert.equal(dryRun.dryRun, true)
+  assert.equal(readJSON(config.getOutputPath('en_US'))['common.cancel'], '[en_US] 取消')
+
+  const imported = await importTranslations({ config, file: 'i18n-exchange/en_US.xlf' })
+  assert.deepEqual(imported.updated, [
+    { locale: 'en_US', key: 'order.total' },
+    { locale: 'en_US', key: 'common.cancel' }
+  ])
+  assert.deepEqual(
+    imported.skipped.map((item) => [item.key, item.reason]),
+    [
+      ['order.greeting', '变量占位符数量不匹配（原文 1 种，译文 0 种）'],
+      ['common.close', '译文已锁定']
+    ]
+  )
+
+  const en = readJSON(config.getOutputPath('en_US'))
+  assert.equal(en['order.total'], '{count, plural, one {{count} order} other {{count} orders}}')
+  assert.equal(en['common.cancel'], 'Cancel')
+  assert.equal(en['order.greeting'], '[en_US] 你好，{name}')
+  assert.equal(en['common.close'], '[en_US] 关闭')
+
+  const meta = readJSON(config.getOutputMetaPath('en_US')).entries
+  assert.equal(meta['common.cancel'].status, 'reviewed')
+  assert.equal(meta['order.total'].status, 'needs-review')
+  assert.equal(meta['order.greeting'].status, 'machine')
+})
+
+test('export 生成 XLIFF 1.2，import 拒绝导出后原文已修改的条目', async (t) => {
+  const tempDir = createTempDir('forge-exchange-xliff12-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = await setupProject(tempDir)
+  await exportTranslations({ config, format: 'xliff', xliffVersion: '1.2', outDir: 'vendor' })
+
+  const file = path.join(tempDir, 'vendor', 'en_US.xlf')
+  const xliff = fs.readFileSync(file, 'utf-8')
+  assert.match(xliff, /<file original="translation\.json" source-language="zh-CN" target-language="en-US" datatype="plaintext">/)
+  assert.match(xliff, /<source>你好，<ph id="1" ctype="x-icu-placeholder">\{name\}<\/ph><\/source>/)
+  assert.match(xliff, /<target state="needs-review-translation">\[en_US\] 取消<\/target>/)
+  assert.match(xliff, /<note from="location">src\/pages\/order\.tsx:42<\/note>/)
+
+  fs.writeFileSync(
+    file,
+    xliff
+      .replace(
+        /<target state="needs-review-translation">\[en_US\] 你好，(<ph[^>]*>\{name\}<\/ph>)<\/target>/,
+        '<target state="translated">Hello, $1</target>'
+      )
+      .replace(
+        '<target state="needs-review-translation">[en_US] 关闭</target>',
+        '<target state="final">Close &amp; exit</target>'
+      ),
+    'utf-8'
+  )
+
+  writeJSON(config.getOutputPath('zh_CN'), {
+    ...readJSON(config.getOutputPath('zh_CN')),
+    'common.close': '关闭窗口'
+  })
+
+  const imported = await importTranslations({ config, file: 'vendor/en_US.xlf' })
+  assert.deepEqual(imported.updated, [{ locale: 'en_US', key: 'order.greeting' }])
+  assert.deepEqual(imported.skipped, [{ locale: 'en_US', key: 'common.close', reason: '导出后原文已修改，请重新导出' }])
+  assert.equal(readJSON(config.getOutputPath('en_US'))['order.greeting'], 'Hello, {name}')
+  assert.equal(readJSON(config.getOutputMetaPath('en_US')).entries['order.greeting'].status, 'reviewed')
+})
+
+test('import 未修改的 XLIFF 译文只在标记为已审校时更新审校状态', async (t) => {
+  const tempDir = createTempDir('forge-exchange-xliff-state-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = await setupProject(tempDir)
+  applyReviewDecisions([{ locale: 'en_US', key: 'common.close', action: 'accept' }], { config })
+  await exportTranslations({ config, format: 'xliff' })
+
+  const file = path.join(tempDir, 'i18n-exchange', 'en_US.xlf')
+  const xliff = fs.readFileSync(file, 'utf-8')
+  assert.match(xliff, /<segment state="reviewed">\s*<source>关闭<\/source>/)
+
+  const untouched = await importTranslations({ config, file: 'i18n-exchange/en_US.xlf' })
+  assert.deepEqual(untouched.updated, [])
+  assert.deepEqual(untouched.skipped, [])
+
+  // 只修改 state：translated 不代表审校，reviewed 才确认译文
+  fs.writeFileSync(
+    file,
+    xliff
+      .replace('<segment state="initial">\n        <source>取消', '<segment state="translated">\n        <source>取消')
+      .replace('<segment state="initial">\n        <source>你好', '<segment state="reviewed">\n        <source>你好'),
+    'utf-8'
+  )
+
+  const imported = await importTranslations({ config, file: 'i18n-exchange/en_US.xlf' })
+  assert.deepEqual(imported.updated, [{ locale: 'en_US', key: 'order.greeting' }])
+
+  const meta = readJSON(config.getOutputMetaPath('en_US')).entries
+  assert.equal(meta['common.cancel'].status, 'machine')
+  assert.equal(meta['order.greeting'].status, 'reviewed')
+  assert.equal(meta['common.close'].status, 'reviewed')
+  assert.equal(meta['order.total'].status, 'machine')
+})
+
+test('export 生成 POT 模板与 PO 文件，import 合并 PO 修改并将 fuzzy 条目记为待审校', async (t) => {
+  const tempDir = createTempDir('forge-exchange-po-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = await setupProject(tempDir)
+  applyReviewDecisions([{ locale: 'en_US', key: 'common.close', action: 'accept' }], { config })
+
+  const result = await exportTranslations({ config, format: 'po' })
+  const potFile = path.join(tempDir, 'i18n-exchange', 'translation.pot')
+  const poFile = path.join(tempDir, 'i18n-exchange', 'en_US.po')
+  assert.deepEqual(result.files, [potFile, poFile])
+
+  const pot = fs.readFileSync(potFile, 'utf-8')
+  assert.match(
+    pot,
+    /#\. 订单列表底部的统计\n#: src\/pages\/order\.tsx:42\nmsgctxt "order\.total"\nmsgid "共\{count\}条订单"\nmsgstr ""/
+  )
+  assert.match(pot, /msgctxt "order\.tip"\nmsgid ""\n"请确认\\"收货地址\\"\\n"\n"再提交"\nmsgstr ""/)
+  assert.doesNotMatch(pot, /fuzzy/)
+
+  const po = fs.readFileSync(poFile, 'utf-8')
+  assert.match(po, /"Language: en-US\\n"/)
+  assert.match(po, /#, fuzzy\nmsgctxt "common\.cancel"\nmsgid "取消"\nmsgstr "\[en_US\] 取消"/)
+  assert.match(po, /\n\nmsgctxt "common\.close"\nmsgid "关闭"\nmsgstr "\[en_US\] 关闭"/)
+
+  // 译者确认 common.cancel、修改 order.tip 但保留 fuzzy、修改 common.close
+  fs.writeFileSync(
+    poFile,
+    po
+      .replace('#, fuzzy\nmsgctxt "common.cancel"\nmsgid "取消"\nmsgstr "[en_US] 取消"', 'msgctxt "common.cancel"\nmsgid "取消"\nmsgstr "Cancel"')
+      .replace(/(msgctxt "order\.tip"\nmsgid ""\n.*\n.*\n)msgstr ""\n.*\n.*/, '$1msgstr ""\n"Please confirm the \\"shipping address\\"\\n"\n"before submitting"')
+      .replace('msgstr "[en_US] 关闭"', 'msgstr "Close"'),
+    'utf-8'
+  )
+
+  const imported = await importTranslations({ config, file: 'i18n-exchange/en_US.po' })
+  assert.deepEqual(imported.format, 'po')
+  assert.deepEqual(imported.skipped, [])
+  assert.deepEqual(imported.updated, [
+    { locale: 'en_US', key: 'common.cancel' },
+    { locale: 'en_US', key: 'common.close' },
+    { locale: 'en_US', key: 'order.tip' }
+  ])
+
+  const en = readJSON(config.getOutputPath('en_US'))
+  assert.equal(en['common.cancel'], 'Cancel')
+  assert.equal(en['common.close'], 'Close')
+  assert.equal(en['order.tip'], 'Please confirm the "shipping address"\nbefore submitting')
+
+  const meta = readJSON(config.getOutputMetaPath('en_US')).entries
+  assert.equal(meta['common.cancel'].status, 'reviewed')
+  assert.equal(meta['common.close'].status, 'reviewed')
+  assert.equal(meta['order.tip'].status, 'needs-review')
+  assert.equal(meta['order.total'].status, 'machine')
+})
+
+test('import 未修改的 PO 译文只在去掉 fuzzy 时记为已审校', async (t) => {
+  const tempDir = createTempDir('forge-exchange-po-state-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = await setupProject(tempDir)
+  applyReviewDecisions([{ locale: 'en_US', key: 'common.close', action: 'accept' }], { config })
+  // 没有审校状态的译文（如手工维护的旧译文）导出时不带 fuzzy
+  const metaFile = readJSON(config.getOutputMetaPath('en_US'))
+  delete metaFile.entries['order.greeting'].status
+  writeJSON(config.getOutputMetaPath('en_US'), metaFile)
+  const { reviewedAt } = metaFile.entries['common.close']
+  await exportTranslations({ config, format: 'po' })
+
+  const poFile = path.join(tempDir, 'i18n-exchange', 'en_US.po')
+  const po = fs.readFileSync(poFile, 'utf-8')
+
+  const untouched = await importTranslations({ config, file: 'i18n-exchange/en_US.po' })
+  assert.deepEqual(untouched.updated, [])
+  assert.deepEqual(untouched.skipped, [])
+
+  fs.writeFileSync(poFile, po.replace('#, fuzzy\nmsgctxt "common.cancel"', 'msgctxt "common.cancel"'), 'utf-8')
+
+  const imported = await importTranslations({ config, file: 'i18n-exchange/en_US.po' })
+  assert.deepEqual(imported.updated, [{ locale: 'en_US', key: 'common.cancel' }])
+
+  const meta = readJSON(config.getOutputMetaPath('en_US')).entries
+  assert.equal(meta['common.cancel'].status, 'reviewed')
+  assert.equal(meta['common.close'].status, 'reviewed')
+  assert.equal(meta['common.close'].reviewedAt, reviewedAt)
+  assert.equal(meta['order.greeting'].status, undefined)
+  assert.equal(meta['order.total'].status, 'machine')
+})
+
+test('export 生成 CSV 表格，import 导入表格修改并报告冲突与占位符不一致的行', async (t) => {
+  const tempDir = createTempDir('forge-exchange-csv-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = await setupProject(tempDir, ['zh_CN', 'en_US', 'ja_JP'])
+  applyReviewDecisions([{ locale: 'ja_JP', key: 'common.close', action: 'accept' }], { config })
+
+  const result = await exportTranslations({ config, format: 'csv' })
+  const file = path.join(tempDir, 'i18n-exchange', 'translation.csv')
+  assert.deepEqual(result.files, [file])
+
+  const content = fs.readFileSync(file, 'utf-8')
+  assert.ok(content.startsWith('\uFEFFkey,zh_CN,en_US,ja_JP,file,status,revision\r\n'))
+  assert.match(content, /\r\norder\.tip,"请确认""收货地址""\n再提交","\[en_US\] 请确认""收货地址""\n再提交",/)
+
+  const [header, ...rows] = parseCSV(content)
+  const column = (name) => header.indexOf(name)
+  const row = (key) => rows.find((cells) => cells[0] === key)
+  assert.equal(row('order.total')[column('file')], 'src/pages/order.tsx')
+  assert.equal(row('order.total')[column('status')], 'machine')
+  assert.equal(row('common.close')[column('status')], 'machine')
+  assert.match(row('common.close')[column('revision')], /^zh_CN:[0-9a-f]{10} en_US:[0-9a-f]{10} ja_JP:[0-9a-f]{10}$/)
+
+  // 表格中的修改：包含引号与换行的译文、整行占位符检查、修改原文
+  row('common.cancel')[column('en_US')] = 'Cancel "now"'
+  row('common.cancel')[column('ja_JP')] = 'キャンセル'
+  row('order.tip')[column('en_US')] = 'Please confirm the "shipping address"\nbefore submitting'
+  row('order.greeting')[column('en_US')] = 'Hello'
+  row('order.greeting')[column('ja_JP')] = 'こんにちは、{name}'
+  row('common.close')[column('en_US')] = 'Close'
+  row('order.total')[column('zh_CN')] = '共{count}笔订单'
+  // 表格中自行添加的备注列
+  fs.writeFileSync(
+    file,
+    stringifyCSV([
+      [...header, 'notes'],
+      ...rows.map((cells) => [...cells, cells[0] === 'order.tip' ? '需要与设计确认' : ''])
+    ]),
+    'utf-8'
+  )
+
+  // 导出后仓库中也修改了同一条译文
+  const enPath = config.getOutputPath('en_US')
+  writeJSON(enPath, { ...readJSON(enPath), 'common.close': 'Shut' })
+
+  const imported = await importTranslations({ config, file: 'i18n-exchange/translation.csv' })
+  assert.equal(imported.format, 'csv')
+  assert.deepEqual(imported.ignoredColumns, ['notes'])
+  assert.deepEqual(imported.updated, [
+    { locale: 'en_US', key: 'common.cancel' },
+    { locale: 'en_US', key: 'order.tip' },
+    { locale: 'ja_JP', key: 'common.cancel' }
+  ])
+  assert.deepEqual(imported.conflicts, [{ locale: 'en_US', key: 'common.close', incoming: 'Close', current: 'Shut' }])
+  assert.deepEqual(imported.skipped, [
+    { locale: 'zh_CN', key: 'order.total', reason: '原文须在源码中修改后重新提取' },
+    { locale: 'en_US', key: 'order.greeting', reason: '变量占位符数量不匹配（原文 1 种，译文 0 种）' },
+    { locale: 'ja_JP', key: 'order.greeting', reason: '同一 key 在其他语言的译文不合格' }
+  ])
+
+  const en = readJSON(enPath)
+  assert.equal(en['common.cancel'], 'Cancel "now"')
+  assert.equal(en['order.tip'], 'Please confirm the "shipping address"\nbefore submitting')
+  assert.equal(en['order.greeting'], '[en_US] 你好，{name}')
+  assert.equal(en['common.close'], 'Shut')
+
+  const ja = readJSON(config.getOutputPath('ja_JP'))
+  assert.equal(ja['common.cancel'], 'キャンセル')
+  assert.equal(ja['order.greeting'], '[ja_JP] 你好，{name}')
+  assert.equal(readJSON(config.getOutputPath('zh_CN'))['order.total'], '共{count}条订单')
+  assert.equal(readJSON(config.getOutputMetaPath('ja_JP')).entries['common.cancel'].status, 'reviewed')
+})
+
+test('export CSV 为可能被当作公式的单元格加前缀，import 时去掉', async (t) => {
+  const tempDir = createTempDir('forge-exchange-csv-formula-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = await setupProject(tempDir)
+  const enPath = config.getOutputPath('en_US')
+  writeJSON(enPath, {
+    ...readJSON(enPath),
+    'common.cancel': '=HYPERLINK("http://example.com")',
+    'common.close': "'-1",
+    'order.greeting': '\tHello, {name}',
+    'order.tip': '\rPlease confirm'
+  })
+
+  await exportTranslations({ config, format: 'csv' })
+  const file = path.join(tempDir, 'i18n-exchange', 'translation.csv')
+  const [header, ...rows] = parseCSV(fs.readFileSync(file, 'utf-8'))
+  const column = header.indexOf('en_US')
+  const row = (key) => rows.find((cells) => cells[0] === key)
+  assert.equal(row('common.cancel')[column], '\'=HYPERLINK("http://example.com")')
+  assert.equal(row('common.close')[column], "''-1")
+  assert.equal(row('order.greeting')[column], "'\tHello, {name}")
+  assert.equal(row('order.tip')[column], "'\rPlease confirm")
+
+  const untouched = await importTranslations({ config, file: 'i18n-exchange/translation.csv' })
+  assert.deepEqual(untouched.updated, [])
+
+  row('common.cancel')[column] = "'+Cancel"
+  row('order.greeting')[column] = "'\tHi, {name}"
+  row('order.tip')[column] = "'\rPlease check"
+  fs.writeFileSync(file, stringifyCSV([header, ...rows]), 'utf-8')
+
+  const imported = await importTranslations({ config, file: 'i18n-exchange/translation.csv' })
+  assert.deepEqual(imported.updated, [
+    { locale: 'en_US', key: 'order.greeting' },
+    { locale: 'en_US', key: 'common.cancel' },
+    { locale: 'en_US', key: 'order.tip' }
+  ])
+  const en = readJSON(enPath)
+  assert.equal(en['order.greeting'], '\tHi, {name}')
+  assert.equal(en['order.tip'], '\rPlease check')
+  assert.equal(en['common.cancel'], '+Cancel')
+  assert.equal(en['common.close'], "'-1")
+})
@@ -5,6 +5,9 @@ import path from 'node:path'
 import fs from 'node:fs'
 
 import { extract } from '../dist/core/extract.js'
+import { check } from '../dist/core/check.js'
+import { findStaleKeys, pruneKeys } from '../dist/core/prune.js'
+import { applyReviewDecisions } from '../dist/core/review.js'
 import { createConfig } from '../dist/config/index.js'
 
 const SHOULD_CLEAN_FIXTURE = process.env.KEEP_I18N_FIXTURE !== '1'
@@ -1164,3 +1167,1024 @@ test('extract 处理函数参数默认值中的中文', async () => {
     cleanupTempDir(projectRoot)
   }
 })
+
+test('check 只读报告未提取的中文及其行列号', async () => {
+  const projectRoot = createHookFixtureProject()
+  try {
+    const config = createConfig(
+      {
+        input: ['src/**/*.{ts,tsx}'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN', 'en_US']
+        }
+      },
+      { cwd: projectRoot }
+    )
+
+    const sourcePath = path.join(projectRoot, 'src', 'modules', 'StatusPanel.tsx')
+    const original = fs.readFileSync(sourcePath, 'utf-8')
+
+    const result = await check({ config })
+
+    assert.equal(result.filesScanned, 1)
+    assert.equal(result.errors.length, 0)
+    assert.equal(fs.readFileSync(sourcePath, 'utf-8'), original, 'check 不应改写源码')
+    assert.equal(fs.existsSync(config.getOutputPath('zh_CN')), false, 'check 不应写入多语言文件')
+
+    const loadingHit = result.hits.find((hit) => hit.text === '加载完成')
+    assert.ok(loadingHit, '应报告字符串字面量中的中文')
+    assert.equal(loadingHit.file, path.join('src', 'modules', 'StatusPanel.tsx'))
+    assert.equal(loadingHit.line, 8)
+    assert.equal(loadingHit.column, 18)
+
+    const saveHit = result.hits.find((hit) => hit.text === '保存' && hit.type === 'jsx-text')
+    assert.ok(saveHit, '应报告 JSX 文本中的中文')
+    assert.equal(saveHit.line, 32)
+
+    await extract({ config, logger: silentLogger })
+    const afterExtract = await check({ config })
+    assert.deepEqual(afterExtract.hits, [], '提取完成后不应再有未提取文本')
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract dry-run 输出 diff 且不写入任何文件', async () => {
+  const projectRoot = createFixtureProject()
+  try {
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN', 'en_US']
+        }
+      },
+      { cwd: projectRoot }
+    )
+
+    const sourcePath = path.join(projectRoot, 'src', 'components', 'Example.tsx')
+    const original = fs.readFileSync(sourcePath, 'utf-8')
+
+    const result = await extract({ config, logger: silentLogger, dryRun: true })
+
+    assert.equal(result.dryRun, true)
+    assert.equal(fs.readFileSync(sourcePath, 'utf-8'), original, 'dry-run 不应改写源码')
+    assert.equal(fs.existsSync(path.join(projectRoot, 'locales')), false, 'dry-run 不应写入多语言文件')
+    assert.equal(fs.existsSync(path.join(projectRoot, 'docs')), false, 'dry-run 不应写入告警文档')
+
+    assert.equal(result.diffs.length, 1)
+    const [{ file, diff }] = result.diffs
+    assert.equal(file, path.join('src', 'components', 'Example.tsx'))
+    assert.match(diff, /^--- a\/src\/components\/Example\.tsx$/m)
+    assert.match(diff, /^-  return <button>确认删除吗？<\/button>;?$/m)
+    assert.match(diff, /^\+.*intl\.get\(/m)
+
+    const zhDiff = result.localeDiffs.find((item) => item.locale === 'zh_CN')
+    assert.equal(zhDiff.added.length, 1)
+    assert.deepEqual(zhDiff.removed, [])
+    const enDiff = result.localeDiffs.find((item) => item.locale === 'en_US')
+    assert.deepEqual(enDiff.added, zhDiff.added)
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 仅改写替换的节点，保留原有格式', async () => {
+  const projectRoot = createTempDir('forge-extract-format-')
+  try {
+    fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true })
+    const sourcePath = path.join(projectRoot, 'src', 'Profile.tsx')
+    const lines = [
+      "import React, { useState } from 'react'",
+      '',
+      '// 用户资料卡片',
+      'export function Profile({ name }) {',
+      '  const [open, setOpen] = useState(false)',
+      '',
+      '',
+      "  const label = open ? 'ok' : 'closed'",
+      '',
+      '  return (',
+      '    <section className="profile">',
+      '      <h1>',
+      '        欢迎{name}回来',
+      '      </h1>',
+      "      <input placeholder=\"请输入名称\" onChange={() => setOpen(!open)} />",
+      '    </section>',
+      '  )',
+      '}',
+      ''
+    ]
+    fs.writeFileSync(sourcePath, lines.join('\n'), 'utf-8')
+    // 唯一的字符串字面量会被替换，引号与分号风格需基于原始源码推断
+    const badgePath = path.join(projectRoot, 'src', 'Badge.tsx')
+    fs.writeFileSync(
+      badgePath,
+      ['export function Badge() {', "  const label = '徽章'", '  return <span>{label}</span>', '}', ''].join('\n'),
+      'utf-8'
+    )
+    // CRLF 文件中新插入的 import 与语句沿用 CRLF
+    const noticePath = path.join(projectRoot, 'src', 'Notice.tsx')
+    fs.writeFileSync(
+      noticePath,
+      [
+        "import React from 'react'",
+        '',
+        'export function Notice({ onClose }) {',
+        "  const title = '通知'",
+        '  return <div title={title} onClick={() => onClose(\'已关闭\')}>内容</div>',
+        '}',
+        ''
+      ].join('\r\n'),
+      'utf-8'
+    )
+
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN']
+        }
+      },
+      { cwd: projectRoot }
+    )
+
+    await extract({ config, logger: silentLogger })
+
+    const output = fs.readFileSync(sourcePath, 'utf-8').split('\n')
+    assert.equal(output[0], "import intl from 'react-intl-universal'", '新增 import 沿用单引号且不加分号')
+    assert.deepEqual(output.slice(1, 12), lines.slice(0, 11), '未改动的行应保持逐字节一致')
+    assert.equal(output[12], '      <h1>')
+    assert.match(output[13], /^ {8}\{intl\.get\('[^']+', \{ name \}\)\}$/)
+    assert.equal(output[14], '      </h1>')
+    assert.match(output[15], /^ {6}<input placeholder=\{intl\.get\('[^']+'\)\} onChange=\{\(\) => setOpen\(!open\)\} \/>$/)
+    assert.deepEqual(output.slice(16), lines.slice(15))
+
+    const badge = fs.readFileSync(badgePath, 'utf-8').split('\n')
+    assert.equal(badge[0], "import intl from 'react-intl-universal'")
+    assert.match(badge[2], /^ {2}const label = intl\.get\('[^']+'\)$/)
+
+    const notice = fs.readFileSync(noticePath, 'utf-8')
+    assert.match(notice, /^import intl from 'react-intl-universal'\r\nimport React from 'react'\r\n/)
+    assert.doesNotMatch(notice, /[^\r]\n/, '不应出现 LF 与 CRLF 混用')
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 根据 sourceTextDetection 识别非中文源语言', async () => {
+  const projectRoot = createTempDir('forge-extract-detection-')
+  try {
+    fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true })
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'Settings.tsx'),
+      [
+        "import React from 'react'",
+        '',
+        'export function Settings({ name }) {',
+        "  const href = 'https://example.com/docs'",
+        "  const icon = '/assets/logo.svg'",
+        "  const mode = 'darkMode'",
+        '  return (',
+        '    <div className="flex items-center gap-2" data-testid="settings-panel">',
+        '      <h1>Account settings</h1>',
+        '      <p>{`Welcome back, ${name}!`}</p>',
+        '      <button type="submit">Save</button>',
+        '      <span>保存</span>',
+        '    </div>',
+        '  )',
+        '}',
+        ''
+      ].join('\n'),
+      'utf-8'
+    )
+
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: {
+          source: 'en_US',
+          targets: ['en_US']
+        },
+        sourceTextDetection: {
+          scripts: ['Latin']
+        }
+      },
+      { cwd: projectRoot }
+    )
+
+    await extract({ config, logger: silentLogger })
+
+    const texts = Object.values(JSON.parse(fs.readFileSync(config.getOutputPath('en_US'), 'utf-8'))).sort()
+    assert.deepEqual(texts, ['Account settings', 'Save', 'Welcome back, {name}!'])
+
+    const output = fs.readFileSync(path.join(projectRoot, 'src', 'Settings.tsx'), 'utf-8')
+    assert.match(output, /'https:\/\/example\.com\/docs'/, 'URL 不应被提取')
+    assert.match(output, /'\/assets\/logo\.svg'/, '路径不应被提取')
+    assert.match(output, /'darkMode'/, '标识符不应被提取')
+    assert.match(output, /className="flex items-center gap-2"/, 'CSS 类名不应被提取')
+    assert.match(output, /type="submit"/, '小写单词属性值不应被提取')
+    assert.match(output, /<span>保存<\/span>/, '未配置 Han 时不应提取中文')
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 默认识别 CJK 扩展汉字与纯全角标点文本', async () => {
+  const projectRoot = createTempDir('forge-extract-cjk-')
+  try {
+    fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true })
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'Notice.tsx'),
+      [
+        'export function Notice() {',
+        '  return (',
+        '    <p>',
+        "      <span>{'㐀㐁'}</span>",
+        "      <em>{'！？'}</em>",
+        '      <b>OK</b>',
+        '    </p>',
+        '  )',
+        '}',
+        ''
+      ].join('\n'),
+      'utf-8'
+    )
+
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN']
+        }
+      },
+      { cwd: projectRoot }
+    )
+
+    await extract({ config, logger: silentLogger })
+
+    const texts = Object.values(JSON.parse(fs.readFileSync(config.getOutputPath('zh_CN'), 'utf-8'))).sort()
+    assert.deepEqual(texts, ['㐀㐁', '！？'])
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 遵循 forge-i18n 注释指令', async () => {
+  const projectRoot = createTempDir('forge-extract-directives-')
+  try {
+    fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true })
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'Panel.tsx'),
+      [
+        "import React from 'react'",
+        '',
+        'export function Panel({ name }) {',
+        '  // forge-i18n-ignore-next-line',
+        "  const pattern = new RegExp('^[甲乙丙]+$')",
+        "  const fixture = /* forge-i18n-ignore */ { title: '测试数据', rows: ['第一行'] }",
+        "  const title = '面板标题'",
+        '  return (',
+        '    <div title={title}>',
+        '      {/* forge-i18n-ignore */}',
+        '      <pre>',
+        '        调试输出{name}',
+        '      </pre>',
+        '      {/* forge-i18n-ignore-next-line */}',
+        '      <span>内部标记</span>',
+        '      <p>欢迎使用</p>',
+        '    </div>',
+        '  )',
+        '}',
+        ''
+      ].join('\n'),
+      'utf-8'
+    )
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'fixtures.ts'),
+      ['// forge-i18n-disable', "export const SAMPLE = ['样例一', '样例二']", ''].join('\n'),
+      'utf-8'
+    )
+
+    const config = createConfig(
+      {
+        input: ['src/**/*.{ts,tsx}'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN']
+        }
+      },
+      { cwd: projectRoot }
+    )
+
+    const before = await check({ config })
+    assert.deepEqual(before.hits.map((hit) => hit.text).sort(), ['欢迎使用', '面板标题'])
+
+    await extract({ config, logger: silentLogger })
+
+    const texts = Object.values(JSON.parse(fs.readFileSync(config.getOutputPath('zh_CN'), 'utf-8'))).sort()
+    assert.deepEqual(texts, ['欢迎使用', '面板标题'])
+
+    const output = fs.readFileSync(path.join(projectRoot, 'src', 'Panel.tsx'), 'utf-8')
+    assert.match(output, /new RegExp\('\^\[甲乙丙\]\+\$'\)/)
+    assert.match(output, /title: '测试数据', rows: \['第一行'\]/)
+    assert.match(output, /调试输出\{name\}/)
+    assert.match(output, /<span>内部标记<\/span>/)
+
+    const fixtures = fs.readFileSync(path.join(projectRoot, 'src', 'fixtures.ts'), 'utf-8')
+    assert.match(fixtures, /\['样例一', '样例二'\]/, 'forge-i18n-disable 文件不应被改写')
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 使用增量缓存跳过未变更文件并保留其翻译', async () => {
+  const projectRoot = createFixtureProject()
+  try {
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'components', 'Other.tsx'),
+      ['export function Other() {', '  return <span>其它组件</span>', '}', ''].join('\n'),
+      'utf-8'
+    )
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN']
+        }
+      },
+      { cwd: projectRoot }
+    )
+    const readTexts = () =>
+      Object.values(JSON.parse(fs.readFileSync(config.getOutputPath('zh_CN'), 'utf-8'))).sort()
+
+    const first = await extract({ config, logger: silentLogger })
+    assert.deepEqual(first.cache, { enabled: true, hits: 0, misses: 2 })
+    assert.ok(fs.existsSync(path.join(projectRoot, '.forge-cache', 'extract-cache.json')))
+    assert.deepEqual(readTexts(), ['其它组件', '确认删除吗？'])
+
+    const second = await extract({ config, logger: silentLogger })
+    assert.deepEqual(second.cache, { enabled: true, hits: 2, misses: 0 })
+    assert.deepEqual(readTexts(), ['其它组件', '确认删除吗？'], '命中缓存的文件条目仍应写入')
+
+    const examplePath = path.join(projectRoot, 'src', 'components', 'Example.tsx')
+    fs.writeFileSync(
+      examplePath,
+      fs.readFileSync(examplePath, 'utf-8').replace('</button>', '</button>\n// 新增：\nconst hint = \'新增提示\''),
+      'utf-8'
+    )
+
+    const third = await extract({ config, logger: silentLogger })
+    assert.deepEqual(third.cache, { enabled: true, hits: 1, misses: 1 })
+    assert.deepEqual(readTexts(), ['其它组件', '新增提示', '确认删除吗？'], '变更文件中已转换的 key 应保留')
+
+    const full = await extract({ config, logger: silentLogger, cache: false })
+    assert.deepEqual(full.cache, { enabled: false, hits: 0, misses: 2 })
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 命中缓存时保留文件统计与顶层常量提醒', async () => {
+  const projectRoot = createTempDir('forge-i18n-cache-stats-')
+  try {
+    fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true })
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'Page.tsx'),
+      ["const TITLE = '订单列表'", '', 'export function Page() {', '  return <h1>{TITLE}：共两条</h1>', '}', ''].join(
+        '\n'
+      ),
+      'utf-8'
+    )
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: { source: 'zh_CN', targets: ['zh_CN'] }
+      },
+      { cwd: projectRoot }
+    )
+    const warningsPath = path.join(projectRoot, 'docs', 'i18n-top-level-warnings.md')
+    const readSummary = () => JSON.parse(fs.readFileSync(config.getOutputReportPath('zh_CN'), 'utf-8')).summary
+
+    await extract({ config, logger: silentLogger })
+    const warnings = fs.readFileSync(warningsPath, 'utf-8')
+    const summary = readSummary()
+    assert.match(warnings, /\| src\/Page\.tsx \| TITLE \| 1 \|/)
+    assert.equal(summary.totalExtracted, 2)
+
+    const second = await extract({ config, logger: silentLogger })
+    assert.deepEqual(second.cache, { enabled: true, hits: 1, misses: 0 })
+    assert.equal(fs.readFileSync(warningsPath, 'utf-8'), warnings)
+    const cachedSummary = readSummary()
+    assert.equal(cachedSummary.totalExtracted, summary.totalExtracted)
+    assert.equal(cachedSummary.totalDataConstants, summary.totalDataConstants)
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 并行处理的输出与串行一致', async () => {
+  const files = {
+    'src/components/SaveButton.tsx': [
+      'export function SaveButton({ count }) {',
+      '  return (',
+      '    <div>',
+      '      <button>保存</button>',
+      '      <span>{`已选择${count}项`}</span>',
+      '    </div>',
+      '  )',
+      '}',
+      ''
+    ],
+    'src/components/Toolbar.tsx': [
+      'export function Toolbar() {',
+      "  const tip = '保存'",
+      '  return <p title="工具栏">{tip}刷新</p>',
+      '}',
+      ''
+    ],
+    'src/pages/home/Home.tsx': [
+      'export function Home({ count }) {',
+      "  const label = '首页'",
+      '  return (',
+      '    <main aria-label={label}>',
+      '      <h1>保存</h1>',
+      '      <p>{`已选择${count}项`}</p>',
+      '      <p>首页</p>',
+      '    </main>',
+      '  )',
+      '}',
+      ''
+    ],
+    'src/pages/about/About.tsx': ['export const About = () => <section>关于我们</section>', '']
+  }
+
+  const createProject = () => {
+    const root = createTempDir('forge-extract-parallel-')
+    for (const [relative, lines] of Object.entries(files)) {
+      const target = path.join(root, relative)
+      fs.mkdirSync(path.dirname(target), { recursive: true })
+      fs.writeFileSync(target, lines.join('\n'), 'utf-8')
+    }
+    return root
+  }
+
+  const runExtract = async (root, concurrency) => {
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN', 'en_US']
+        }
+      },
+      { cwd: root }
+    )
+    await extract({ config, logger: silentLogger, cache: false, concurrency })
+
+    const snapshot = {}
+    for (const relative of Object.keys(files)) {
+      snapshot[relative] = fs.readFileSync(path.join(root, relative), 'utf-8')
+    }
+    snapshot.zh = fs.readFileSync(config.getOutputPath('zh_CN'), 'utf-8')
+    snapshot.en = fs.readFileSync(config.getOutputPath('en_US'), 'utf-8')
+    snapshot.detail = fs.readFileSync(config.getOutputDetailPath('zh_CN'), 'utf-8').split(root).join('<root>')
+    return snapshot
+  }
+
+  const sequentialRoot = createProject()
+  const parallelRoot = createProject()
+  try {
+    const sequential = await runExtract(sequentialRoot, 1)
+    const parallel = await runExtract(parallelRoot, 3)
+
+    assert.deepEqual(parallel, sequential)
+    assert.ok(!sequential['src/pages/home/Home.tsx'].includes('<h1>保存</h1>'), '跨文件复用的文本同样应被替换')
+  } finally {
+    cleanupTempDir(sequentialRoot)
+    cleanupTempDir(parallelRoot)
+  }
+})
+
+test('extract 在不同文案生成相同 key 时追加后缀并报告冲突位置', async () => {
+  // 两条文案的 md5 前 4 位相同（4fc5），hash 策略下会生成同一个 key
+  const files = {
+    'src/components/Alpha.tsx': ['export const Alpha = () => <p>提示216</p>', ''],
+    'src/components/Beta.tsx': [
+      'export function Beta() {',
+      '  return (',
+      '    <div>',
+      '      <p>提示367</p>',
+      '      <span>提示216</span>',
+      '    </div>',
+      '  )',
+      '}',
+      ''
+    ],
+    'src/components/Gamma.tsx': ['export const Gamma = () => <b>关闭</b>', '']
+  }
+
+  const runExtract = async (concurrency) => {
+    const root = createTempDir('forge-extract-collision-')
+    for (const [relative, lines] of Object.entries(files)) {
+      const target = path.join(root, relative)
+      fs.mkdirSync(path.dirname(target), { recursive: true })
+      fs.writeFileSync(target, lines.join('\n'), 'utf-8')
+    }
+    try {
+      const config = createConfig(
+        {
+          input: ['src/**/*.tsx'],
+          localesDir: 'locales',
+          languages: { source: 'zh_CN', targets: ['zh_CN'] },
+          keyGeneration: { strategy: 'hash' }
+        },
+        { cwd: root }
+      )
+      const result = await extract({ config, logger: silentLogger, cache: false, concurrency })
+      return {
+        collisions: result.collisions,
+        zh: JSON.parse(fs.readFileSync(config.getOutputPath('zh_CN'), 'utf-8')),
+        beta: fs.readFileSync(path.join(root, 'src/components/Beta.tsx'), 'utf-8')
+      }
+    } finally {
+      cleanupTempDir(root)
+    }
+  }
+
+  const sequential = await runExtract(1)
+
+  assert.equal(sequential.zh['common.4fc5'], '提示216')
+  assert.equal(sequential.zh['common.4fc5_2'], '提示367')
+  assert.ok(sequential.beta.includes('intl.get("common.4fc5_2")'))
+  assert.ok(sequential.beta.includes('intl.get("common.4fc5")'), '相同文案仍复用原 key')
+  assert.deepEqual(sequential.collisions, [
+    {
+      key: 'common.4fc5',
+      texts: ['提示216', '提示367'],
+      resolvedKey: 'common.4fc5_2',
+      locations: [
+        { file: path.join('src', 'components', 'Alpha.tsx'), line: 1, column: 31 },
+        { file: path.join('src', 'components', 'Beta.tsx'), line: 4, column: 10 }
+      ]
+    }
+  ])
+
+  // 并行处理时跨文件冲突回退到主线程，结果与串行一致
+  assert.deepEqual(await runExtract(3), sequential)
+})
+
+test('extract 在详情文件中记录每个 key 的全部引用位置', async () => {
+  const root = createTempDir('forge-extract-occurrences-')
+  const write = (relative, lines) => {
+    const target = path.join(root, relative)
+    fs.mkdirSync(path.dirname(target), { recursive: true })
+    fs.writeFileSync(target, lines.join('\n'), 'utf-8')
+  }
+
+  write('src/pages/home/Home.tsx', [
+    "import { memo, useCallback } from 'react'",
+    '',
+    'export const Home = memo(() => {',
+    '  const handleSave = useCallback(() => {',
+    "    alert('保存')",
+    '  }, [])',
+    '  return <button onClick={handleSave}>保存</button>',
+    '})',
+    ''
+  ])
+  write('src/pages/home/Panel.tsx', [
+    "import React from 'react'",
+    '',
+    'export class Panel extends React.Component {',
+    '  render() {',
+    '    return <p>保存</p>',
+    '  }',
+    '}',
+    '',
+    "export const TITLE = '保存'",
+    ''
+  ])
+
+  try {
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: { source: 'zh_CN', targets: ['zh_CN'] }
+      },
+      { cwd: root }
+    )
+    await extract({ config, logger: silentLogger, cache: false, concurrency: 1 })
+
+    const detail = JSON.parse(fs.readFileSync(config.getOutputDetailPath('zh_CN'), 'utf-8'))
+    const entries = Object.values(detail)
+    assert.equal(entries.length, 1)
+
+    const home = path.join('src', 'pages', 'home', 'Home.tsx')
+    const panel = path.join('src', 'pages', 'home', 'Panel.tsx')
+    // 行列号对应写回后的代码（Home.tsx 顶部插入了一行 import）
+    assert.deepEqual(entries[0].occurrences, [
+      { file: home, line: 6, column: 11, component: 'Home', function: 'handleSave' },
+      { file: home, line: 8, column: 40, component: 'Home', function: 'Home' },
+      { file: panel, line: 6, column: 16, component: 'Panel', function: 'render' },
+      { file: panel, line: 10, column: 22, component: null, function: null }
+    ])
+
+    const homeLines = fs.readFileSync(path.join(root, home), 'utf-8').split('\n')
+    assert.ok(homeLines[5].slice(10).startsWith('intl.get('))
+  } finally {
+    cleanupTempDir(root)
+  }
+})
+
+test('extract 将 i18n: 与 @i18n-context 注释记录为译者说明', async () => {
+  const root = createTempDir('forge-extract-notes-')
+  const file = path.join(root, 'src/pages/shop/Checkout.tsx')
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(
+    file,
+    [
+      '/* i18n: 弹窗标题 */',
+      "export const TITLE = '确认'",
+      '',
+      'export function Checkout() {',
+      "  const label = '账户' // i18n: 用户账户，不是银行账户",
+      '  return (',
+      '    // @i18n-context 结账页底部操作栏',
+      '    <footer>',
+      "      <button title={/* i18n: 按钮提示 */ '打开'}>",
+      '        {/* i18n: 动词，打开订单详情 */}',
+      '        打开',
+      '      </button>',
+      '      <span>{label}</span>',
+      '      <em>取消</em>',
+      '    </footer>',
+      '  )',
+      '}',
+      ''
+    ].join('\n'),
+    'utf-8'
+  )
+
+  try {
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: { source: 'zh_CN', targets: ['zh_CN'] }
+      },
+      { cwd: root }
+    )
+    await extract({ config, logger: silentLogger, cache: false, concurrency: 1 })
+
+    const detail = JSON.parse(fs.readFileSync(config.getOutputDetailPath('zh_CN'), 'utf-8'))
+    const notesByText = Object.fromEntries(Object.values(detail).map((entry) => [entry.text, entry.notes]))
+    assert.deepEqual(notesByText, {
+      确认: ['弹窗标题'],
+      账户: ['用户账户，不是银行账户'],
+      打开: ['结账页底部操作栏；按钮提示', '结账页底部操作栏；动词，打开订单详情'],
+      取消: ['结账页底部操作栏']
+    })
+
+    // 说明注释保留在源码中，且仍紧贴原语句
+    const output = fs.readFileSync(file, 'utf-8')
+    assert.ok(output.startsWith("import intl from 'react-intl-universal'\n/* i18n: 弹窗标题 */\n"))
+    assert.ok(output.includes('{/* i18n: 动词，打开订单详情 */}'))
+  } finally {
+    cleanupTempDir(root)
+  }
+})
+
+test('extract 将表示数量的模板插值标记为需要 ICU plural', async () => {
+  const root = createTempDir('forge-extract-plurals-')
+  const file = path.join(root, 'src/pages/list/Summary.tsx')
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(
+    file,
+    [
+      'export function Summary({ count, page, user, items }) {',
+      '  const total = `共${count}条记录`',
+      '  const current = `第${page}页`',
+      '  const greeting = `欢迎，${user}`',
+      '  const selected = `已选择${items.length}个文件`',
+      '  return [total, current, greeting, selected]',
+      '}',
+      ''
+    ].join('\n'),
+    'utf-8'
+  )
+
+  try {
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: { source: 'zh_CN', targets: ['zh_CN'] }
+      },
+      { cwd: root }
+    )
+    await extract({ config, logger: silentLogger, cache: false, concurrency: 1 })
+
+    const detail = JSON.parse(fs.readFileSync(config.getOutputDetailPath('zh_CN'), 'utf-8'))
+    const pluralsByText = Object.fromEntries(Object.values(detail).map((entry) => [entry.text, entry.plurals]))
+    assert.deepEqual(pluralsByText, {
+      '共{count}条记录': ['count'],
+      '第{page}页': undefined,
+      '欢迎，{user}': undefined,
+      '已选择{items_length}个文件': ['items_length']
+    })
+  } finally {
+    cleanupTempDir(root)
+  }
+})
+
+test('findStaleKeys 报告不再被引用的 key，pruneKeys 从所有语言文件中删除', async () => {
+  const projectRoot = createFixtureProject()
+  try {
+    const config = createConfig(
+      {
+        input: ['src/**/*.tsx'],
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN', 'en_US']
+        }
+      },
+      { cwd: projectRoot }
+    )
+
+    const removedPath = path.join(projectRoot, 'src', 'components', 'Removed.tsx')
+    fs.writeFileSync(removedPath, 'export const Removed = () => <span>即将删除</span>\n', 'utf-8')
+
+    await extract({ config, logger: silentLogger, cache: false })
+
+    const zhPath = config.getOutputPath('zh_CN')
+    const enPath = config.getOutputPath('en_US')
+    const zh = JSON.parse(fs.readFileSync(zhPath, 'utf-8'))
+    const staleKey = Object.keys(zh).find((key) => zh[key] === '即将删除')
+    const liveKey = Object.keys(zh).find((key) => zh[key] === '确认删除吗？')
+    fs.writeFileSync(
+      enPath,
+      JSON.stringify({ [staleKey]: 'To be removed', [liveKey]: 'Confirm?', 'status.active': 'Active' }, null, 2),
+      'utf-8'
+    )
+
+    fs.rmSync(removedPath)
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'components', 'Status.tsx'),
+      [
+        "import intl from 'react-intl-universal'",
+        '',
+        'export const Status = ({ code }) => <span>{intl.get(`status.${code}`)}</span>',
+        ''
+      ].join('\n'),
+      'utf-8'
+    )
+
+    const report = await findStaleKeys({ config })
+    assert.equal(report.safe, true)
+    assert.deepEqual(report.staleKeys.map((item) => item.key), [staleKey])
+    assert.deepEqual(report.staleKeys[0].files.sort(), [
+      path.join('locales', 'en-US', 'translation.json'),
+      path.join('locales', 'zh-CN', 'translation.detail.json'),
+      path.join('locales', 'zh-CN', 'translation.json')
+    ])
+    assert.equal(report.dynamicReferences.length, 1)
+    assert.equal(report.dynamicReferences[0].prefix, 'status.')
+    assert.equal(report.dynamicReferences[0].line, 3)
+
+    // 已审校的译文在元数据中记录了状态
+    const metaPath = config.getOutputMetaPath('en_US')
+    applyReviewDecisions(
+      [
+        { locale: 'en_US', key: staleKey, action: 'lock' },
+        { locale: 'en_US', key: liveKey, action: 'accept' }
+      ],
+      { config }
+    )
+    const readMetaKeys = () => Object.keys(JSON.parse(fs.readFileSync(metaPath, 'utf-8')).entries).sort()
+
+    const dryRun = pruneKeys([staleKey], { config, dryRun: true })
+    assert.equal(dryRun.files.length, 4)
+    assert.ok(Object.prototype.hasOwnProperty.call(JSON.parse(fs.readFileSync(enPath, 'utf-8')), staleKey))
+    assert.deepEqual(readMetaKeys(), [liveKey, staleKey].sort())
+
+    const result = pruneKeys([staleKey], { config })
+    assert.deepEqual(result.removed, [staleKey])
+    assert.ok(result.files.includes(path.join('locales', 'en-US', 'translation.meta.json')))
+    assert.deepEqual(JSON.parse(fs.readFileSync(enPath, 'utf-8')), { [liveKey]: 'Confirm?', 'status.active': 'Active' })
+    assert.equal(JSON.parse(fs.readFileSync(zhPath, 'utf-8'))[staleKey], undefined)
+    assert.deepEqual(readMetaKeys(), [liveKey], '删除的 key 不应在元数据中保留审校状态')
+
+    fs.writeFileSync(
+      path.join(projectRoot, 'src', 'components', 'Dynamic.tsx'),
+      "import intl from 'react-intl-universal'\n\nexport const label = (key) => intl.get(key)\n",
+      'utf-8'
+    )
+    const unsafe = await findStaleKeys({ config })
+    assert.equal(unsafe.safe, false)
+    assert.deepEqual(
+      unsafe.dynamicReferences.map((item) => [item.expression, item.prefix]),
+      [['key', ''], ['`status.${code}`', 'status.']]
+    )
+  } finally {
+    cleanupTempDir(projectRoot)
+  }
+})
+
+test('extract 按 runtime 配置生成 react-i18next 与 react-intl 调用', async () => {
+  const source = [
+    "import React from 'react'",
+    '',
+    "const TITLE = '顶层标题'",
+    '',
+    'export const Card = ({ name }) => <div title="卡片">你好，{name}</div>',
+    '',
+    'export function Page() {',
+    "  const onClick = () => alert('已保存')",
+    '  return (',
+    '    <div>',
+    '      <h1>页面标题</h1>',
+    '      {[1].map((t) => <span key={t}>{`列表项`}</span>)}',
+    '    </div>',
+    '  )',
+    '}',
+    ''
+  ].join('\n')
+
+  const run = async (runtime, code = source) => {
+    const projectRoot = createTempDir('forge-runtime-')
+    try {
+      fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true })
+      const sourcePath = path.join(projectRoot, 'src', 'Page.tsx')
+      fs.writeFileSync(sourcePath, code, 'utf-8')
+      const config = createConfig(
+        {
+          input: ['src/**/*.tsx'],
+          localesDir: 'locales',
+          languages: { source: 'zh_CN', targets: ['zh_CN'] },
+          runtime
+        },
+        { cwd: projectRoot }
+      )
+
+      const warnings = []
+      await extract({ config, logger: { ...silentLogger, warn: (message) => warnings.push(message) }, cache: false })
+      const zh = JSON.parse(fs.readFileSync(config.getOutputPath('zh_CN'), 'utf-8'))
+      const keyOf = (text) => Object.keys(zh).find((key) => zh[key] === text)
+      const report = await findStaleKeys({ config })
+      return { output: fs.readFileSync(sourcePath, 'utf-8'), keyOf, report, warnings }
+    } finally {
+      cleanupTempDir(projectRoot)
+    }
+  }
+
+  const i18next = await run({ preset: 'react-i18next' })
+  const i18nextLines = i18next.output.split('\n')
+  assert.deepEqual(i18nextLines.slice(0, 3), [
+    "import i18n from 'i18next'",
+    "import { useTranslation } from 'react-i18next'",
+    "import React from 'react'"
+  ])
+  assert.ok(i18nextLines.includes(`const TITLE = i18n.t('${i18next.keyOf('顶层标题')}')`))
+  assert.ok(i18nextLines.includes('export const Card = ({ name }) => {'))
+  assert.equal(i18nextLines.filter((line) => line === '  const { t } = useTranslation()').length, 2)
+  assert.ok(i18nextLines.includes(`  const onClick = () => alert(t('${i18next.keyOf('已保存')}'))`))
+  // map 回调的参数 t 遮蔽了 hook，退回组件外的调用形式
+  assert.match(i18next.output, /\{\[1\]\.map\(\(t\) => <span key=\{t\}>\{i18n\.t\('[^']+'\)\}<\/span>\)\}/)
+  assert.deepEqual(i18next.report.staleKeys, [])
+  assert.deepEqual(i18next.warnings, [])
+
+  // 组件内已在使用模块级的 t，注入 hook 会改变这些调用的含义
+  const shadowed = await run({ preset: 'react-i18next' }, [
+    "import { t } from './helpers'",
+    '',
+    'export function Legacy() {',
+    "  return <p title={t('legacy.title')}>旧文案</p>",
+    '}',
+    ''
+  ].join('\n'))
+  assert.doesNotMatch(shadowed.output, /useTranslation/)
+  assert.ok(shadowed.output.includes(`  return <p title={t('legacy.title')}>{i18n.t('${shadowed.keyOf('旧文案')}')}</p>`))
+
+  const reactIntl = await run({ preset: 'react-intl' })
+  assert.match(reactIntl.output, /^import \{ useIntl, FormattedMessage \} from 'react-intl'\n/)
+  assert.ok(reactIntl.output.includes(`<h1><FormattedMessage id="${reactIntl.keyOf('页面标题')}" /></h1>`))
+  assert.ok(
+    reactIntl.output.includes(`<FormattedMessage id="${reactIntl.keyOf('你好，{name}')}" values={{ name }} />`)
+  )
+  assert.ok(reactIntl.output.includes(`title={intl.formatMessage({ id: '${reactIntl.keyOf('卡片')}' })}`))
+  assert.ok(reactIntl.output.includes('  const intl = useIntl()'))
+  assert.deepEqual(reactIntl.report.staleKeys, [])
+  // 预设没有组件外可用的 intl 实例，顶层常量需要提示配置 runtime.import
+  assert.equal(reactIntl.warnings.length, 1)
+  assert.match(reactIntl.warnings[0], /^⚠ src\/Page\.tsx:3 的 intl\.formatMessage 未定义/)
+})
+
+test('extract 将夹杂行内元素的 JSX 文本整体提取为富文本文案', async () => {
+  const source = [
+    "import { Link } from 'react-router-dom'",
+    '',
+    'export function Terms({ name }) {',
+    '  return (',
+    '    <div>',
+    '      <p>',
+    '        请阅读<a href="/terms" className="link">服务条款</a>后继续',
+    '      </p>',
+    '      <p>你好，<strong>{name}</strong><br />欢迎回来</p>',
+    '      <p>前往<Link to="/help">帮助中心</Link>了解更多</p>',
+    '      <p><Icon />保存</p>',
+    '    </div>',
+    '  )',
+    '}',
+    ''
+  ].join('\n')
+
+  const run = async (runtime, concurrency) => {
+    const projectRoot = createTempDir('forge-rich-text-')
+    try {
+      fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true })
+      const sourcePath = path.join(projectRoot, 'src', 'Terms.tsx')
+      fs.writeFileSync(sourcePath, source, 'utf-8')
+      const config = createConfig(
+        {
+          input: ['src/**/*.tsx'],
+          localesDir: 'locales',
+          languages: { source: 'zh_CN', targets: ['zh_CN'] },
+          runtime
+        },
+        { cwd: projectRoot }
+      )
+
+      await extract({ config, logger: silentLogger, cache: false, concurrency })
+      const zh = JSON.parse(fs.readFileSync(config.getOutputPath('zh_CN'), 'utf-8'))
+      const keyOf = (text) => Object.keys(zh).find((key) => zh[key] === text)
+      const report = await findStaleKeys({ config })
+      return { output: fs.readFileSync(sourcePath, 'utf-8'), zh, keyOf, report }
+    } finally {
+      cleanupTempDir(projectRoot)
+    }
+  }
+
+  // react-intl-universal：原生标签写入文案，通过 intl.getHTML 渲染；自定义组件无法写入 HTML，按片段提取
+  const universal = await run({ preset: 'react-intl-universal' }, 1)
+  assert.deepEqual(Object.values(universal.zh), [
+    '请阅读<a href="/terms" class="link">服务条款</a>后继续',
+    '你好，<strong>{name}</strong><br/>欢迎回来',
+    '前往',
+    '帮助中心',
+    '了解更多',
+    '保存'
+  ])
+  const termsKey = universal.keyOf('请阅读<a href="/terms" class="link">服务条款</a>后继续')
+  assert.ok(!termsKey.includes('<'), `key 中不应包含标签: ${termsKey}`)
+  assert.ok(universal.output.includes(`        {intl.getHTML('${termsKey}')}\n`))
+  assert.ok(
+    universal.output.includes(
+      `<p>{intl.getHTML('${universal.keyOf('你好，<strong>{name}</strong><br/>欢迎回来')}', { name })}</p>`
+    )
+  )
+  assert.ok(universal.output.includes(`<p><Icon />{intl.get('${universal.keyOf('保存')}')}</p>`))
+  assert.deepEqual(universal.report.staleKeys, [])
+
+  // react-i18next：标签写为编号占位，由 Trans 按编号插入元素
+  const i18next = await run({ preset: 'react-i18next' }, 1)
+  assert.deepEqual(Object.values(i18next.zh), [
+    '请阅读<0>服务条款</0>后继续',
+    '你好，<0>{name}</0><1/>欢迎回来',
+    '前往<0>帮助中心</0>了解更多',
+    '保存'
+  ])
+  assert.match(i18next.output, /^import \{ useTranslation, Trans \} from 'react-i18next'\n/)
+  assert.ok(
+    i18next.output.includes(
+      `<Trans i18nKey="${i18next.keyOf('请阅读<0>服务条款</0>后继续')}" components={[<a href="/terms" className="link" />]} />`
+    )
+  )
+  assert.ok(
+    i18next.output.includes(
+      `<p><Trans i18nKey="${i18next.keyOf('你好，<0>{name}</0><1/>欢迎回来')}" values={{ name }} components={[<strong />, <br />]} /></p>`
+    )
+  )
+  assert.ok(i18next.output.includes(`components={[<Link to="/help" />]} /></p>`))
+  assert.deepEqual(i18next.report.staleKeys, [])
+
+  const parallel = await run({ preset: 'react-i18next' }, 2)
+  assert.equal(parallel.output, i18next.output)
+  assert.deepEqual(parallel.zh, i18next.zh)
+})
@@ -6,6 +6,10 @@ import path from 'node:path'
 
 import { createConfig, resetConfig } from '../dist/config/index.js'
 import { translate } from '../dist/core/translate.js'
+import { check } from '../dist/core/check.js'
+import { applyReviewDecisions, findPendingReviews } from '../dist/core/review.js'
+import { pseudo, pseudoLocalize } from '../dist/core/pseudo.js'
+import { extractICUVariableCounts } from '../dist/core/icu-utils.js'
 
 const SHOULD_CLEAN_FIXTURE = process.env.KEEP_I18N_FIXTURE !== '1'
 
@@ -424,3 +428,825 @@ test('translate 在 force 模式下会重新翻译已有条目', async (t) => {
   assert.equal(enData['common.confirm.delete'], 'forced:确认删除吗？')
   assert.equal(enData['common.action.save'], 'forced:保存')
 })
+
+test('translate 将详情文件中的译者说明写入翻译 prompt', async (t) => {
+  const tempDir = createTempDir('forge-translate-notes-')
+  const originalFetch = global.fetch
+  const userMessages = []
+
+  t.after(() => {
+    global.fetch = originalFetch
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: {
+        source: 'zh_CN',
+        targets: ['zh_CN', 'en_US']
+      },
+      translation: {
+        batchSize: 10,
+        batchDelay: 0,
+        maxTokensPerRequest: 1000
+      },
+      aiProvider: buildProvider({ apiUrl: 'https://fake.ai.local' })
+    },
+    { cwd: tempDir }
+  )
+
+  const zhPath = config.getOutputPath('zh_CN')
+  fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+  fs.writeFileSync(
+    zhPath,
+    JSON.stringify({ 'shop.action.open': '打开', 'shop.text.account': '账户' }, null, 2),
+    'utf-8'
+  )
+  fs.writeFileSync(
+    config.getOutputDetailPath('zh_CN'),
+    JSON.stringify(
+      {
+        'shop.action.open': {
+          text: '打开',
+          interpolations: [],
+          notes: ['结账页底部操作栏；动词，打开订单详情', '按钮提示，最多 12 个字符']
+        },
+        'shop.text.account': { text: '账户', interpolations: [] }
+      },
+      null,
+      2
+    ),
+    'utf-8'
+  )
+
+  global.fetch = async (_url, options) => {
+    const payload = JSON.parse(options.body)
+    const userMessage = payload.messages.find((item) => item.role === 'user')?.content || ''
+    userMessages.push(userMessage)
+    const requested = JSON.parse(userMessage.match(/\{[\s\S]+\}/m)[0])
+
+    return {
+      ok: true,
+      status: 200,
+      headers: {
+        get() {
+          return null
+        }
+      },
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify(Object.fromEntries(Object.keys(requested).map((key) => [key, `en:${key}`])))
+            }
+          }
+        ]
+      })
+    }
+  }
+
+  await translate({ config })
+
+  assert.equal(userMessages.length, 1)
+  assert.ok(
+    userMessages[0].includes('- shop.action.open: 结账页底部操作栏；动词，打开订单详情；按钮提示，最多 12 个字符'),
+    'prompt 应包含该 key 的全部译者说明'
+  )
+  assert.ok(!userMessages[0].includes('- shop.text.account'), '没有说明的 key 不应出现在说明列表中')
+})
+
+test('translate 为计数变量要求目标语言的全部复数类别', async (t) => {
+  const tempDir = createTempDir('forge-translate-plurals-')
+  const originalFetch = global.fetch
+  const userMessages = []
+  let pluralReply = '{count, plural, one {# record} other {# records}}'
+
+  t.after(() => {
+    global.fetch = originalFetch
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: {
+        source: 'zh_CN',
+        targets: ['zh_CN', 'en_US', 'ja_JP']
+      },
+      translation: {
+        batchSize: 10,
+        batchDelay: 0,
+        maxTokensPerRequest: 1000
+      },
+      aiProvider: buildProvider({ apiUrl: 'https://fake.ai.local' })
+    },
+    { cwd: tempDir }
+  )
+
+  const zhPath = config.getOutputPath('zh_CN')
+  fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+  fs.writeFileSync(
+    zhPath,
+    JSON.stringify({ 'list.text.total': '共{count}条记录', 'list.text.title': '记录' }, null, 2),
+    'utf-8'
+  )
+  fs.writeFileSync(
+    config.getOutputDetailPath('zh_CN'),
+    JSON.stringify(
+      {
+        'list.text.total': { text: '共{count}条记录', interpolations: ['count'], plurals: ['count'] },
+        'list.text.title': { text: '记录', interpolations: [] }
+      },
+      null,
+      2
+    ),
+    'utf-8'
+  )
+
+  global.fetch = async (_url, options) => {
+    const payload = JSON.parse(options.body)
+    const userMessage = payload.messages.find((item) => item.role === 'user')?.content || ''
+    userMessages.push(userMessage)
+    const requested = JSON.parse(userMessage.match(/\{[\s\S]+\}/m)[0])
+    const isEnglish = userMessage.includes('English')
+    const reply = (key) => {
+      if (key === 'list.text.total') return isEnglish ? pluralReply : '合計{count}件'
+      return isEnglish ? 'Records' : '記録'
+    }
+
+    return {
+      ok: true,
+      status: 200,
+      headers: {
+        get() {
+          return null
+        }
+      },
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify(Object.fromEntries(Object.keys(requested).map((key) => [key, reply(key)])))
+            }
+          }
+        ]
+      })
+    }
+  }
+
+  await translate({ config })
+
+  const enPrompt = userMessages.find((message) => message.includes('English'))
+  const jaPrompt = userMessages.find((message) => !message.includes('English'))
+  assert.ok(enPrompt.includes('复数类别为 one, other'), '英文 prompt 应列出 CLDR 复数类别')
+  assert.ok(enPrompt.includes('- list.text.total: count'))
+  assert.ok(!enPrompt.includes('- list.text.title'))
+  assert.ok(!jaPrompt.includes('ICU plural'), '只有 other 类别的语言无需 plural')
+
+  const enPath = config.getOutputPath('en_US')
+  assert.equal(JSON.parse(fs.readFileSync(enPath, 'utf-8'))['list.text.total'], pluralReply)
+  assert.equal(JSON.parse(fs.readFileSync(config.getOutputPath('ja_JP'), 'utf-8'))['list.text.total'], '合計{count}件')
+
+  // 缺少复数分支的译文不合格，保留已有译文
+  const previous = pluralReply
+  pluralReply = '{count} records'
+  await translate({ config, force: true })
+  assert.equal(JSON.parse(fs.readFileSync(enPath, 'utf-8'))['list.text.total'], previous)
+
+  // 没有兜底时报告缺失的复数类别
+  fs.rmSync(enPath)
+  pluralReply = '{count, plural, other {# records}}'
+  const error = await translate({ config, targetLanguages: ['en_US'] }).then(
+    () => assert.fail('缺少复数类别且无兜底翻译时应抛出错误'),
+    (err) => err
+  )
+  assert.match(error.message, /翻译失败 \d+\/\d+ 条/)
+
+  const logMatch = error.message.match(/([^\s]*translation-failed-[^ \n]+)/)
+  if (logMatch) {
+    const logFilePath = path.resolve(process.cwd(), logMatch[1])
+    if (fs.existsSync(logFilePath)) {
+      assert.match(fs.readFileSync(logFilePath, 'utf-8'), /plural 缺少复数类别：count（缺少 one）/)
+      fs.rmSync(logFilePath, { force: true })
+    }
+  }
+})
+
+test('translate 校验富文本标签完整且正确嵌套', async (t) => {
+  const tempDir = createTempDir('forge-translate-tags-')
+  const originalFetch = global.fetch
+
+  t.after(() => {
+    global.fetch = originalFetch
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: {
+        source: 'zh_CN',
+        targets: ['zh_CN', 'en_US']
+      },
+      translation: {
+        batchSize: 10,
+        batchDelay: 0,
+        maxTokensPerRequest: 1000
+      },
+      aiProvider: buildProvider({ apiUrl: 'https://fake.ai.local' })
+    },
+    { cwd: tempDir }
+  )
+
+  const zhPath = config.getOutputPath('zh_CN')
+  const enPath = config.getOutputPath('en_US')
+  fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+  fs.mkdirSync(path.dirname(enPath), { recursive: true })
+  fs.writeFileSync(
+    zhPath,
+    JSON.stringify(
+      {
+        'legal.text.terms': '请阅读<0>服务条款</0>后继续',
+        'legal.text.link': '请阅读<a href="/terms">服务条款</a>后继续',
+        'legal.text.nested': '<0>注意<1>必读</1></0>事项'
+      },
+      null,
+      2
+    ),
+    'utf-8'
+  )
+  fs.writeFileSync(
+    enPath,
+    JSON.stringify(
+      {
+        'legal.text.terms': 'old terms',
+        'legal.text.link': 'old link',
+        'legal.text.nested': 'old nested'
+      },
+      null,
+      2
+    ),
+    'utf-8'
+  )
+
+  global.fetch = async () => ({
+    ok: true,
+    status: 200,
+    headers: {
+      get() {
+        return null
+      }
+    },
+    json: async () => ({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              // 标签随语序调整位置是允许的
+              'legal.text.terms': 'Continue after reading <0>the terms</0>',
+              'legal.text.link': 'Please read <a href="/en/terms">the terms</a> first',
+              'legal.text.nested': '<0>Note <1>required</0></1> items'
+            })
+          }
+        }
+      ]
+    })
+  })
+
+  await translate({ config, force: true })
+
+  assert.deepEqual(JSON.parse(fs.readFileSync(enPath, 'utf-8')), {
+    'legal.text.terms': 'Continue after reading <0>the terms</0>',
+    'legal.text.link': 'old link',
+    'legal.text.nested': 'old nested'
+  })
+})
+
+test('translate 使用 mock 接口离线生成译文并按 failKeys 模拟失败', async (t) => {
+  const tempDir = createTempDir('forge-translate-mock-')
+  const originalFetch = global.fetch
+
+  t.after(() => {
+    global.fetch = originalFetch
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  global.fetch = async () => {
+    throw new Error('mock 接口不应发送网络请求')
+  }
+
+  const buildConfig = (mock) =>
+    createConfig(
+      {
+        localesDir: 'locales',
+        languages: {
+          source: 'zh_CN',
+          targets: ['zh_CN', 'en_US']
+        },
+        translation: {
+          batchSize: 1,
+          batchDelay: 0,
+          maxTokensPerRequest: 1000
+        },
+        aiProvider: { type: 'mock', apiKey: '', mock }
+      },
+      { cwd: tempDir }
+    )
+
+  const config = buildConfig({})
+  const zhPath = config.getOutputPath('zh_CN')
+  fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+  fs.writeFileSync(
+    zhPath,
+    JSON.stringify({ 'list.text.total': '共{count}条记录', 'common.action.save': '保存' }, null, 2),
+    'utf-8'
+  )
+  fs.writeFileSync(
+    config.getOutputDetailPath('zh_CN'),
+    JSON.stringify({ 'list.text.total': { text: '共{count}条记录', interpolations: ['count'], plurals: ['count'] } }),
+    'utf-8'
+  )
+
+  await translate({ config })
+
+  const enPath = config.getOutputPath('en_US')
+  assert.deepEqual(JSON.parse(fs.readFileSync(enPath, 'utf-8')), {
+    'list.text.total': '{count, plural, one {[en_US] 共{count}条记录} other {[en_US] 共{count}条记录}}',
+    'common.action.save': '[en_US] 保存'
+  })
+
+  const failing = buildConfig({ mode: 'echo', failKeys: ['common.action.save'] })
+  fs.rmSync(enPath)
+  const error = await translate({ config: failing }).then(
+    () => assert.fail('failKeys 中的 key 应翻译失败'),
+    (err) => err
+  )
+  assert.match(error.message, /翻译失败 1\/2 条/)
+  assert.equal(JSON.parse(fs.readFileSync(enPath, 'utf-8'))['common.action.save'], '')
+  assert.match(JSON.parse(fs.readFileSync(enPath, 'utf-8'))['list.text.total'], /^\{count, plural, one \{共\{count\}条记录\}/)
+
+  assert.throws(() => buildConfig({ mode: 'pirate' }), /aiProvider.mock.mode 必须是/)
+})
+
+test('pseudo 伪本地化文案并原样保留 ICU 参数与标签', async (t) => {
+  const tempDir = createTempDir('forge-pseudo-')
+  const originalFetch = global.fetch
+
+  t.after(() => {
+    global.fetch = originalFetch
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const settings = { expansion: 0.5, brackets: ['[', ']'] }
+  assert.equal(pseudoLocalize('Save', settings), '[Šåṽé ~~]')
+  assert.equal(pseudoLocalize('Hello, {name}', settings), '[Ĥéļļö, {name} ~~~]')
+  assert.equal(pseudoLocalize('Read <a href="/terms">terms</a>', settings), '[Ŕéåð <a href="/terms">ţéŕɱš</a> ~~~~~]')
+  assert.equal(
+    pseudoLocalize('{count, plural, one {# item} other {# items}}', settings),
+    '[{count, plural, one {# îţéɱ ~~} other {# îţéɱš ~~~}}]'
+  )
+
+  const source = {
+    'list.text.total': '{count, plural, =0 {No records} one {# record} other {{count} records for {name}}}',
+    'common.action.save': 'Save',
+    'common.text.welcome': '欢迎，{name}'
+  }
+
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: { source: 'zh_CN', targets: ['zh_CN', 'en_US'] },
+      aiProvider: buildProvider({ apiKey: '' })
+    },
+    { cwd: tempDir }
+  )
+  fs.mkdirSync(path.dirname(config.getOutputPath('en_US')), { recursive: true })
+  fs.writeFileSync(config.getOutputPath('en_US'), JSON.stringify(source, null, 2), 'utf-8')
+
+  const result = await pseudo({ config, from: 'en_US' })
+  assert.equal(result.locale, 'en_XA')
+  assert.equal(result.entries, 3)
+
+  const generated = JSON.parse(fs.readFileSync(config.getOutputPath('en_XA'), 'utf-8'))
+  assert.deepEqual(Object.keys(generated), Object.keys(source))
+  for (const [key, text] of Object.entries(source)) {
+    assert.deepEqual(extractICUVariableCounts(generated[key]), extractICUVariableCounts(text), key)
+    assert.match(generated[key], /^\[.*\]$/)
+  }
+  assert.equal(generated['common.text.welcome'], '[欢迎，{name} ~]')
+
+  // 伪本地化语言可作为 translate 的目标语言，不调用 AI 服务
+  global.fetch = async () => {
+    throw new Error('伪本地化不应发送网络请求')
+  }
+  fs.mkdirSync(path.dirname(config.getOutputPath('zh_CN')), { recursive: true })
+  fs.writeFileSync(config.getOutputPath('zh_CN'), JSON.stringify({ 'common.action.save': '保存' }), 'utf-8')
+  const translated = await translate({ config, targetLanguages: ['en_XA'] })
+  assert.deepEqual(translated.results.en_XA, { 'common.action.save': '[保存 ~]' })
+
+  assert.throws(
+    () => createConfig({ pseudo: { brackets: ['{', '}'] } }, { cwd: tempDir }),
+    /pseudo.brackets 必须是两个不含/
+  )
+})
+
+test('translate 将术语表写入 prompt 并校验译文术语', async (t) => {
+  const tempDir = createTempDir('forge-translate-glossary-')
+  const originalFetch = global.fetch
+  const systemPrompts = []
+  const replies = {
+    'nav.workbench': 'Open Workbench',
+    'nav.brand': 'Welcome to ForgeCloud',
+    'nav.plain': 'Settings'
+  }
+
+  t.after(() => {
+    global.fetch = originalFetch
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  fs.writeFileSync(
+    path.join(tempDir, 'glossary.csv'),
+    '\uFEFFterm,en_US,ja_JP\r\n工作台,Workbench,ワークベンチ\r\n"审批流",Approval Flow,\r\n',
+    'utf-8'
+  )
+
+  const buildConfig = (translation) =>
+    createConfig(
+      {
+        localesDir: 'locales',
+        languages: { source: 'zh_CN', targets: ['zh_CN', 'en_US'] },
+        translation: {
+          batchSize: 10,
+          batchDelay: 0,
+          maxTokensPerRequest: 1000,
+          glossary: 'glossary.csv',
+          doNotTranslate: ['ForgeCloud'],
+          ...translation
+        },
+        aiProvider: buildProvider({ apiUrl: 'https://fake.ai.local' })
+      },
+      { cwd: tempDir }
+    )
+
+  const config = buildConfig({})
+  const zhPath = config.getOutputPath('zh_CN')
+  fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+  fs.writeFileSync(
+    zhPath,
+    JSON.stringify({ 'nav.workbench': '打开工作台', 'nav.brand': '欢迎使用 ForgeCloud', 'nav.plain': '设置' }, null, 2),
+    'utf-8'
+  )
+
+  global.fetch = async (_url, options) => {
+    const payload = JSON.parse(options.body)
+    systemPrompts.push(payload.messages.find((item) => item.role === 'system').content)
+    const userMessage = payload.messages.find((item) => item.role === 'user').content
+    const requested = JSON.parse(userMessage.match(/\{[\s\S]+\}/m)[0])
+    const translated = Object.fromEntries(Object.keys(requested).map((key) => [key, replies[key]]))
+
+    return {
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      json: async () => ({ choices: [{ message: { content: JSON.stringify(translated) } }] })
+    }
+  }
+
+  await translate({ config })
+
+  assert.ok(systemPrompts[0].includes('- 工作台 → Workbench'), '出现的术语应写入 system prompt')
+  assert.ok(systemPrompts[0].includes('- ForgeCloud'))
+  assert.ok(!systemPrompts[0].includes('审批流'), '未出现的术语不写入 prompt')
+
+  const enPath = config.getOutputPath('en_US')
+  assert.equal(JSON.parse(fs.readFileSync(enPath, 'utf-8'))['nav.workbench'], 'Open Workbench')
+
+  // 违反术语表的译文视为不合格
+  fs.rmSync(enPath)
+  replies['nav.workbench'] = 'Open Dashboard'
+  replies['nav.brand'] = 'Welcome to Forge Cloud'
+  const error = await translate({ config }).then(
+    () => assert.fail('违反术语表且无兜底时应抛出错误'),
+    (err) => err
+  )
+  assert.match(error.message, /翻译失败 3\/3 条/)
+
+  // warn 模式只提示，译文照常写入
+  const warnings = []
+  const originalWarn = console.warn
+  console.warn = (message) => warnings.push(String(message))
+  try {
+    await translate({ config: buildConfig({ glossaryCheck: 'warn' }) })
+  } finally {
+    console.warn = originalWarn
+  }
+  assert.equal(JSON.parse(fs.readFileSync(enPath, 'utf-8'))['nav.workbench'], 'Open Dashboard')
+  assert.ok(warnings.some((message) => message.includes('术语未按术语表翻译：工作台 → Workbench [nav.workbench]')))
+  assert.ok(warnings.some((message) => message.includes('品牌名未原样保留：ForgeCloud [nav.brand]')))
+
+  assert.throws(() => buildConfig({ glossaryCheck: 'strict' }), /translation.glossaryCheck 必须是/)
+})
+
+test('translate 优先复用翻译记忆并统计译文来源', async (t) => {
+  const tempDir = createTempDir('forge-translate-memory-')
+  const originalFetch = global.fetch
+  const requestedKeys = []
+
+  t.after(() => {
+    global.fetch = originalFetch
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  global.fetch = async (_url, options) => {
+    const payload = JSON.parse(options.body)
+    const userMessage = payload.messages.find((item) => item.role === 'user').content
+    const requested = JSON.parse(userMessage.match(/\{[\s\S]+\}/m)[0])
+    requestedKeys.push(...Object.keys(requested))
+    const translated = Object.fromEntries(Object.entries(requested).map(([key, value]) => [key, `en:${value}`]))
+
+    return {
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      json: async () => ({ choices: [{ message: { content: JSON.stringify(translated) } }] })
+    }
+  }
+
+  const memoryPath = path.join(tempDir, 'shared', 'memory.json')
+  const setupProject = (name, source, existingEn) => {
+    const projectDir = path.join(tempDir, name)
+    const config = createConfig(
+      {
+        localesDir: 'locales',
+        languages: { source: 'zh_CN', targets: ['zh_CN', 'en_US'] },
+        translation: { batchSize: 10, batchDelay: 0, maxTokensPerRequest: 1000 },
+        translationMemory: { enabled: true, filePath: memoryPath, project: name },
+        aiProvider: buildProvider({ apiUrl: 'https://fake.ai.local' })
+      },
+      { cwd: projectDir }
+    )
+    fs.mkdirSync(path.dirname(config.getOutputPath('zh_CN')), { recursive: true })
+    fs.writeFileSync(config.getOutputPath('zh_CN'), JSON.stringify(source, null, 2), 'utf-8')
+    fs.mkdirSync(path.dirname(config.getOutputPath('en_US')), { recursive: true })
+    fs.writeFileSync(config.getOutputPath('en_US'), JSON.stringify(existingEn, null, 2), 'utf-8')
+    return config
+  }
+
+  const first = setupProject(
+    'app-a',
+    { 'common.save': '保存', 'status.running': '运行 中' },
+    { 'status.running': 'Running' }
+  )
+  const firstResult = await translate({ config: first })
+  assert.deepEqual(requestedKeys, ['common.save'])
+  assert.deepEqual(firstResult.stats.en_US, { memory: 0, ai: 1 })
+  assert.equal(fs.existsSync(memoryPath), false, '未审校的 AI 译文与已有译文不写入记忆')
+
+  // 审校确认后的译文在下次翻译时写入记忆
+  requestedKeys.length = 0
+  applyReviewDecisions([{ locale: 'en_US', key: 'status.running', action: 'accept' }], { config: first })
+  await translate({ config: first })
+  assert.deepEqual(requestedKeys, [])
+
+  const stored = JSON.parse(fs.readFileSync(memoryPath, 'utf-8'))
+  assert.equal(stored.version, 1)
+  const summarize = ([text, entry]) => [text, [entry.translation, entry.project, entry.key, entry.origin, entry.status]]
+  assert.deepEqual(Object.fromEntries(Object.entries(stored.locales.en_US).map(summarize)), {
+    '运行 中': ['Running', 'app-a', 'status.running', 'catalog', 'reviewed']
+  })
+  assert.ok(stored.locales.en_US['运行 中'].createdAt && stored.locales.en_US['运行 中'].updatedAt)
+
+  // 另一个项目中相同原文（含仅空白不同的原文）由记忆填充；machine 状态的译文不复用，仍发送给 AI
+  requestedKeys.length = 0
+  const second = setupProject(
+    'app-b',
+    { 'form.submit.save': '保存', 'task.state.running': '运行  中', 'form.delete': '删除' },
+    {}
+  )
+  const secondResult = await translate({ config: second })
+  assert.deepEqual(requestedKeys, ['form.submit.save', 'form.delete'])
+  assert.deepEqual(secondResult.stats.en_US, { memory: 1, ai: 2 })
+  assert.deepEqual(JSON.parse(fs.readFileSync(second.getOutputPath('en_US'), 'utf-8')), {
+    'form.submit.save': 'en:保存',
+    'task.state.running': 'Running',
+    'form.delete': 'en:删除'
+  })
+  assert.deepEqual(Object.keys(JSON.parse(fs.readFileSync(memoryPath, 'utf-8')).locales.en_US), ['运行 中'])
+
+  // 旧版本写入的未审校条目不会被复用
+  const legacy = JSON.parse(fs.readFileSync(memoryPath, 'utf-8'))
+  legacy.locales.en_US['删除'] = { ...legacy.locales.en_US['运行 中'], translation: 'Remove', origin: 'ai', status: undefined }
+  fs.writeFileSync(memoryPath, JSON.stringify(legacy, null, 2), 'utf-8')
+  requestedKeys.length = 0
+  const third = setupProject('app-c', { 'list.delete': '删除' }, {})
+  await translate({ config: third })
+  assert.deepEqual(requestedKeys, ['list.delete'])
+
+  // force 模式不使用记忆
+  requestedKeys.length = 0
+  await translate({ config: second, force: true })
+  assert.deepEqual(requestedKeys.sort(), ['form.delete', 'form.submit.save', 'task.state.running'])
+})
+
+test('review 修改译文时与 translate 使用相同的标签与复数校验', async (t) => {
+  const tempDir = createTempDir('forge-review-validate-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: { source: 'zh_CN', targets: ['zh_CN', 'en_US'] },
+      translation: { batchSize: 10, batchDelay: 0, maxTokensPerRequest: 1000 },
+      aiProvider: { type: 'mock', apiKey: '' }
+    },
+    { cwd: tempDir }
+  )
+  const zhPath = config.getOutputPath('zh_CN')
+  fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+  fs.writeFileSync(zhPath, JSON.stringify({ 'terms.agree': '请阅读<0>服务条款</0>', 'task.total': '共{count}条' }), 'utf-8')
+  fs.writeFileSync(
+    config.getOutputDetailPath('zh_CN'),
+    JSON.stringify({ 'task.total': { text: '共{count}条', plurals: ['count'] } }),
+    'utf-8'
+  )
+  await translate({ config })
+
+  const edit = (key, translation) =>
+    applyReviewDecisions([{ locale: 'en_US', key, action: 'edit', translation }], { config })
+  assert.throws(() => edit('terms.agree', 'Please read the terms'), /标签缺失：<0>/)
+  assert.throws(() => edit('task.total', '{count} items'), /缺少 ICU plural：count/)
+  assert.throws(() => edit('task.total', '{count, plural, other {# items}}'), /plural 缺少复数类别：count/)
+
+  edit('terms.agree', 'Please read the <0>terms of service</0>')
+  edit('task.total', '{count, plural, one {# item} other {# items}}')
+  const statuses = JSON.parse(fs.readFileSync(config.getOutputMetaPath('en_US'), 'utf-8')).entries
+  assert.equal(statuses['terms.agree'].status, 'reviewed')
+  assert.equal(statuses['task.total'].status, 'reviewed')
+})
+
+test('translate 只重新翻译原文已修改的条目，check 报告过期译文', async (t) => {
+  const tempDir = createTempDir('forge-translate-outdated-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: { source: 'zh_CN', targets: ['zh_CN', 'en_US', 'ja_JP'] },
+      translation: { batchSize: 10, batchDelay: 0, maxTokensPerRequest: 1000 },
+      aiProvider: { type: 'mock', apiKey: '' }
+    },
+    { cwd: tempDir }
+  )
+
+  const zhPath = config.getOutputPath('zh_CN')
+  const enPath = config.getOutputPath('en_US')
+  const writeSource = (data) => {
+    fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+    fs.writeFileSync(zhPath, JSON.stringify(data, null, 2), 'utf-8')
+  }
+  const readEn = () => JSON.parse(fs.readFileSync(enPath, 'utf-8'))
+
+  writeSource({ 'common.saveSuccess': '保存成功', 'common.cancel': '取消', 'common.legacy': '旧文案' })
+  await translate({ config })
+
+  const meta = JSON.parse(fs.readFileSync(config.getOutputMetaPath('en_US'), 'utf-8'))
+  assert.equal(meta.version, 1)
+  assert.deepEqual(Object.keys(meta.entries), ['common.cancel', 'common.legacy', 'common.saveSuccess'])
+  assert.match(meta.entries['common.saveSuccess'].sourceHash, /^[0-9a-f]{40}$/)
+  assert.deepEqual((await check({ config })).outdated, [])
+
+  // 人工修改过的译文在原文不变时保留；原文修改后译文过期，删除的 key 从元数据中移除
+  fs.writeFileSync(enPath, JSON.stringify({ ...readEn(), 'common.cancel': 'Cancel' }, null, 2), 'utf-8')
+  writeSource({ 'common.saveSuccess': '保存成功，正在同步', 'common.cancel': '取消' })
+
+  const report = await check({ config })
+  assert.deepEqual(report.outdated, [
+    { locale: 'en_US', keys: ['common.saveSuccess'] },
+    { locale: 'ja_JP', keys: ['common.saveSuccess'] }
+  ])
+
+  const result = await translate({ config, targetLanguages: ['en_US'] })
+  assert.deepEqual(result.stats.en_US, { memory: 0, ai: 1 })
+  assert.equal(readEn()['common.saveSuccess'], '[en_US] 保存成功，正在同步')
+  assert.equal(readEn()['common.cancel'], 'Cancel')
+  assert.deepEqual(
+    Object.keys(JSON.parse(fs.readFileSync(config.getOutputMetaPath('en_US'), 'utf-8')).entries),
+    ['common.cancel', 'common.saveSuccess']
+  )
+
+  assert.deepEqual((await check({ config })).outdated, [{ locale: 'ja_JP', keys: ['common.saveSuccess'] }])
+})
+
+test('translate 不覆盖已审校与锁定的译文，review 列出并写回审校结果', async (t) => {
+  const tempDir = createTempDir('forge-translate-review-')
+
+  t.after(() => {
+    resetConfig()
+    cleanupTempDir(tempDir)
+  })
+
+  const config = createConfig(
+    {
+      localesDir: 'locales',
+      languages: { source: 'zh_CN', targets: ['zh_CN', 'en_US'] },
+      translation: { batchSize: 10, batchDelay: 0, maxTokensPerRequest: 1000 },
+      aiProvider: { type: 'mock', apiKey: '' }
+    },
+    { cwd: tempDir }
+  )
+
+  const zhPath = config.getOutputPath('zh_CN')
+  const enPath = config.getOutputPath('en_US')
+  const writeSource = (data) => {
+    fs.mkdirSync(path.dirname(zhPath), { recursive: true })
+    fs.writeFileSync(zhPath, JSON.stringify(data, null, 2), 'utf-8')
+  }
+  const readEn = () => JSON.parse(fs.readFileSync(enPath, 'utf-8'))
+  const readStatus = () =>
+    Object.fromEntries(
+      Object.entries(JSON.parse(fs.readFileSync(config.getOutputMetaPath('en_US'), 'utf-8')).entries).map(
+        ([key, entry]) => [key, entry.status]
+      )
+    )
+
+  writeSource({ 'task.total': '共{count}条', 'common.cancel': '取消', 'common.close': '关闭' })
+  await translate({ config })
+  assert.deepEqual(readStatus(), { 'common.cancel': 'machine', 'common.close': 'machine', 'task.total': 'machine' })
+
+  const pending = await findPendingReviews({ config })
+  assert.deepEqual(
+    pending.map((item) => [item.key, item.status, item.outdated]),
+    [
+      ['task.total', 'machine', false],
+      ['common.cancel', 'machine', false],
+      ['common.close', 'machine', false]
+    ]
+  )
+
+  assert.throws(
+    () =>
+      applyReviewDecisions([{ locale: 'en_US', key: 'task.total', action: 'edit', translation: 'Total items' }], {
+        config
+      }),
+    /变量占位符数量不匹配/
+  )
+
+  const result = applyReviewDecisions(
+    [
+      { locale: 'en_US', key: 'task.total', action: 'edit', translation: '{count, plural, one {# item} other {# items}}' },
+      { locale: 'en_US', key: 'common.cancel', action: 'lock' },
+      { locale: 'en_US', key: 'common.close', action: 'reject' }
+    ],
+    { config }
+  )
+  assert.equal(result.applied.length, 3)
+  assert.deepEqual(result.files, [enPath])
+  assert.equal(readEn()['common.close'], '')
+  assert.deepEqual(readStatus(), { 'common.cancel': 'locked', 'task.total': 'reviewed' })
+  assert.deepEqual(await findPendingReviews({ config }), [])
+
+  // force 模式下只重新翻译驳回的条目
+  const forced = await translate({ config, force: true })
+  assert.deepEqual(forced.stats.en_US, { memory: 0, ai: 1 })
+  assert.deepEqual(readEn(), {
+    'task.total': '{count, plural, one {# item} other {# items}}',
+    'common.cancel': '[en_US] 取消',
+    'common.close': '[en_US] 关闭'
+  })
+  assert.equal(readStatus()['common.close'], 'machine')
+
+  // 原文修改后已审校的译文保持不变，但作为过期译文重新进入审校
+  writeSource({ 'task.total': '共{count}条记录', 'common.cancel': '取消', 'common.close': '关闭' })
+  await translate({ config, force: true })
+  assert.equal(readEn()['task.total'], '{count, plural, one {# item} other {# items}}')
+  assert.deepEqual((await check({ config })).outdated, [{ locale: 'en_US', keys: ['task.total'] }])
+
+  const outdated = await findPendingReviews({ config })
+  assert.deepEqual(
+    outdated.map((item) => [item.key, item.status, item.outdated]),
+    [
+      ['task.total', 'reviewed', true],
+      ['common.close', 'machine', false]
+    ]
+  )
+
+  applyReviewDecisions([{ locale: 'en_US', key: 'task.total', action: 'accept' }], { config })
+  assert.deepEqual((await check({ config })).outdated, [])
+})
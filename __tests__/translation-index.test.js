@@ -0,0 +1,117 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { performance } from 'node:perf_hooks'
+
+import {
+  claimTranslationKey,
+  deleteTranslation,
+  findReusableKey,
+  getKeyCollisions,
+  setTranslation
+} from '../dist/core/translation-index.js'
+
+function buildTranslations(size) {
+  const translations = {}
+  for (let index = 0; index < size; index += 1) {
+    setTranslation(translations, `page.text_${index}`, {
+      text: `文案${index}`,
+      context: `src/page${index % 50}.tsx`,
+      interpolations: index % 3 === 0 ? ['name', 'count'] : []
+    })
+  }
+  return translations
+}
+
+test('findReusableKey 按文本与插值变量集合复用最早写入的 key', () => {
+  const translations = {
+    'a.first': { text: '你好，{name}', context: 'a.tsx', interpolations: ['name', 'count'] },
+    'a.plain': '保存'
+  }
+
+  assert.equal(findReusableKey(translations, '你好，{name}', ['count', 'name']), 'a.first')
+  assert.equal(findReusableKey(translations, '你好，{name}', ['name']), undefined)
+  assert.equal(findReusableKey(translations, '保存'), 'a.plain')
+  // 查找不会修改字典中的插值数组
+  assert.deepEqual(translations['a.first'].interpolations, ['name', 'count'])
+
+  setTranslation(translations, 'b.second', { text: '保存', context: 'b.tsx', interpolations: [] })
+  assert.equal(findReusableKey(translations, '保存'), 'a.plain')
+
+  setTranslation(translations, 'a.plain', { text: '取消', context: 'a.tsx', interpolations: [] })
+  assert.equal(findReusableKey(translations, '保存'), 'b.second')
+  assert.equal(findReusableKey(translations, '取消'), 'a.plain')
+
+  deleteTranslation(translations, 'b.second')
+  assert.equal(findReusableKey(translations, '保存'), undefined)
+
+  // 绕过 setTranslation 直接删除的条目不会被返回
+  delete translations['a.plain']
+  assert.equal(findReusableKey(translations, '取消'), undefined)
+})
+
+test('claimTranslationKey 为不同文案的同名 key 追加确定的序号后缀', () => {
+  const translations = {}
+  const detail = (text, context, interpolations = []) => ({ text, context, interpolations })
+
+  assert.equal(claimTranslationKey(translations, 'a.key', detail('保存', 'a.tsx'), { line: 3, column: 5 }), 'a.key')
+  // 文案与插值相同时直接复用
+  assert.equal(claimTranslationKey(translations, 'a.key', detail('保存', 'b.tsx')), 'a.key')
+  assert.equal(claimTranslationKey(translations, 'a.key', detail('取消', 'b.tsx'), { line: 7, column: 1 }), 'a.key_2')
+  assert.equal(claimTranslationKey(translations, 'a.key', detail('保存', 'c.tsx', ['name'])), 'a.key_3')
+  assert.equal(claimTranslationKey(translations, 'a.key', detail('取消', 'c.tsx')), 'a.key_2')
+
+  assert.deepEqual(
+    Object.entries(translations).map(([key, value]) => [key, value.text]),
+    [
+      ['a.key', '保存'],
+      ['a.key_2', '取消'],
+      ['a.key_3', '保存']
+    ]
+  )
+  assert.deepEqual(getKeyCollisions(translations), [
+    {
+      key: 'a.key',
+      texts: ['保存', '取消'],
+      resolvedKey: 'a.key_2',
+      locations: [
+        { file: 'a.tsx', line: 3, column: 5 },
+        { file: 'b.tsx', line: 7, column: 1 }
+      ]
+    },
+    {
+      key: 'a.key',
+      texts: ['保存', '保存'],
+      resolvedKey: 'a.key_3',
+      locations: [
+        { file: 'a.tsx', line: 3, column: 5 },
+        { file: 'c.tsx', line: null, column: null }
+      ]
+    }
+  ])
+})
+
+test('findReusableKey 查找耗时不随字典规模线性增长', () => {
+  const lookups = 2000
+  const measure = (size) => {
+    const translations = buildTranslations(size)
+    findReusableKey(translations, '预热')
+
+    let best = Infinity
+    for (let round = 0; round < 5; round += 1) {
+      const start = performance.now()
+      for (let index = 0; index < lookups; index += 1) {
+        const target = (index * 7919) % size
+        const vars = target % 3 === 0 ? ['count', 'name'] : []
+        assert.equal(findReusableKey(translations, `文案${target}`, vars), `page.text_${target}`)
+      }
+      best = Math.min(best, performance.now() - start)
+    }
+    return best
+  }
+
+  const small = measure(1000)
+  const large = measure(20000)
+
+  // 字典扩大 20 倍，逐条遍历的实现耗时同样会增长约 20 倍；索引查找应基本持平
+  assert.ok(large < small * 5 + 5, `small=${small.toFixed(2)}ms large=${large.toFixed(2)}ms`)
+})
@@ -2,6 +2,8 @@ import test from 'node:test'
 import assert from 'node:assert/strict'
 
 import { deepMerge } from '../dist/utils/deep-merge.js'
+import { createUnifiedDiff, diffTranslationKeys } from '../dist/utils/diff.js'
+import { parseCSV, stringifyCSV } from '../dist/utils/csv.js'
 import {
   identifyTextType,
   extractSemantic,
@@ -83,3 +85,61 @@ test('common-utils 能准确识别文案类型并生成语义化 key', () => {
   const contextFromPascal = extractContextInfo('src/components/Header/index.tsx')
   assert.deepEqual(contextFromPascal, { componentName: 'Header' })
 })
+
+test('createUnifiedDiff 生成带上下文的 unified diff', () => {
+  const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', ''].join('\n')
+  const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', ''].join('\n')
+
+  assert.equal(createUnifiedDiff(before, before), '', '内容相同时不输出 diff')
+
+  const diff = createUnifiedDiff(before, after, { oldLabel: 'a/file', newLabel: 'b/file', context: 1 })
+  assert.equal(
+    diff,
+    [
+      '--- a/file',
+      '+++ b/file',
+      '@@ -1,3 +1,3 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      '@@ -10,1 +10,2 @@',
+      ' j',
+      '+k',
+      ''
+    ].join('\n')
+  )
+
+  assert.deepEqual(diffTranslationKeys({ a: '1', b: '2' }, { a: '1', b: '3', c: '' }), {
+    added: ['c'],
+    removed: [],
+    changed: ['b']
+  })
+})
+
+test('parseCSV 解析引号、转义与字段内换行', () => {
+  const text = '\uFEFFterm,en_US\r\n"工作台","Workbench, ""Pro"""\n多行,"line 1\nline 2"\n\n'
+
+  assert.deepEqual(parseCSV(text), [
+    ['term', 'en_US'],
+    ['工作台', 'Workbench, "Pro"'],
+    ['多行', 'line 1\nline 2']
+  ])
+})
+
+test('stringifyCSV 按需加引号，结果可由 parseCSV 原样读回', () => {
+  const rows = [
+    ['key', 'en_US'],
+    ['common.cancel', 'Cancel "now"'],
+    ['order.tip', 'line 1\nline 2'],
+    ['list.total', 'a, b'],
+    ['common.space', ' padded ']
+  ]
+  const text = stringifyCSV(rows)
+
+  assert.equal(
+    text,
+    'key,en_US\r\ncommon.cancel,"Cancel ""now"""\r\norder.tip,"line 1\nline 2"\r\nlist.total,"a, b"\r\ncommon.space," padded "\r\n'
+  )
+  assert.deepEqual(parseCSV(text), rows)
+})
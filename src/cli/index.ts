@@ -1,10 +1,17 @@
 import process from 'node:process'
+import readline from 'node:readline/promises'
 
 import { Command } from 'commander'
 
 import { loadConfig } from '../config/index.js'
 import { extract } from '../core/extract.js'
+import { check } from '../core/check.js'
 import { translate } from '../core/translate.js'
+import { pseudo } from '../core/pseudo.js'
+import { exportTranslations, importTranslations } from '../core/exchange.js'
+import { findStaleKeys, pruneKeys } from '../core/prune.js'
+import { applyReviewDecisions, findPendingReviews, validateReviewedTranslation } from '../core/review.js'
+import type { ExchangeFormat, ForgeI18nConfig, PendingReview, ReviewDecision, StaleKey } from '../types.js'
 
 function parseLangOption(value: string | undefined): string[] {
   if (!value) return []
@@ -14,6 +21,77 @@ function parseLangOption(value: string | undefined): string[] {
     .filter(Boolean)
 }
 
+/**
+ * 逐个确认待删除的 key：y 删除、n 保留、a 删除剩余全部、q 结束确认
+ */
+async function confirmStaleKeys(staleKeys: StaleKey[]): Promise<string[]> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+  const selected: string[] = []
+
+  try {
+    for (let index = 0; index < staleKeys.length; index += 1) {
+      const { key, files } = staleKeys[index]
+      const answer = (await rl.question(`删除 ${key} (${files.join(', ')})? [y/N/a/q] `)).trim().toLowerCase()
+      if (answer === 'q') break
+      if (answer === 'a') {
+        selected.push(...staleKeys.slice(index).map((item) => item.key))
+        break
+      }
+      if (answer === 'y') {
+        selected.push(key)
+      }
+    }
+  } finally {
+    rl.close()
+  }
+
+  return selected
+}
+
+function describeReview(item: PendingReview): string {
+  const labels = [item.status ?? '无状态']
+  if (item.outdated) labels.push('原文已修改')
+  return `[${item.locale}] ${item.key} (${labels.join(', ')})\n  原文: ${item.source}\n  译文: ${item.translation}`
+}
+
+/**
+ * 逐条审校：a 确认、e 修改后确认、r 驳回（下次 translate 重新翻译）、l 确认并锁定、s 跳过、q 结束审校
+ */
+async function reviewPendingTranslations(pending: PendingReview[], config: ForgeI18nConfig): Promise<ReviewDecision[]> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+  const decisions: ReviewDecision[] = []
+
+  try {
+    for (const [index, item] of pending.entries()) {
+      console.log(`\n(${index + 1}/${pending.length}) ${describeReview(item)}`)
+      const answer = (await rl.question('[a]确认 [e]修改 [r]驳回 [l]锁定 [s]跳过 [q]退出? ')).trim().toLowerCase()
+      const { locale, key } = item
+
+      if (answer === 'q') break
+      if (answer === 'a') decisions.push({ locale, key, action: 'accept' })
+      if (answer === 'r') decisions.push({ locale, key, action: 'reject' })
+      if (answer === 'l') decisions.push({ locale, key, action: 'lock' })
+      if (answer !== 'e') continue
+
+      // 输入不合格时重新输入，直接回车放弃修改
+      for (;;) {
+        const translation = (await rl.question('新译文（回车放弃）: ')).trim()
+        if (!translation) break
+        const issue = validateReviewedTranslation(item, translation, { config })
+        if (!issue) {
+          decisions.push({ locale, key, action: 'edit', translation })
+          break
+        }
+        console.warn(`⚠ ${issue}`)
+      }
+    }
+  } finally {
+    rl.close()
+  }
+
+  return decisions
+}
+
 export async function runCLI(): Promise<void> {
   const program = new Command()
     .name('forge-i18n')
@@ -24,31 +102,199 @@ export async function runCLI(): Promise<void> {
     .command('extract')
     .description('扫描代码并提取中文文本，生成多语言文件')
     .option('-c, --config <file>', '指定配置文件路径，默认查找 forge-i18n.config.*')
-    .action(async (options: { config?: string }) => {
+    .option('--dry-run', '仅计算并输出改动差异，不写入任何文件', false)
+    .option('--no-cache', '忽略增量缓存，全量扫描所有文件')
+    .option('--concurrency <number>', '并行转换文件的线程数，默认为 CPU 核数', (value) => Number.parseInt(value, 10))
+    .action(async (options: { config?: string; dryRun?: boolean; cache?: boolean; concurrency?: number }) => {
       const config = await loadConfig({
         cwd: process.cwd(),
         configPath: options.config,
         command: 'extract',
         mode: process.env.NODE_ENV ?? 'production'
       })
-      const result = await extract({ config })
+      const result = await extract({
+        config,
+        dryRun: options.dryRun,
+        cache: options.cache,
+        concurrency: options.concurrency
+      })
+
+      if (result.dryRun) {
+        for (const item of result.diffs ?? []) {
+          console.log(item.diff)
+        }
+        for (const item of result.localeDiffs ?? []) {
+          console.log(`${item.file} (${item.locale})`)
+          item.added.forEach((key) => console.log(`  + ${key}`))
+          item.removed.forEach((key) => console.log(`  - ${key}`))
+          item.changed.forEach((key) => console.log(`  ~ ${key}`))
+        }
+      }
 
       console.log('\n'.padStart(1))
       console.log('提取统计')
       console.log('='.repeat(40))
       console.log(`文件总数: ${result.filesProcessed}`)
       console.log(`改动文件: ${result.changedFiles.length}`)
+      if (result.cache?.enabled) {
+        console.log(`缓存命中: ${result.cache.hits}`)
+      }
       console.log(`冲突数量: ${result.collisions.length}`)
       console.log(`错误数量: ${result.errors.length}`)
       console.log('='.repeat(40))
     })
 
+  program
+    .command('check')
+    .description('只读检查源码中未提取的中文文本与过期译文，存在时以非零状态码退出（适用于 CI）')
+    .option('-c, --config <file>', '指定配置文件路径')
+    .action(async (options: { config?: string }) => {
+      const config = await loadConfig({
+        cwd: process.cwd(),
+        configPath: options.config,
+        command: 'check',
+        mode: process.env.NODE_ENV ?? 'production'
+      })
+      const result = await check({ config })
+
+      for (const hit of result.hits) {
+        console.log(`${hit.file}:${hit.line}:${hit.column}  ${hit.text}`)
+      }
+      for (const item of result.errors) {
+        console.error(`✗ 解析文件失败: ${item.file} (${item.error.message})`)
+      }
+      for (const item of result.outdated) {
+        console.log(`\n过期译文 (${item.locale})`)
+        item.keys.forEach((key) => console.log(`  ${key}`))
+      }
+
+      const outdatedCount = result.outdated.reduce((sum, item) => sum + item.keys.length, 0)
+
+      console.log('\n检查统计')
+      console.log('='.repeat(40))
+      console.log(`文件总数: ${result.filesScanned}`)
+      console.log(`未提取文本: ${result.hits.length}`)
+      console.log(`过期译文: ${outdatedCount}`)
+      console.log(`错误数量: ${result.errors.length}`)
+      console.log('='.repeat(40))
+
+      if (result.hits.length > 0 || outdatedCount > 0 || result.errors.length > 0) {
+        process.exitCode = 1
+      }
+    })
+
+  program
+    .command('prune')
+    .description('找出语言文件中已不再被源码引用的 key 并删除')
+    .option('-c, --config <file>', '指定配置文件路径')
+    .option('-y, --yes', '不逐个确认，直接删除全部过期 key', false)
+    .option('--force', '存在无法静态分析的动态 key 调用时仍然删除', false)
+    .option('--dry-run', '仅列出过期 key，不写入任何文件', false)
+    .action(async (options: { config?: string; yes?: boolean; force?: boolean; dryRun?: boolean }) => {
+      const config = await loadConfig({
+        cwd: process.cwd(),
+        configPath: options.config,
+        command: 'prune',
+        mode: process.env.NODE_ENV ?? 'production'
+      })
+      const report = await findStaleKeys({ config })
+
+      for (const item of report.dynamicReferences) {
+        const note = item.prefix ? `保留以 ${item.prefix} 开头的 key` : '无法确定引用的 key'
+        console.warn(`⚠ 动态 key: ${item.file}:${item.line}:${item.column}  ${item.expression}  ${note}`)
+      }
+      for (const item of report.errors) {
+        console.error(`✗ 解析文件失败: ${item.file} (${item.error.message})`)
+      }
+      for (const item of report.staleKeys) {
+        console.log(`${item.key}  ${item.files.join(', ')}`)
+      }
+
+      console.log('\n过期 key 统计')
+      console.log('='.repeat(40))
+      console.log(`文件总数: ${report.filesScanned}`)
+      console.log(`引用 key: ${report.referencedKeys}`)
+      console.log(`过期 key: ${report.staleKeys.length}`)
+      console.log(`动态调用: ${report.dynamicReferences.length}`)
+      console.log('='.repeat(40))
+
+      if (report.staleKeys.length === 0 || options.dryRun) return
+
+      if (!report.safe && !options.force) {
+        console.error('存在无法静态分析的动态 key 调用或解析失败的文件，删除可能误删仍在使用的 key；确认无误后使用 --force 执行。')
+        process.exitCode = 1
+        return
+      }
+
+      let keys = report.staleKeys.map((item) => item.key)
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          console.error('非交互终端中请使用 --yes 确认删除。')
+          process.exitCode = 1
+          return
+        }
+        keys = await confirmStaleKeys(report.staleKeys)
+      }
+
+      const result = pruneKeys(keys, { config })
+      result.files.forEach((file) => console.log(`✓ ${file}`))
+      console.log(`已删除 ${result.removed.length} 个 key`)
+    })
+
+  program
+    .command('review')
+    .description('逐条审校机器翻译与原文已修改的译文，确认后的译文不会被 translate 覆盖')
+    .option('-c, --config <file>', '指定配置文件路径')
+    .option('-l, --lang <codes>', '逗号分隔的目标语言列表，如 en_US,ja_JP')
+    .option('--list', '仅列出待审校的译文，不进入交互审校', false)
+    .action(async (options: { config?: string; lang?: string; list?: boolean }) => {
+      const config = await loadConfig({
+        cwd: process.cwd(),
+        configPath: options.config,
+        command: 'review',
+        mode: process.env.NODE_ENV ?? 'production'
+      })
+      const pending = await findPendingReviews({ config, locales: parseLangOption(options.lang) })
+
+      if (pending.length === 0) {
+        console.log('没有待审校的译文')
+        return
+      }
+
+      if (options.list) {
+        pending.forEach((item) => console.log(describeReview(item)))
+        console.log(`\n待审校译文: ${pending.length} 条`)
+        return
+      }
+
+      if (!process.stdin.isTTY) {
+        console.error('非交互终端中请使用 --list 列出待审校的译文。')
+        process.exitCode = 1
+        return
+      }
+
+      const decisions = await reviewPendingTranslations(pending, config)
+      const result = applyReviewDecisions(decisions, { config })
+      result.files.forEach((file) => console.log(`✓ ${file}`))
+
+      const count = (action: ReviewDecision['action']) =>
+        result.applied.filter((item) => item.action === action).length
+      console.log('\n审校统计')
+      console.log('='.repeat(40))
+      console.log(`确认: ${count('accept')}`)
+      console.log(`修改: ${count('edit')}`)
+      console.log(`驳回: ${count('reject')}`)
+      console.log(`锁定: ${count('lock')}`)
+      console.log(`未处理: ${pending.length - result.applied.length}`)
+      console.log('='.repeat(40))
+    })
+
   program
     .command('translate')
     .description('调用 DeepSeek API 对目标语言进行自动翻译')
     .option('-c, --config <file>', '指定配置文件路径')
     .option('-l, --lang <codes>', '逗号分隔的目标语言列表，如 en_US,ja_JP')
-    .option('-f, --force', '强制重新翻译所有条目', false)
+    .option('-f, --force', '强制重新翻译所有条目（已审校与锁定的译文除外）', false)
     .action(async (options: { config?: string; lang?: string; force?: boolean }) => {
       const config = await loadConfig({
         cwd: process.cwd(),
@@ -67,9 +313,122 @@ export async function runCLI(): Promise<void> {
       console.log('='.repeat(40))
       console.log(`执行模式: ${result.force ? '强制翻译' : '增量翻译'}`)
       console.log(`目标语言: ${result.targetLangs.join(', ')}`)
+      for (const lang of result.targetLangs) {
+        const { memory, ai } = result.stats[lang] ?? { memory: 0, ai: 0 }
+        console.log(`  ${lang}: 翻译记忆 ${memory} 条，AI 翻译 ${ai} 条`)
+      }
       console.log(`耗时: ${result.duration}s`)
       console.log('='.repeat(40))
     })
 
+  program
+    .command('pseudo')
+    .description('由源语言文件生成伪本地化语言文件，用于在翻译前检查截断与未提取的文本')
+    .option('-c, --config <file>', '指定配置文件路径')
+    .option('--from <locale>', '读取的语言文件，默认为源语言')
+    .option('-l, --locale <code>', '生成的语言代码，默认为 pseudo.locale（en_XA）')
+    .action(async (options: { config?: string; from?: string; locale?: string }) => {
+      const config = await loadConfig({
+        cwd: process.cwd(),
+        configPath: options.config,
+        command: 'pseudo',
+        mode: process.env.NODE_ENV ?? 'production'
+      })
+      const result = await pseudo({ config, from: options.from, locale: options.locale })
+
+      console.log(`✓ ${result.file}`)
+      console.log(`已生成 ${result.entries} 条伪本地化文案 (${result.locale})`)
+    })
+
+  program
+    .command('export')
+    .description('导出各目标语言的译文，交给翻译供应商在 CAT 工具中处理')
+    .option('-c, --config <file>', '指定配置文件路径')
+    .option('--format <format>', '导出格式：xliff、po 或 csv', 'xliff')
+    .option('--xliff-version <version>', 'XLIFF 版本：2.0 或 1.2', '2.0')
+    .option('-l, --lang <codes>', '逗号分隔的目标语言列表，如 en_US,ja_JP')
+    .option('-o, --out-dir <dir>', '输出目录，相对项目根目录', 'i18n-exchange')
+    .action(
+      async (options: { config?: string; format: string; xliffVersion: string; lang?: string; outDir: string }) => {
+        if (options.xliffVersion !== '2.0' && options.xliffVersion !== '1.2') {
+          console.error(`不支持的 XLIFF 版本: ${options.xliffVersion}，可选 2.0 或 1.2`)
+          process.exitCode = 1
+          return
+        }
+        const config = await loadConfig({
+          cwd: process.cwd(),
+          configPath: options.config,
+          command: 'export',
+          mode: process.env.NODE_ENV ?? 'production'
+        })
+        const result = await exportTranslations({
+          config,
+          format: options.format as ExchangeFormat,
+          xliffVersion: options.xliffVersion,
+          locales: parseLangOption(options.lang),
+          outDir: options.outDir
+        })
+
+        result.files.forEach((file) => console.log(`✓ ${file}`))
+        console.log(`已导出 ${result.files.length} 个文件 (${result.format})`)
+      }
+    )
+
+  program
+    .command('import')
+    .description('把翻译供应商返回的译文写回语言文件，占位符不一致或原文已修改的条目不会导入')
+    .argument('<files...>', '导入的文件，如 i18n-exchange/en_US.xlf、i18n-exchange/en_US.po、i18n-exchange/translation.csv')
+    .option('-c, --config <file>', '指定配置文件路径')
+    .option('--format <format>', '导入格式，默认按扩展名判断')
+    .option('--locale <code>', '写入的目标语言，默认读取文件中声明的语言（CSV 不支持）')
+    .option('--dry-run', '仅校验并报告，不写入语言文件', false)
+    .action(
+      async (files: string[], options: { config?: string; format?: string; locale?: string; dryRun?: boolean }) => {
+        const config = await loadConfig({
+          cwd: process.cwd(),
+          configPath: options.config,
+          command: 'import',
+          mode: process.env.NODE_ENV ?? 'production'
+        })
+
+        let updated = 0
+        let skipped = 0
+        let conflicts = 0
+        for (const file of files) {
+          const result = await importTranslations({
+            config,
+            file,
+            format: options.format as ExchangeFormat | undefined,
+            locale: options.locale,
+            dryRun: options.dryRun
+          })
+          if (result.ignoredColumns.length > 0) {
+            console.warn(`⚠ ${result.file}: 忽略无法对应目标语言的列 ${result.ignoredColumns.join('、')}`)
+          }
+          for (const item of result.skipped) {
+            console.warn(`⚠ 跳过 ${item.key} (${item.locale}): ${item.reason}`)
+          }
+          for (const item of result.conflicts) {
+            console.warn(`✗ 冲突 ${item.key} (${item.locale})\n  文件: ${item.incoming}\n  仓库: ${item.current}`)
+          }
+          console.log(`${result.dryRun ? '○' : '✓'} ${result.file}: 导入 ${result.updated.length} 条`)
+          updated += result.updated.length
+          skipped += result.skipped.length
+          conflicts += result.conflicts.length
+        }
+
+        console.log('\n导入统计')
+        console.log('='.repeat(40))
+        console.log(`导入译文: ${updated}`)
+        console.log(`跳过条目: ${skipped}`)
+        console.log(`冲突条目: ${conflicts}`)
+        console.log('='.repeat(40))
+
+        if (skipped > 0 || conflicts > 0) {
+          process.exitCode = 1
+        }
+      }
+    )
+
   await program.parseAsync(process.argv)
 }
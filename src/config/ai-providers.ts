@@ -0,0 +1,93 @@
+import process from 'node:process'
+
+import { deepMerge } from '../utils/deep-merge.js'
+import type { AIProviderConfig, AIProviderType, DeepPartial } from '../types.js'
+
+interface AIProviderDefaults {
+  apiUrl: string
+  model: string
+  /** 未配置 apiKey 时读取的环境变量 */
+  apiKeyEnv: string | null
+  /** 本地服务（ollama、mock）无需鉴权 */
+  requiresApiKey: boolean
+  apiVersion?: string
+}
+
+export const AI_PROVIDER_DEFAULTS: Record<AIProviderType, AIProviderDefaults> = {
+  openai: {
+    apiUrl: 'https://api.openai.com/v1/chat/completions',
+    model: 'gpt-4o-mini',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    requiresApiKey: true
+  },
+  anthropic: {
+    apiUrl: 'https://api.anthropic.com/v1/messages',
+    model: 'claude-3-5-haiku-latest',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    requiresApiKey: true
+  },
+  // 资源地址与部署名称因项目而异，需在配置中提供
+  azure: {
+    apiUrl: '',
+    model: '',
+    apiKeyEnv: 'AZURE_OPENAI_API_KEY',
+    requiresApiKey: true,
+    apiVersion: '2024-10-21'
+  },
+  gemini: {
+    apiUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    model: 'gemini-2.0-flash',
+    apiKeyEnv: 'GEMINI_API_KEY',
+    requiresApiKey: true
+  },
+  ollama: {
+    apiUrl: 'http://localhost:11434/api/chat',
+    model: 'llama3.1',
+    apiKeyEnv: null,
+    requiresApiKey: false
+  },
+  // 离线生成结果，不发送请求，供测试与 CI 使用
+  mock: {
+    apiUrl: '',
+    model: 'mock',
+    apiKeyEnv: null,
+    requiresApiKey: false
+  }
+}
+
+export const DEFAULT_AI_PROVIDER_TYPE: AIProviderType = 'openai'
+
+/**
+ * 接口类型是否需要 apiKey
+ */
+export function requiresApiKey(provider: Pick<AIProviderConfig, 'type'>): boolean {
+  return AI_PROVIDER_DEFAULTS[provider.type]?.requiresApiKey !== false
+}
+
+/**
+ * 以接口类型的默认地址与模型为基础合并用户配置；未知类型原样保留，交由 validateConfig 报错
+ */
+export function resolveAIProviderConfig(overrides: DeepPartial<AIProviderConfig> = {}): AIProviderConfig {
+  const type = (overrides.type ?? DEFAULT_AI_PROVIDER_TYPE) as AIProviderType
+  const defaults = AI_PROVIDER_DEFAULTS[type] ?? AI_PROVIDER_DEFAULTS[DEFAULT_AI_PROVIDER_TYPE]
+  const envApiKey = defaults.apiKeyEnv ? process.env[defaults.apiKeyEnv] : undefined
+
+  const base: AIProviderConfig = {
+    type,
+    apiKey: process.env.AI_PROVIDER_API_KEY || envApiKey || '',
+    apiUrl: process.env.AI_PROVIDER_API_URL || defaults.apiUrl,
+    model: process.env.AI_PROVIDER_MODEL || defaults.model,
+    temperature: 0.3,
+    maxTokens: 2000,
+    requestsPerMinute: 20,
+    maxRetries: 3,
+    ...(defaults.apiVersion ? { apiVersion: defaults.apiVersion } : {})
+  }
+
+  const provider = deepMerge(
+    base as unknown as Record<string, unknown>,
+    overrides as Record<string, unknown>
+  ) as unknown as AIProviderConfig
+  provider.type = type
+  return provider
+}
@@ -1,4 +1,6 @@
 import { DEFAULT_LOCALE_KEY, LOCALE_DEFINITIONS, LOCALE_LABELS, toLocale } from './locales.js'
+import { DEFAULT_RUNTIME_PRESET, RUNTIME_PRESETS } from './runtime-presets.js'
+import { resolveAIProviderConfig } from './ai-providers.js'
 import type { ForgeConfigDefaults, LocaleLabelsMap } from '../types.js'
 
 const LANGUAGE_MAP = LOCALE_DEFINITIONS.reduce((acc, def) => {
@@ -11,15 +13,7 @@ const LANGUAGE_MAP = LOCALE_DEFINITIONS.reduce((acc, def) => {
 
 export const DEFAULT_CONFIG: ForgeConfigDefaults = {
   projectRoot: undefined,
-  aiProvider: {
-    apiKey: process.env.AI_PROVIDER_API_KEY || process.env.OPENAI_API_KEY || '',
-    apiUrl: process.env.AI_PROVIDER_API_URL || 'https://api.openai.com/v1/chat/completions',
-    model: process.env.AI_PROVIDER_MODEL || 'gpt-4o-mini',
-    temperature: 0.3,
-    maxTokens: 2000,
-    requestsPerMinute: 20,
-    maxRetries: 3
-  },
+  aiProvider: resolveAIProviderConfig(),
   languages: {
     source: DEFAULT_LOCALE_KEY,
     targets: LOCALE_DEFINITIONS.map((def) => def.localeKey),
@@ -56,6 +50,23 @@ export const DEFAULT_CONFIG: ForgeConfigDefaults = {
     '**/dist/**'
   ],
   skipFunctionCalls: ['console', 'require', 'import'],
+  sourceTextDetection: {
+    scripts: ['Han']
+  },
+  extractCache: {
+    enabled: true,
+    filePath: '.forge-cache/extract-cache.json'
+  },
+  translationMemory: {
+    enabled: false,
+    filePath: '.forge-cache/translation-memory.json'
+  },
+  runtime: RUNTIME_PRESETS[DEFAULT_RUNTIME_PRESET],
+  pseudo: {
+    locale: 'en_XA',
+    expansion: 0.3,
+    brackets: ['[', ']']
+  },
   localesDir: 'locales',
   namespace: 'translation',
   normalizeLocaleCode(code) {
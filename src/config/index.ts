@@ -8,6 +8,8 @@ import { load as parseYaml } from 'js-yaml'
 
 import { DEFAULT_CONFIG, DEFAULT_LANGUAGE_LABELS } from './defaults.js'
 import { validateConfig } from './validation.js'
+import { resolveRuntimeConfig } from './runtime-presets.js'
+import { resolveAIProviderConfig } from './ai-providers.js'
 import { deepMerge } from '../utils/deep-merge.js'
 import type {
   ForgeConfigDefaults,
@@ -57,6 +59,11 @@ export function createConfig(overrides: ForgeUserConfig = {}, options: CreateCon
   const paths: ForgePathsConfig = {
     localesDir: path.resolve(cwd, merged.localesDir),
     aiCache: aiCachePath ? path.resolve(cwd, aiCachePath) : null,
+    extractCache: path.resolve(cwd, merged.extractCache?.filePath ?? '.forge-cache/extract-cache.json'),
+    translationMemory: path.resolve(
+      cwd,
+      merged.translationMemory?.filePath ?? '.forge-cache/translation-memory.json'
+    ),
     topLevelWarnings: path.resolve(
       cwd,
       merged.reporting?.topLevelWarningsPath ?? 'docs/i18n-top-level-warnings.md'
@@ -91,10 +98,24 @@ export function createConfig(overrides: ForgeUserConfig = {}, options: CreateCon
       opts.absolute !== false
     )
 
+  const getOutputMetaPath = (locale: string, opts: { absolute?: boolean } = {}) =>
+    resolveLocalePath(
+      paths,
+      cwd,
+      normalizeLocaleCode,
+      locale,
+      `${merged.namespace}.meta.json`,
+      opts.absolute !== false
+    )
+
   const postCommands = Array.isArray(merged.postCommands) ? [...merged.postCommands] : []
 
   const config: ForgeI18nConfig = {
     ...merged,
+    // 预设决定其余字段的默认值，不能与 DEFAULT_CONFIG 中的默认预设逐字段合并
+    runtime: resolveRuntimeConfig(overrides?.runtime),
+    // 默认地址、模型与鉴权环境变量取决于接口类型
+    aiProvider: resolveAIProviderConfig(overrides?.aiProvider),
     languages,
     projectRoot: cwd,
     postCommands,
@@ -102,7 +123,8 @@ export function createConfig(overrides: ForgeUserConfig = {}, options: CreateCon
     normalizeLocaleCode,
     getOutputPath,
     getOutputDetailPath,
-    getOutputReportPath
+    getOutputReportPath,
+    getOutputMetaPath
   }
 
   const fallbackCachePath = path.resolve(cwd, '.forge-cache/i18n-ai-cache.json')
@@ -0,0 +1,64 @@
+import { deepMerge } from '../utils/deep-merge.js'
+import type { DeepPartial, RuntimeConfig, RuntimePreset } from '../types.js'
+
+const REACT_INTL_UNIVERSAL: RuntimeConfig = {
+  preset: 'react-intl-universal',
+  callee: 'intl.get',
+  keyArgument: 'string',
+  import: { source: 'react-intl-universal', imported: 'default' },
+  hook: null,
+  jsx: null,
+  richText: { mode: 'html', callee: 'intl.getHTML' },
+  recognize: ['intl.get', 'intl.getHTML']
+}
+
+export const RUNTIME_PRESETS: Record<RuntimePreset, RuntimeConfig> = {
+  'react-intl-universal': REACT_INTL_UNIVERSAL,
+  'react-i18next': {
+    preset: 'react-i18next',
+    callee: 'i18n.t',
+    keyArgument: 'string',
+    import: { source: 'i18next', imported: 'default' },
+    hook: { name: 'useTranslation', source: 'react-i18next', callee: 't', destructure: true },
+    jsx: null,
+    richText: {
+      mode: 'component',
+      component: 'Trans',
+      source: 'react-i18next',
+      idProp: 'i18nKey',
+      valuesProp: 'values',
+      componentsProp: 'components'
+    },
+    recognize: ['t', 'i18n.t', 'i18next.t']
+  },
+  'react-intl': {
+    preset: 'react-intl',
+    callee: 'intl.formatMessage',
+    keyArgument: 'descriptor',
+    // 组件外没有通用的 intl 实例，可通过 runtime.import 指向项目中 createIntl 创建的实例
+    import: null,
+    hook: { name: 'useIntl', source: 'react-intl', callee: 'intl.formatMessage', destructure: false },
+    jsx: { component: 'FormattedMessage', source: 'react-intl', idProp: 'id', valuesProp: 'values' },
+    // 标签名必须以字母开头，不支持编号占位，可通过 runtime.richText 指向项目中的插值组件
+    richText: null,
+    recognize: ['intl.formatMessage', 'formatMessage']
+  },
+  // 自定义封装：以 react-intl-universal 的调用形式为基础，按需覆盖 callee / import / hook
+  custom: { ...REACT_INTL_UNIVERSAL, preset: 'custom', richText: null, recognize: [] }
+}
+
+export const DEFAULT_RUNTIME_PRESET: RuntimePreset = 'react-intl-universal'
+
+/**
+ * 以预设为基础合并用户配置；未知预设原样保留，交由 validateConfig 报错
+ */
+export function resolveRuntimeConfig(overrides: DeepPartial<RuntimeConfig> = {}): RuntimeConfig {
+  const preset = (overrides.preset ?? DEFAULT_RUNTIME_PRESET) as RuntimePreset
+  const base = RUNTIME_PRESETS[preset] ?? RUNTIME_PRESETS[DEFAULT_RUNTIME_PRESET]
+  const runtime = deepMerge(
+    base as unknown as Record<string, unknown>,
+    overrides as Record<string, unknown>
+  ) as unknown as RuntimeConfig
+  runtime.preset = preset
+  return runtime
+}
@@ -1,5 +1,14 @@
 import path from 'node:path'
-import type { ForgeI18nConfig } from '../types.js'
+import { RUNTIME_PRESETS } from './runtime-presets.js'
+import { AI_PROVIDER_DEFAULTS, requiresApiKey } from './ai-providers.js'
+import type {
+  AIProviderConfig,
+  ForgeI18nConfig,
+  PseudoLocalizationConfig,
+  RuntimeConfig,
+  SourceTextDetectionConfig,
+  TranslationBatchConfig
+} from '../types.js'
 
 const VALID_STRATEGIES = ['semantic', 'hash', 'ai']
 const UNDERSCORE_PATTERN = /^[a-z]{2}_[A-Z]{2}$/
@@ -45,11 +54,24 @@ export function validateConfig(config: ForgeI18nConfig): true {
     if (keyGeneration.ai.batchSize < 1 || keyGeneration.ai.batchSize > 50) {
       throw new Error('配置错误: ai.batchSize 必须在 1-50 之间')
     }
-    if (!aiProvider?.apiKey) {
+    if (requiresApiKey(aiProvider) && !aiProvider?.apiKey) {
       throw new Error('配置错误: 启用 AI 策略时必须提供 aiProvider.apiKey')
     }
   }
 
+  validateAIProvider(aiProvider)
+  validateSourceTextDetection(config.sourceTextDetection)
+  validateRuntime(config.runtime)
+  validatePseudo(config.pseudo)
+  validateGlossary(config.translation)
+
+  if (
+    config.concurrency !== undefined &&
+    (!Number.isInteger(config.concurrency) || config.concurrency < 1)
+  ) {
+    throw new Error('配置错误: concurrency 必须是大于等于 1 的整数')
+  }
+
   if (!Array.isArray(input) || input.length === 0) {
     throw new Error('配置错误: input 必须是非空数组')
   }
@@ -69,3 +91,224 @@ export function validateConfig(config: ForgeI18nConfig): true {
 
   return true
 }
+
+function validateSourceTextDetection(detection: SourceTextDetectionConfig | undefined): void {
+  if (detection === undefined) return
+
+  if (!detection || typeof detection !== 'object') {
+    throw new Error('配置错误: sourceTextDetection 必须是对象')
+  }
+
+  const { scripts, pattern, test } = detection
+
+  if (test !== undefined && typeof test !== 'function') {
+    throw new Error('配置错误: sourceTextDetection.test 必须是函数')
+  }
+
+  if (pattern !== undefined) {
+    if (typeof pattern !== 'string' && !(pattern instanceof RegExp)) {
+      throw new Error('配置错误: sourceTextDetection.pattern 必须是字符串或正则表达式')
+    }
+    if (typeof pattern === 'string') {
+      try {
+        new RegExp(pattern, 'u')
+      } catch (error) {
+        throw new Error(`配置错误: sourceTextDetection.pattern 不是合法的正则: ${pattern}`)
+      }
+    }
+  }
+
+  if (scripts !== undefined) {
+    if (!Array.isArray(scripts) || scripts.length === 0) {
+      throw new Error('配置错误: sourceTextDetection.scripts 必须是非空数组')
+    }
+    const invalidScripts = scripts.filter((script) => {
+      if (typeof script !== 'string' || !/^[A-Za-z_]+$/.test(script)) return true
+      try {
+        new RegExp(`\\p{Script=${script}}`, 'u')
+        return false
+      } catch (error) {
+        return true
+      }
+    })
+    if (invalidScripts.length > 0) {
+      throw new Error(
+        `配置错误: sourceTextDetection.scripts 包含未知的 Unicode 书写系统: ${invalidScripts.join(', ')}`
+      )
+    }
+  }
+}
+
+function validateAIProvider(aiProvider: AIProviderConfig | undefined): void {
+  if (!aiProvider || typeof aiProvider !== 'object') {
+    throw new Error('配置错误: aiProvider 必须是对象')
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(AI_PROVIDER_DEFAULTS, aiProvider.type)) {
+    throw new Error(`配置错误: aiProvider.type 必须是 ${Object.keys(AI_PROVIDER_DEFAULTS).join('/')} 之一`)
+  }
+
+  if (aiProvider.type === 'azure' && (!aiProvider.apiUrl || !aiProvider.model || !aiProvider.apiVersion)) {
+    throw new Error('配置错误: aiProvider.type 为 azure 时需要提供 apiUrl（资源地址）、model（部署名称）与 apiVersion')
+  }
+
+  if (aiProvider.mock !== undefined) {
+    validateMockProvider(aiProvider.mock)
+  }
+}
+
+const VALID_MOCK_MODES = ['prefix', 'echo']
+
+function validateMockProvider(mock: AIProviderConfig['mock']): void {
+  if (!mock || typeof mock !== 'object') {
+    throw new Error('配置错误: aiProvider.mock 必须是对象')
+  }
+
+  if (mock.mode !== undefined && !VALID_MOCK_MODES.includes(mock.mode)) {
+    throw new Error(`配置错误: aiProvider.mock.mode 必须是 ${VALID_MOCK_MODES.join('/')} 之一`)
+  }
+
+  if (mock.prefix !== undefined && typeof mock.prefix !== 'string') {
+    throw new Error('配置错误: aiProvider.mock.prefix 必须是字符串')
+  }
+
+  if (
+    mock.failKeys !== undefined &&
+    (!Array.isArray(mock.failKeys) || mock.failKeys.some((key) => typeof key !== 'string'))
+  ) {
+    throw new Error('配置错误: aiProvider.mock.failKeys 必须是字符串数组')
+  }
+}
+
+const VALID_GLOSSARY_CHECKS = ['error', 'warn']
+
+function isStringRecord(value: unknown): boolean {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === 'string')
+  )
+}
+
+function validateGlossary(translation: TranslationBatchConfig | undefined): void {
+  if (!translation) return
+
+  const { glossary, doNotTranslate, glossaryCheck } = translation
+
+  if (glossary !== undefined && typeof glossary !== 'string') {
+    if (!glossary || typeof glossary !== 'object' || Array.isArray(glossary)) {
+      throw new Error('配置错误: translation.glossary 必须是术语表对象或文件路径')
+    }
+    const invalid = Object.keys(glossary).find((term) => !term.trim() || !isStringRecord(glossary[term]))
+    if (invalid !== undefined) {
+      throw new Error(`配置错误: translation.glossary 中的术语「${invalid}」必须对应 { 语言代码: 译法 } 对象`)
+    }
+  }
+
+  if (
+    doNotTranslate !== undefined &&
+    (!Array.isArray(doNotTranslate) || doNotTranslate.some((term) => typeof term !== 'string' || !term.trim()))
+  ) {
+    throw new Error('配置错误: translation.doNotTranslate 必须是非空字符串数组')
+  }
+
+  if (glossaryCheck !== undefined && !VALID_GLOSSARY_CHECKS.includes(glossaryCheck)) {
+    throw new Error(`配置错误: translation.glossaryCheck 必须是 ${VALID_GLOSSARY_CHECKS.join('/')} 之一`)
+  }
+}
+
+function validatePseudo(pseudo: PseudoLocalizationConfig | undefined): void {
+  if (!pseudo || typeof pseudo !== 'object') {
+    throw new Error('配置错误: pseudo 必须是对象')
+  }
+
+  if (typeof pseudo.locale !== 'string' || pseudo.locale.trim().length === 0) {
+    throw new Error('配置错误: pseudo.locale 必须是非空字符串')
+  }
+
+  if (typeof pseudo.expansion !== 'number' || !Number.isFinite(pseudo.expansion) || pseudo.expansion < 0) {
+    throw new Error('配置错误: pseudo.expansion 必须是大于等于 0 的数字')
+  }
+
+  const { brackets } = pseudo
+  // 花括号与尖括号会被当作 ICU 参数或标签解析
+  if (
+    !Array.isArray(brackets) ||
+    brackets.length !== 2 ||
+    brackets.some((item) => typeof item !== 'string' || /[{}<>]/.test(item))
+  ) {
+    throw new Error('配置错误: pseudo.brackets 必须是两个不含 {}<> 的字符串')
+  }
+}
+
+// 形如 intl.get、i18n.t、$t 的标识符链
+const CALLEE_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/
+
+function validateRuntime(runtime: RuntimeConfig | undefined): void {
+  if (!runtime || typeof runtime !== 'object') {
+    throw new Error('配置错误: runtime 必须是对象')
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(RUNTIME_PRESETS, runtime.preset)) {
+    throw new Error(`配置错误: runtime.preset 必须是 ${Object.keys(RUNTIME_PRESETS).join('/')} 之一`)
+  }
+
+  if (typeof runtime.callee !== 'string' || !CALLEE_PATTERN.test(runtime.callee)) {
+    throw new Error(`配置错误: runtime.callee 必须是函数名或成员访问链，如 intl.get / $t: ${runtime.callee}`)
+  }
+
+  if (runtime.keyArgument !== 'string' && runtime.keyArgument !== 'descriptor') {
+    throw new Error('配置错误: runtime.keyArgument 必须是 string/descriptor 之一')
+  }
+
+  if (runtime.import !== null) {
+    if (!runtime.import?.source || !runtime.import.imported) {
+      throw new Error('配置错误: runtime.import 需要提供 source 与 imported')
+    }
+  }
+
+  if (runtime.hook !== null) {
+    const { hook } = runtime
+    if (!hook?.name || !hook.source || !CALLEE_PATTERN.test(hook.name)) {
+      throw new Error('配置错误: runtime.hook 需要提供 name 与 source')
+    }
+    if (typeof hook.callee !== 'string' || !CALLEE_PATTERN.test(hook.callee)) {
+      throw new Error(`配置错误: runtime.hook.callee 必须是函数名或成员访问链: ${hook.callee}`)
+    }
+  }
+
+  if (runtime.jsx !== null) {
+    const { jsx } = runtime
+    if (!jsx?.component || !jsx.source || !jsx.idProp || !jsx.valuesProp) {
+      throw new Error('配置错误: runtime.jsx 需要提供 component、source、idProp 与 valuesProp')
+    }
+  }
+
+  if (runtime.richText !== null) {
+    const { richText } = runtime
+    if (richText?.mode === 'html') {
+      if (typeof richText.callee !== 'string' || !CALLEE_PATTERN.test(richText.callee)) {
+        throw new Error(`配置错误: runtime.richText.callee 必须是函数名或成员访问链，如 intl.getHTML: ${richText.callee}`)
+      }
+    } else if (richText?.mode === 'component') {
+      if (
+        !richText.component ||
+        !richText.source ||
+        !richText.idProp ||
+        !richText.valuesProp ||
+        !richText.componentsProp
+      ) {
+        throw new Error(
+          '配置错误: runtime.richText 为 component 模式时需要提供 component、source、idProp、valuesProp 与 componentsProp'
+        )
+      }
+    } else {
+      throw new Error('配置错误: runtime.richText.mode 必须是 html/component 之一')
+    }
+  }
+
+  if (!Array.isArray(runtime.recognize) || runtime.recognize.some((name) => !CALLEE_PATTERN.test(name))) {
+    throw new Error('配置错误: runtime.recognize 必须是函数名数组')
+  }
+}
@@ -4,17 +4,13 @@ import path from 'node:path'
 
 import { getConfig } from '../config/index.js'
 import { generateSemanticKey } from './common-utils.js'
+import { callAIProvider } from './ai-provider.js'
 import type {
   AICacheStats,
   ForgeI18nConfig,
   KeyGenerationContext
 } from '../types.js'
 
-const RATE_LIMIT = {
-  processing: false,
-  lastRequestTime: 0
-}
-
 const AI_KEY_PATTERN = /^[a-z][a-zA-Z0-9]*(?:_[a-zA-Z0-9]+)*$/
 
 const PROMPT_RULES_BASE = [
@@ -285,106 +281,6 @@ class CacheManager {
 
 const cacheManager = new CacheManager()
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => {
-    setTimeout(resolve, ms)
-  })
-}
-
-async function rateLimitedFetch(
-  url: string,
-  options: RequestInit,
-  config: ForgeI18nConfig,
-  retries = config.aiProvider.maxRetries
-): Promise<Response> {
-  const now = Date.now()
-  const timeSinceLastRequest = now - RATE_LIMIT.lastRequestTime
-  const perMinute = Math.max(config.aiProvider.requestsPerMinute, 1)
-  const minInterval = (60 * 1000) / perMinute
-
-  if (timeSinceLastRequest < minInterval) {
-    await delay(minInterval - timeSinceLastRequest)
-  }
-
-  RATE_LIMIT.lastRequestTime = Date.now()
-
-  for (let index = 0; index < retries; index += 1) {
-    try {
-      const response = await fetch(url, options)
-
-      if (response.status === 429) {
-        const retryAfter = parseInt(response.headers.get('Retry-After') ?? '60', 10)
-        console.warn(`警告: 触发速率限制，等待 ${retryAfter} 秒后重试...`)
-        await delay(retryAfter * 1000)
-        continue
-      }
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`API 错误 ${response.status}: ${error}`)
-      }
-
-      return response
-    } catch (error) {
-      if (index === retries - 1) {
-        throw error
-      }
-      if (error instanceof Error) {
-        console.warn(`警告: 请求失败，${retries - index - 1} 次重试剩余: ${error.message}`)
-      }
-      await delay(Math.pow(2, index) * 1000)
-    }
-  }
-
-  throw new Error('未知错误: rateLimitedFetch 未返回响应')
-}
-
-interface ChatMessage {
-  role: 'system' | 'user'
-  content: string
-}
-
-type ChatRequestOptions = Record<string, unknown>
-
-async function callAIProvider(
-  messages: ChatMessage[],
-  options: ChatRequestOptions = {},
-  config: ForgeI18nConfig = getConfig()
-): Promise<string> {
-  const provider = config.aiProvider
-
-  const bodyPayload = {
-    model: provider.model,
-    messages,
-    temperature: options.temperature ?? provider.temperature,
-    max_tokens:
-      options.max_tokens ?? config.translation?.maxTokensPerRequest ?? provider.maxTokens,
-    ...provider.request?.body,
-    ...options
-  }
-
-  const headers = {
-    'Content-Type': 'application/json',
-    Authorization: `Bearer ${provider.apiKey}`,
-    ...(provider.request?.headers || {})
-  }
-
-  const response = await rateLimitedFetch(
-    provider.apiUrl,
-    {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(bodyPayload)
-    },
-    config
-  )
-
-  const data = (await response.json()) as {
-    choices?: Array<{ message?: { content?: string } }>
-  }
-  return data.choices?.[0]?.message?.content ?? ''
-}
-
 export async function generateAIKey(
   text: string,
   context: KeyGenerationContext = {},
@@ -416,7 +312,7 @@ ${filePath ? `文件路径: ${filePath}` : ''}
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userPrompt }
     ],
-    {},
+    { task: { type: 'key', text } },
     config
   )
 
@@ -480,7 +376,7 @@ ${JSON.stringify(inputPayload, null, 2)}`
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userPrompt }
     ],
-    {},
+    { task: { type: 'keys', texts: uncachedItems.map((item) => item.text) } },
     config
   )
 
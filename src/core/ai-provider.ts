@@ -0,0 +1,361 @@
+/**
+ * AI 服务接口适配层
+ *
+ * key 生成与翻译共用同一个 callAIProvider，由 aiProvider.type 选择适配器，
+ * 适配器负责拼接请求地址、鉴权头与请求体，并从各自的响应格式中取出文本。
+ */
+
+import { getConfig } from '../config/index.js'
+import { createMockResponse } from './mock-provider.js'
+import type { AIProviderConfig, AIProviderType, ForgeI18nConfig } from '../types.js'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * 调用方附带的任务描述。HTTP 接口只使用消息，mock 接口据此生成结果
+ */
+export type AITask =
+  | { type: 'key'; text: string }
+  | { type: 'keys'; texts: string[] }
+  | {
+      type: 'translate'
+      locale: string
+      /** key -> 原文 */
+      input: Record<string, string>
+      /** key -> 需要 ICU plural 的计数变量 */
+      plurals?: Record<string, string[]>
+      /** 目标语言的复数类别 */
+      categories?: string[]
+      /** 本批文案中出现的术语 -> 指定译法 */
+      glossary?: Record<string, string>
+    }
+
+export interface AIRequestOptions {
+  temperature?: number
+  maxTokens?: number
+  /** 追加到请求头，优先级高于 aiProvider.request.headers */
+  headers?: Record<string, string>
+  /** 合并到请求体，优先级高于 aiProvider.request.body */
+  body?: Record<string, unknown>
+  task?: AITask
+}
+
+interface AdapterRequest {
+  url: string
+  headers: Record<string, string>
+  body: Record<string, unknown>
+}
+
+interface GenerationParams {
+  temperature: number
+  maxTokens: number
+}
+
+export interface AIProviderAdapter {
+  buildRequest(provider: AIProviderConfig, messages: ChatMessage[], params: GenerationParams): AdapterRequest
+  /** 从响应中取出文本，响应表示错误或内容为空时抛出异常 */
+  parseResponse(data: unknown): string
+}
+
+interface OpenAIResponse {
+  error?: unknown
+  choices?: Array<{ message?: { content?: string } }>
+}
+
+interface AnthropicResponse {
+  type?: string
+  error?: unknown
+  content?: Array<{ type?: string; text?: string }>
+}
+
+interface GeminiResponse {
+  error?: unknown
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+}
+
+interface OllamaResponse {
+  error?: unknown
+  message?: { content?: string }
+}
+
+const RATE_LIMIT = {
+  lastRequestTime: 0
+}
+
+function splitSystemMessages(messages: ChatMessage[]): { system: string; rest: ChatMessage[] } {
+  const system = messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n')
+  return { system, rest: messages.filter((message) => message.role !== 'system') }
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+function describeError(error: unknown): string {
+  if (typeof error === 'string') return error
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message)
+  return JSON.stringify(error)
+}
+
+function ensureContent(content: unknown, data: unknown): string {
+  if (typeof content !== 'string' || content.length === 0) {
+    throw new Error(`AI 服务返回空结果: ${JSON.stringify(data)}`)
+  }
+  return content
+}
+
+const openaiAdapter: AIProviderAdapter = {
+  buildRequest(provider, messages, params) {
+    return {
+      url: provider.apiUrl,
+      headers: { Authorization: `Bearer ${provider.apiKey}` },
+      body: {
+        model: provider.model,
+        messages,
+        temperature: params.temperature,
+        max_tokens: params.maxTokens
+      }
+    }
+  },
+  parseResponse(data) {
+    const response = data as OpenAIResponse | null
+    if (response?.error) {
+      throw new Error(`AI 服务响应错误: ${describeError(response.error)}`)
+    }
+    return ensureContent(response?.choices?.[0]?.message?.content, data)
+  }
+}
+
+// Azure OpenAI：按部署名称拼接地址，使用 api-key 头鉴权，请求与响应格式与 OpenAI 相同
+const azureAdapter: AIProviderAdapter = {
+  buildRequest(provider, messages, params) {
+    const base = trimTrailingSlash(provider.apiUrl)
+    const endpoint = base.includes('/openai/deployments/')
+      ? base
+      : `${base}/openai/deployments/${encodeURIComponent(provider.model)}/chat/completions`
+    const url = new URL(endpoint)
+    if (!url.searchParams.has('api-version') && provider.apiVersion) {
+      url.searchParams.set('api-version', provider.apiVersion)
+    }
+
+    return {
+      url: url.toString(),
+      headers: { 'api-key': provider.apiKey },
+      body: {
+        messages,
+        temperature: params.temperature,
+        max_tokens: params.maxTokens
+      }
+    }
+  },
+  parseResponse: openaiAdapter.parseResponse
+}
+
+// Anthropic Messages API：system 单独传递，max_tokens 必填
+const anthropicAdapter: AIProviderAdapter = {
+  buildRequest(provider, messages, params) {
+    const { system, rest } = splitSystemMessages(messages)
+    return {
+      url: provider.apiUrl,
+      headers: { 'x-api-key': provider.apiKey, 'anthropic-version': '2023-06-01' },
+      body: {
+        model: provider.model,
+        ...(system ? { system } : {}),
+        messages: rest,
+        temperature: params.temperature,
+        max_tokens: params.maxTokens
+      }
+    }
+  },
+  parseResponse(data) {
+    const response = data as AnthropicResponse | null
+    if (response?.type === 'error' || response?.error) {
+      throw new Error(`AI 服务响应错误: ${describeError(response.error)}`)
+    }
+    const text = (response?.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('')
+    return ensureContent(text, data)
+  }
+}
+
+// Gemini generateContent：assistant 对应 model 角色，system 写入 systemInstruction
+const geminiAdapter: AIProviderAdapter = {
+  buildRequest(provider, messages, params) {
+    const { system, rest } = splitSystemMessages(messages)
+    return {
+      url: `${trimTrailingSlash(provider.apiUrl)}/models/${encodeURIComponent(provider.model)}:generateContent`,
+      headers: { 'x-goog-api-key': provider.apiKey },
+      body: {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents: rest.map((message) => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }]
+        })),
+        generationConfig: {
+          temperature: params.temperature,
+          maxOutputTokens: params.maxTokens
+        }
+      }
+    }
+  },
+  parseResponse(data) {
+    const response = data as GeminiResponse | null
+    if (response?.error) {
+      throw new Error(`AI 服务响应错误: ${describeError(response.error)}`)
+    }
+    const parts = response?.candidates?.[0]?.content?.parts ?? []
+    return ensureContent(parts.map((part) => part.text ?? '').join(''), data)
+  }
+}
+
+// Ollama /api/chat：本地服务无需鉴权，关闭流式输出
+const ollamaAdapter: AIProviderAdapter = {
+  buildRequest(provider, messages, params) {
+    return {
+      url: provider.apiUrl,
+      headers: provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {},
+      body: {
+        model: provider.model,
+        messages,
+        stream: false,
+        options: {
+          temperature: params.temperature,
+          num_predict: params.maxTokens
+        }
+      }
+    }
+  },
+  parseResponse(data) {
+    const response = data as OllamaResponse | null
+    if (response?.error) {
+      throw new Error(`AI 服务响应错误: ${describeError(response.error)}`)
+    }
+    return ensureContent(response?.message?.content, data)
+  }
+}
+
+// mock 不经过 HTTP 请求，由 callAIProvider 直接处理
+const ADAPTERS: Record<Exclude<AIProviderType, 'mock'>, AIProviderAdapter> = {
+  openai: openaiAdapter,
+  azure: azureAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+  ollama: ollamaAdapter
+}
+
+/**
+ * 按 aiProvider.type 取适配器
+ */
+export function getAIProviderAdapter(type: AIProviderType): AIProviderAdapter {
+  const adapter = ADAPTERS[type as Exclude<AIProviderType, 'mock'>]
+  if (!adapter) {
+    throw new Error(`不支持的 AI 服务类型: ${type}，支持的类型: ${Object.keys(ADAPTERS).join(', ')}`)
+  }
+  return adapter
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms)
+  })
+}
+
+/**
+ * 限流请求：按 requestsPerMinute 控制请求间隔，429 时按 Retry-After 等待，其余失败按指数退避重试
+ */
+async function rateLimitedFetch(url: string, options: RequestInit, provider: AIProviderConfig): Promise<Response> {
+  const retries = Math.max(provider.maxRetries, 1)
+  const minInterval = (60 * 1000) / Math.max(provider.requestsPerMinute, 1)
+  const timeSinceLastRequest = Date.now() - RATE_LIMIT.lastRequestTime
+
+  if (timeSinceLastRequest < minInterval) {
+    await delay(minInterval - timeSinceLastRequest)
+  }
+
+  RATE_LIMIT.lastRequestTime = Date.now()
+
+  for (let index = 0; index < retries; index += 1) {
+    try {
+      const response = await fetch(url, options)
+
+      if (response.status === 429) {
+        const retryAfter = parseInt(response.headers.get('Retry-After') ?? '60', 10)
+        console.warn(`警告: 触发速率限制，等待 ${retryAfter} 秒后重试...`)
+        await delay(retryAfter * 1000)
+        continue
+      }
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`API 错误 ${response.status}: ${error}`)
+      }
+
+      return response
+    } catch (error) {
+      if (index === retries - 1) {
+        throw error
+      }
+      if (error instanceof Error) {
+        console.warn(`警告: 请求失败，${retries - index - 1} 次重试剩余: ${error.message}`)
+      }
+      await delay(Math.pow(2, index) * 1000)
+    }
+  }
+
+  throw new Error('未知错误: rateLimitedFetch 未返回响应')
+}
+
+/**
+ * 调用 AI 服务并返回模型输出的文本
+ * @param messages - 对话消息，system 消息由适配器转换为对应接口的格式
+ * @param options - 生成参数、请求覆盖与任务描述
+ * @param config - 配置，默认为当前激活的配置
+ */
+export async function callAIProvider(
+  messages: ChatMessage[],
+  options: AIRequestOptions = {},
+  config: ForgeI18nConfig = getConfig()
+): Promise<string> {
+  const provider = config.aiProvider
+  if (provider.type === 'mock') {
+    return createMockResponse(messages, options.task, provider.mock)
+  }
+
+  const adapter = getAIProviderAdapter(provider.type)
+  const request = adapter.buildRequest(provider, messages, {
+    temperature: options.temperature ?? provider.temperature,
+    maxTokens: options.maxTokens ?? config.translation?.maxTokensPerRequest ?? provider.maxTokens
+  })
+
+  const headers = {
+    'Content-Type': 'application/json',
+    ...request.headers,
+    ...(provider.request?.headers ?? {}),
+    ...(options.headers ?? {})
+  }
+  const body = {
+    ...request.body,
+    ...(provider.request?.body ?? {}),
+    ...(options.body ?? {})
+  }
+
+  const response = await rateLimitedFetch(
+    request.url,
+    {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    },
+    provider
+  )
+
+  return adapter.parseResponse(await response.json())
+}
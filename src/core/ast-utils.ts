@@ -9,16 +9,31 @@ import * as t from '@babel/types'
 
 import { getConfig } from '../config/index.js'
 import { generateKeySync } from './key-generator.js'
+import { isSourceText } from './text-detection.js'
+import { getTranslatorNote, isIgnoredNode } from './comment-directives.js'
+import { findCountVariables } from './icu-utils.js'
+import { getRichTextElements } from './rich-text.js'
+import { claimTranslationKey, findReusableKey } from './translation-index.js'
+import {
+  createRichTextCall,
+  createTranslationCall,
+  getCalleeName,
+  getTranslationElementKeyNode,
+  getTranslationKeyNode,
+  isTranslationCallee,
+  isTranslationElement
+} from './runtime-target.js'
 
 const traverseFn: typeof traverse = (traverse as unknown as { default?: typeof traverse }).default ?? traverse
 const generateFn: typeof generate = (generate as unknown as { default?: typeof generate }).default ?? (generate as unknown as typeof generate)
 
-// 中文正则
-const CHINESE_REGEX = /[\u4e00-\u9fa5]/
-
 // 最大递归深度限制，防止栈溢出
 const MAX_RECURSION_DEPTH = 10
 
+const COMPONENT_NAME_PATTERN = /^[A-Z]/
+// 包裹函数时不改变其名称的调用，如 const Foo = memo(() => ...)
+const NAME_PRESERVING_WRAPPERS = new Set(['memo', 'forwardRef', 'useCallback', 'useMemo'])
+
 function flattenBinaryExpressionParts(node, parts = []) {
   if (t.isBinaryExpression(node, { operator: '+' })) {
     flattenBinaryExpressionParts(node.left, parts)
@@ -54,7 +69,7 @@ export function buildTemplateLiteralFromBinaryExpression(node) {
     if (t.isStringLiteral(part)) {
       const value = part.value
       buffer += value
-      if (CHINESE_REGEX.test(value)) {
+      if (isSourceText(value)) {
         hasChinese = true
       }
       continue
@@ -63,7 +78,7 @@ export function buildTemplateLiteralFromBinaryExpression(node) {
     if (t.isTemplateLiteral(part) && part.expressions.length === 0) {
       const value = part.quasis.map((q) => q.value.cooked).join('')
       buffer += value
-      if (CHINESE_REGEX.test(value)) {
+      if (isSourceText(value)) {
         hasChinese = true
       }
       continue
@@ -89,9 +104,9 @@ export function buildTemplateLiteralFromBinaryExpression(node) {
 }
 
 /**
- * 解析模板字符串插值
+ * 解析模板字符串插值，表示数量的插值（如 `共${count}条记录`）标记为 numeric
  * @param {import('@babel/types').TemplateLiteral} node - TemplateLiteral AST 节点
- * @returns {{text: string, vars: Array<{name: string, expr: import('@babel/types').Expression}>}} 解析结果
+ * @returns {{text: string, vars: Array<{name: string, expr: import('@babel/types').Expression, numeric: boolean}>}} 解析结果
  */
 export function parseTemplateLiteral(node) {
   const { quasis, expressions } = node
@@ -117,59 +132,210 @@ export function parseTemplateLiteral(node) {
     }
   }
 
+  const countVariables = findCountVariables(
+    text,
+    vars.map((v) => v.name)
+  )
+  vars.forEach((v) => {
+    v.numeric = countVariables.includes(v.name)
+  })
+
   return { text, vars }
 }
 
+function createValuesExpression(vars) {
+  if (vars.length === 0) return null
+  return t.objectExpression(
+    vars.map((v) =>
+      t.objectProperty(t.identifier(v.name), v.expr, false, t.isIdentifier(v.expr) && v.expr.name === v.name)
+    )
+  )
+}
+
 /**
- * 创建基于 intl.get() 的国际化调用表达式
+ * 创建国际化调用表达式，调用形式由 runtime 配置决定（默认为 intl.get()）
  * @param {string} key - i18n key
  * @param {Array<{name: string, expr: import('@babel/types').Expression}>} vars - 插值变量列表
  * @returns {import('@babel/types').CallExpression} CallExpression AST 节点
  */
 export function createIntlGetCallExpression(key, vars = []) {
-  const args = [t.stringLiteral(key)]
-
-  if (vars.length > 0) {
-    const varsObj = t.objectExpression(
-      vars.map((v) =>
-        t.objectProperty(
-          t.identifier(v.name),
-          v.expr,
-          false,
-          t.isIdentifier(v.expr) && v.expr.name === v.name
-        )
-      )
-    )
-    args.push(varsObj)
-  }
+  return createTranslationCall(key, createValuesExpression(vars), getConfig().runtime)
+}
 
-  return t.callExpression(
-    t.memberExpression(t.identifier('intl'), t.identifier('get')),
-    args
-  )
+/**
+ * 创建富文本翻译调用：html 模式为 intl.getHTML() 等渲染函数，component 模式由 applyRuntimeTarget 改写为 Trans 等组件
+ * @param {string} key - i18n key
+ * @param {Array<{name: string, expr: import('@babel/types').Expression}>} vars - 插值变量列表
+ * @param {Array<import('@babel/types').JSXElement>} elements - 按编号排列的行内元素
+ * @returns {import('@babel/types').CallExpression} CallExpression AST 节点
+ */
+export function createRichTextCallExpression(key, vars, elements) {
+  return createRichTextCall(key, createValuesExpression(vars), elements, getConfig().runtime)
 }
 
 /**
- * 检查是否应该跳过该节点
- * @param {Object} path - Babel 路径对象
+ * callee 是否为翻译函数（intl.get()/intl.getHTML() 或 runtime 配置的其它函数）
+ * @param {Object} node - callee 节点
  * @returns {boolean}
  */
 export function isIntlGetCall(node) {
-  return (
-    t.isMemberExpression(node) &&
-    t.isIdentifier(node.object, { name: 'intl' }) &&
-    t.isIdentifier(node.property) &&
-    (node.property.name === 'get' || node.property.name === 'getHTML')
-  )
+  return isTranslationCallee(node, getConfig().runtime)
+}
+
+/**
+ * 取动态 key 表达式的静态前缀，如 `menu.${id}` 与 'menu.' + id 均返回 'menu.'
+ */
+function getStaticKeyPrefix(node) {
+  if (t.isTemplateLiteral(node)) {
+    return node.quasis[0]?.value.cooked ?? ''
+  }
+  if (t.isBinaryExpression(node, { operator: '+' })) {
+    if (t.isStringLiteral(node.left)) return node.left.value
+    return getStaticKeyPrefix(node.left)
+  }
+  return ''
+}
+
+function getPropertyName(node) {
+  if (t.isIdentifier(node)) return node.name
+  if (t.isStringLiteral(node)) return node.value
+  if (t.isPrivateName(node)) return `#${node.id.name}`
+  return null
+}
+
+/**
+ * 函数或类的名称：声明名，或所赋值的变量、属性、方法名
+ */
+function getScopeName(scopePath) {
+  const { node } = scopePath
+  if (node.id && t.isIdentifier(node.id)) return node.id.name
+  if (scopePath.isObjectMethod() || scopePath.isClassMethod() || scopePath.isClassPrivateMethod()) {
+    return node.computed ? null : getPropertyName(node.key)
+  }
+
+  let parentPath = scopePath.parentPath
+  while (
+    parentPath?.isCallExpression() &&
+    NAME_PRESERVING_WRAPPERS.has(getCalleeName(parentPath.node.callee)?.replace(/^React\./, ''))
+  ) {
+    parentPath = parentPath.parentPath
+  }
+  if (parentPath?.isVariableDeclarator()) {
+    return t.isIdentifier(parentPath.node.id) ? parentPath.node.id.name : null
+  }
+  if (parentPath?.isObjectProperty() || parentPath?.isClassProperty() || parentPath?.isClassPrivateProperty()) {
+    return parentPath.node.computed ? null : getPropertyName(parentPath.node.key)
+  }
+  if (parentPath?.isAssignmentExpression()) {
+    const { left } = parentPath.node
+    return getPropertyName(t.isMemberExpression(left) && !left.computed ? left.property : left)
+  }
+  return null
+}
+
+/**
+ * 节点所在的组件与最内层具名函数。首字母大写的函数，以及有父类且首字母大写的类视为组件
+ * @returns {{component: string|null, function: string|null}}
+ */
+function getEnclosingNames(path) {
+  let functionName = null
+  let current = path.parentPath
+  while (current) {
+    const isFunction = current.isFunction()
+    if (isFunction || current.isClass()) {
+      const name = getScopeName(current)
+      if (name && isFunction && functionName === null) {
+        functionName = name
+      }
+      if (name && COMPONENT_NAME_PATTERN.test(name) && (isFunction || current.node.superClass)) {
+        return { component: name, function: functionName }
+      }
+    }
+    current = current.parentPath
+  }
+  return { component: null, function: functionName }
+}
+
+/**
+ * 收集 AST 中翻译调用（intl.get()/intl.getHTML() 等）与翻译组件的 key 引用
+ * @param {Object} ast - AST 对象
+ * @returns {{keys: string[], occurrences: Array<{key: string, line: number, column: number, component: string|null, function: string|null, note?: string}>, dynamic: Array<{line: number, column: number, expression: string, prefix: string}>}}
+ *   静态 key（去重，按出现顺序）、每处静态 key 引用的位置与无法静态确定 key 的调用
+ */
+export function collectKeyReferences(ast) {
+  const keys = new Set()
+  const occurrences = []
+  const dynamic = []
+
+  const addStaticKey = (key, path) => {
+    keys.add(key)
+    const start = path.node.loc?.start
+    if (!start) return
+    const note = getTranslatorNote(path)
+    occurrences.push({
+      key,
+      line: start.line,
+      column: start.column + 1,
+      ...getEnclosingNames(path),
+      ...(note ? { note } : {})
+    })
+  }
+
+  const record = (keyNode, path) => {
+    if (!keyNode) return
+
+    if (t.isStringLiteral(keyNode)) {
+      addStaticKey(keyNode.value, path)
+      return
+    }
+    if (t.isTemplateLiteral(keyNode) && keyNode.expressions.length === 0) {
+      addStaticKey(keyNode.quasis[0].value.cooked, path)
+      return
+    }
+
+    dynamic.push({
+      line: keyNode.loc?.start.line ?? 0,
+      column: (keyNode.loc?.start.column ?? 0) + 1,
+      expression: generateFn(keyNode).code,
+      prefix: getStaticKeyPrefix(keyNode)
+    })
+  }
+
+  traverseFn(ast, {
+    CallExpression(path) {
+      if (!isIntlGetCall(path.node.callee)) return
+      record(getTranslationKeyNode(path.node), path)
+    },
+    JSXElement(path) {
+      if (!isTranslationElement(path.node)) return
+      record(getTranslationElementKeyNode(path.node), path)
+    }
+  })
+
+  return { keys: Array.from(keys), occurrences, dynamic }
+}
+
+/**
+ * 收集 AST 中 intl.get()/intl.getHTML() 引用的全部静态 key
+ * @param {Object} ast - AST 对象
+ * @returns {string[]} 去重后的 key 列表（按出现顺序）
+ */
+export function collectReferencedKeys(ast) {
+  return collectKeyReferences(ast).keys
 }
 
 export function shouldSkipNode(path) {
-  // 跳过已经是 intl.get()/intl.getHTML() 调用的
+  // 跳过被 forge-i18n-ignore 等注释指令忽略的节点
+  if (isIgnoredNode(path.node)) {
+    return true
+  }
+
+  // 跳过已经是 intl.get()/intl.getHTML() 调用的，以及翻译组件（如 FormattedMessage）内部
   if (
     path.findParent(
       (p) =>
-        p.isCallExpression() &&
-        isIntlGetCall(p.node.callee)
+        (p.isCallExpression() && isIntlGetCall(p.node.callee)) ||
+        (p.isJSXElement() && isTranslationElement(p.node))
     )
   ) {
     return true
@@ -229,6 +395,30 @@ export function getObjectPropertyKey(prop) {
   return null
 }
 
+/**
+ * 文案的翻译条目，模板中含计数变量时记录 plurals
+ */
+export function createTranslationDetail({ text, vars = [] }, filePath) {
+  const plurals = vars.filter((v) => v.numeric).map((v) => v.name)
+  return {
+    text,
+    context: filePath,
+    interpolations: vars.map((v) => v.name),
+    ...(plurals.length > 0 ? { plurals: Array.from(new Set(plurals)) } : {})
+  }
+}
+
+/**
+ * 节点在源码中的位置（列号从 1 开始），用于 key 冲突报告
+ */
+function getNodeLocation(node, filePath) {
+  return {
+    file: filePath,
+    line: node.loc?.start.line ?? null,
+    column: node.loc ? node.loc.start.column + 1 : null
+  }
+}
+
 /**
  * 通用值提取器 - 支持字符串、模板字符串、条件表达式等多种节点类型
  * @param {Object} valueNode - 值节点
@@ -245,27 +435,22 @@ export function extractValue(valueNode, context, filePath, fileType, translation
     console.warn(`警告: 递归深度超过限制 (${MAX_RECURSION_DEPTH})，跳过节点提取`)
     return null
   }
+  if (isIgnoredNode(valueNode)) return null
   // 1. 处理字符串字面量
   if (t.isStringLiteral(valueNode)) {
-    if (!CHINESE_REGEX.test(valueNode.value)) return null
-
-    // 先查找是否已有相同文本的 key（支持 AI 批量生成的 key 复用）
-    const existingKey = Object.entries(translations).find(([_key, value]) => {
-      const existingText = typeof value === 'string' ? value : value.text
-      const existingVars = typeof value === 'string' ? [] : (value.interpolations || [])
-      // 字符串字面量没有插值变量
-      return existingText === valueNode.value && existingVars.length === 0
-    })?.[0]
-
-    const key = existingKey || generateKeySync(valueNode.value, context)
-
-    if (!existingKey) {
-      translations[key] = {
-        text: valueNode.value,
-        context: filePath,
-        interpolations: []
-      }
-    }
+    if (!isSourceText(valueNode.value)) return null
+
+    // 先查找是否已有相同文本的 key（支持 AI 批量生成的 key 复用），字符串字面量没有插值变量
+    const existingKey = findReusableKey(translations, valueNode.value, [])
+
+    const key =
+      existingKey ||
+      claimTranslationKey(
+        translations,
+        generateKeySync(valueNode.value, context),
+        createTranslationDetail({ text: valueNode.value }, filePath),
+        getNodeLocation(valueNode, filePath)
+      )
 
     return {
       key,
@@ -288,7 +473,7 @@ export function extractValue(valueNode, context, filePath, fileType, translation
 
     // 然后处理模板字符串本身的静态部分
     const result = parseTemplateLiteral(valueNode)
-    const hasChinese = CHINESE_REGEX.test(result.text)
+    const hasChinese = isSourceText(result.text)
 
     // 如果有嵌套提取或静态部分包含中文，都需要返回
     if (hasNestedExtraction && !hasChinese) {
@@ -301,26 +486,23 @@ export function extractValue(valueNode, context, filePath, fileType, translation
     if (hasChinese) {
       // 先查找是否已有相同文本和插值的 key
       const currentVars = result.vars.map((v) => v.name)
-      const existingKey = Object.entries(translations).find(([_key, value]) => {
-        const existingText = typeof value === 'string' ? value : value.text
-        const existingVars = typeof value === 'string' ? [] : (value.interpolations || [])
-        return existingText === result.text &&
-               JSON.stringify(existingVars.sort()) === JSON.stringify(currentVars.sort())
-      })?.[0]
-
-      const key = existingKey || generateKeySync(result.text, context)
-
-      if (!existingKey) {
-        translations[key] = {
-          text: result.text,
-          context: filePath,
-          interpolations: currentVars
-        }
-      }
+      const existingKey = findReusableKey(translations, result.text, currentVars)
+
+      const key =
+        existingKey ||
+        claimTranslationKey(
+          translations,
+          generateKeySync(result.text, context),
+          createTranslationDetail(result, filePath),
+          getNodeLocation(valueNode, filePath)
+        )
 
+      const elements = getRichTextElements(valueNode)
       return {
         key,
-        replacementNode: createIntlGetCallExpression(key, result.vars),
+        replacementNode: elements
+          ? createRichTextCallExpression(key, result.vars, elements)
+          : createIntlGetCallExpression(key, result.vars),
         hasExtraction: true
       }
     }
@@ -536,4 +718,4 @@ export function extractValue(valueNode, context, filePath, fileType, translation
   return null
 }
 
-// React-intl-universal 流程统一依赖 intl.get()
+// 生成的调用形式由 runtime 配置决定，默认沿用 react-intl-universal 的 intl.get()
@@ -0,0 +1,74 @@
+import path from 'node:path'
+
+import { glob } from 'glob'
+
+import { getConfig, setActiveConfig } from '../config/index.js'
+import { scanFile } from './file-processor.js'
+import { getTranslationLocales, readLocaleFile } from './locale-files.js'
+import { findOutdatedKeys, readLocaleMeta } from './locale-meta.js'
+import type { CheckHit, CheckOptions, CheckResult, ForgeI18nConfig, OutdatedTranslations } from '../types.js'
+
+/**
+ * 对比源语言文件与各目标语言的元数据，找出原文修改后尚未重新翻译的 key
+ */
+function findOutdatedTranslations(config: ForgeI18nConfig): OutdatedTranslations[] {
+  const sourceData = readLocaleFile(config.getOutputPath(config.languages.source))
+  if (!sourceData) return []
+
+  const outdated: OutdatedTranslations[] = []
+  for (const locale of getTranslationLocales(config)) {
+    const targetData = readLocaleFile(config.getOutputPath(locale))
+    if (!targetData) continue
+
+    const keys = findOutdatedKeys(sourceData, targetData, readLocaleMeta(config, locale))
+    if (keys.length > 0) {
+      outdated.push({ locale, keys })
+    }
+  }
+  return outdated
+}
+
+/**
+ * 只读检查：复用 extract 的文本收集逻辑，找出仍硬编码在源码中的中文文本，
+ * 并报告原文修改后尚未重新翻译的过期译文。
+ * 不会改写源码或多语言文件，适合在 CI 中阻止新增未提取文案。
+ */
+export async function check(options: CheckOptions = {}): Promise<CheckResult> {
+  const config = options.config ?? getConfig()
+  setActiveConfig(config)
+  const cwd = options.cwd ? path.resolve(options.cwd) : config.projectRoot
+
+  const files = await glob(config.input, {
+    cwd,
+    ignore: config.ignore,
+    absolute: true
+  })
+  files.sort()
+
+  const hits: CheckHit[] = []
+  const errors: CheckResult['errors'] = []
+
+  for (const file of files) {
+    try {
+      const items = scanFile(file, config)
+      for (const item of items) {
+        hits.push({
+          file: path.relative(cwd, file),
+          line: item.line ?? 0,
+          column: item.column === null || item.column === undefined ? 0 : item.column + 1,
+          text: item.text,
+          type: item.type
+        })
+      }
+    } catch (error) {
+      errors.push({ file, error: error instanceof Error ? error : new Error(String(error)) })
+    }
+  }
+
+  return {
+    filesScanned: files.length,
+    hits,
+    errors,
+    outdated: findOutdatedTranslations(config)
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * 注释指令：在源码中局部关闭文案提取
+ *
+ * - `// forge-i18n-disable`：整个文件跳过提取
+ * - `// forge-i18n-ignore-next-line`：跳过下一行开始的所有节点
+ * - `/* forge-i18n-ignore *\/`：跳过紧随其后的节点及其子树；
+ *   在 JSX 子节点中写作 `{/* forge-i18n-ignore *\/}`，作用于下一个兄弟节点
+ *
+ * 译者说明：随文案写入详情文件，并在翻译时提供给模型
+ *
+ * - `/* i18n: 结账页按钮，最多 12 个字符 *\/`：写在文案前后（同一行或上一行），作用于该文案
+ * - `// @i18n-context 订单详情页`：写在元素或语句上方，作用于其中的全部文案
+ * - 在 JSX 子节点中写作 `{/* i18n: ... *\/}`，作用于下一个兄弟节点
+ */
+
+import * as t from '@babel/types'
+import type { NodePath } from '@babel/traverse'
+
+type CommentDirective = 'disable' | 'ignore-next-line' | 'ignore'
+
+const DIRECTIVE_PATTERN = /^[\s*]*forge-i18n-(disable|ignore-next-line|ignore)(?=\s|\*|$)/
+const NOTE_PATTERN = /^[\s*]*i18n:([\s\S]*)$/
+const CONTEXT_PATTERN = /^[\s*]*@i18n-context(?=[\s:*]|$):?([\s\S]*)$/
+
+// 被忽略的节点，shouldSkipNode 与 extractValue 会跳过其中的节点
+const ignoredNodes = new WeakSet<object>()
+
+/**
+ * 解析注释中的指令名称
+ * @param {Object} comment - Babel 注释节点
+ * @returns {'disable'|'ignore-next-line'|'ignore'|null}
+ */
+export function getCommentDirective(comment: t.Comment | null | undefined): CommentDirective | null {
+  if (!comment || typeof comment.value !== 'string') return null
+  const match = comment.value.match(DIRECTIVE_PATTERN)
+  return match ? (match[1] as CommentDirective) : null
+}
+
+function hasDirective(comments: readonly t.Comment[] | null | undefined, directive: CommentDirective): boolean {
+  return Array.isArray(comments) && comments.some((comment) => getCommentDirective(comment) === directive)
+}
+
+/**
+ * 文件中是否包含 forge-i18n-disable 指令
+ * @param {Object} ast - File AST
+ * @returns {boolean}
+ */
+export function hasFileDisableDirective(ast: t.File): boolean {
+  return hasDirective(ast.comments, 'disable')
+}
+
+/**
+ * 节点是否被注释指令忽略
+ * @param {Object} node - AST 节点
+ * @returns {boolean}
+ */
+export function isIgnoredNode(node: unknown): boolean {
+  return Boolean(node) && typeof node === 'object' && ignoredNodes.has(node)
+}
+
+function isNode(value: unknown): value is t.Node {
+  return Boolean(value) && typeof (value as t.Node).type === 'string'
+}
+
+function forEachChild(node: t.Node, callback: (child: t.Node) => void): void {
+  for (const key of t.VISITOR_KEYS[node.type] || []) {
+    const value: unknown = node[key as keyof t.Node]
+    if (Array.isArray(value)) {
+      value.forEach((child) => {
+        if (isNode(child)) callback(child)
+      })
+    } else if (isNode(value)) {
+      callback(value)
+    }
+  }
+}
+
+function markSubtree(node: t.Node): void {
+  ignoredNodes.add(node)
+  forEachChild(node, markSubtree)
+}
+
+/**
+ * JSXText 以换行开头时，其有效内容位于后续行
+ */
+function getEffectiveLine(node: t.Node, code: string): number | undefined {
+  const line = node.loc?.start?.line
+  if (!line || !t.isJSXText(node) || typeof node.start !== 'number') return line
+
+  const raw = code.slice(node.start, node.end)
+  const leading = raw.match(/^\s*/)?.[0] ?? ''
+  return line + (leading.match(/\n/g) || []).length
+}
+
+function findNextJSXSibling(children: t.JSXElement['children'], index: number): t.Node | null {
+  for (let cursor = index + 1; cursor < children.length; cursor += 1) {
+    const sibling = children[cursor]
+    if (t.isJSXText(sibling) && sibling.value.trim().length === 0) continue
+    return sibling
+  }
+  return null
+}
+
+function isIgnoreContainer(node: t.Node): boolean {
+  return (
+    t.isJSXExpressionContainer(node) &&
+    t.isJSXEmptyExpression(node.expression) &&
+    hasDirective(node.expression.innerComments, 'ignore')
+  )
+}
+
+/**
+ * 根据注释指令标记需要跳过的节点，需在任何 AST 转换之前调用
+ * @param {Object} ast - File AST
+ * @param {string} code - 原始源码
+ */
+export function markIgnoredNodes(ast: t.File, code: string): void {
+  const ignoredLines = new Set<number>()
+  for (const comment of ast.comments || []) {
+    if (getCommentDirective(comment) === 'ignore-next-line' && comment.loc) {
+      ignoredLines.add(comment.loc.end.line + 1)
+    }
+  }
+
+  const visit = (node: t.Node) => {
+    if (ignoredNodes.has(node)) return
+
+    if (hasDirective(node.leadingComments, 'ignore')) {
+      markSubtree(node)
+      return
+    }
+
+    if (ignoredLines.has(getEffectiveLine(node, code))) {
+      ignoredNodes.add(node)
+    }
+
+    if (t.isJSXElement(node) || t.isJSXFragment(node)) {
+      node.children.forEach((child, index) => {
+        if (!isIgnoreContainer(child)) return
+        const sibling = findNextJSXSibling(node.children, index)
+        if (sibling) markSubtree(sibling)
+      })
+    }
+
+    forEachChild(node, visit)
+  }
+
+  visit(ast.program)
+}
+
+/**
+ * 是否为译者说明注释（i18n: 或 @i18n-context）
+ * @param {Object} comment - Babel 注释节点
+ * @returns {boolean}
+ */
+export function isTranslatorComment(comment: t.Comment | null | undefined): boolean {
+  return typeof comment?.value === 'string' && (NOTE_PATTERN.test(comment.value) || CONTEXT_PATTERN.test(comment.value))
+}
+
+/**
+ * 去掉块注释每行开头的 * 并合并为一行
+ */
+function normalizeCommentText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^\s*\*?/, '').trim())
+    .filter(Boolean)
+    .join(' ')
+}
+
+function findCommentText(comments: readonly t.Comment[] | null | undefined, pattern: RegExp): string | null {
+  for (const comment of comments || []) {
+    const match = typeof comment.value === 'string' ? comment.value.match(pattern) : null
+    const text = match ? normalizeCommentText(match[1]) : ''
+    if (text) return text
+  }
+  return null
+}
+
+/**
+ * JSX 子节点前一个非空白兄弟节点中 `{/* ... *\/}` 的说明
+ */
+function findSiblingCommentText(path: NodePath, pattern: RegExp): string | null {
+  if (path.listKey !== 'children' || typeof path.key !== 'number') return null
+  if (!t.isJSXElement(path.parent) && !t.isJSXFragment(path.parent)) return null
+
+  const children = path.parent.children
+  for (let cursor = path.key - 1; cursor >= 0; cursor -= 1) {
+    const sibling = children[cursor]
+    if (t.isJSXText(sibling) && sibling.value.trim().length === 0) continue
+    if (t.isJSXExpressionContainer(sibling) && t.isJSXEmptyExpression(sibling.expression)) {
+      return findCommentText(sibling.expression.innerComments, pattern)
+    }
+    return null
+  }
+  return null
+}
+
+/**
+ * 翻译调用或翻译组件的译者说明。`i18n:` 说明只在所在语句内查找，
+ * `@i18n-context` 取最近的外层元素或语句上的说明，两者同时存在时合并
+ * @param {Object} path - 翻译调用（或翻译组件）的 NodePath
+ * @returns {string|null}
+ */
+export function getTranslatorNote(path: NodePath): string | null {
+  const startLine = path.node.loc?.start.line
+  const endLine = path.node.loc?.end.line
+  let note: string | null = null
+  let context: string | null = null
+  let withinStatement = true
+
+  for (
+    let current: NodePath | null = path;
+    current && (context === null || (withinStatement && note === null));
+    current = current.parentPath
+  ) {
+    const { leadingComments, trailingComments } = current.node
+
+    if (withinStatement && note === null) {
+      note =
+        findCommentText(
+          leadingComments?.filter((comment) => comment.loc?.end.line >= startLine - 1),
+          NOTE_PATTERN
+        ) ??
+        findCommentText(
+          trailingComments?.filter((comment) => comment.loc?.start.line === endLine),
+          NOTE_PATTERN
+        ) ??
+        findSiblingCommentText(current, NOTE_PATTERN)
+    }
+    if (context === null) {
+      context = findCommentText(leadingComments, CONTEXT_PATTERN) ?? findSiblingCommentText(current, CONTEXT_PATTERN)
+    }
+
+    // export 声明上方的说明同样属于其中的语句
+    if (current.isStatement() && !current.parentPath?.isExportDeclaration()) {
+      withinStatement = false
+    }
+  }
+
+  return [context, note].filter(Boolean).join('；') || null
+}
@@ -12,8 +12,11 @@ export function identifyTextType(text: string): TextType {
   return 'text'
 }
 
+// 富文本标签，如 <0></0>、<a href="/terms">、<br/>
+const RICH_TEXT_TAG_PATTERN = /<\/?(?:\d+|[a-z][a-z0-9]*)(?:\s[^<>]*)?\/?>/g
+
 export function extractSemantic(text: string, maxLength: number): string {
-  const cleaned = text.replace(/[，。！？；：、""''（）【】《》\s\n\r]/g, '')
+  const cleaned = text.replace(RICH_TEXT_TAG_PATTERN, '').replace(/[，。！？；：、""''（）【】《》\s\n\r]/g, '')
   return cleaned.substring(0, maxLength)
 }
 
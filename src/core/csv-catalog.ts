@@ -0,0 +1,136 @@
+/**
+ * CSV 表格读写：每个 key 一行，每个语言一列，供产品与文案在电子表格中编辑
+ *
+ * 列依次为 key、源语言、各目标语言、file（引用该 key 的源码文件）、status（汇总的翻译状态）
+ * 与 revision（导出时各语言文案的指纹）。导入时据 revision 判断哪些单元格在表格中被修改，
+ * 以及语言文件是否也在导出后被修改，从而报告冲突。file 与 status 列只读，导入时忽略。
+ * 可能被电子表格当作公式的单元格导出时加 ' 前缀，导入时去掉。
+ */
+
+import { parseCSV, stringifyCSV } from '../utils/csv.js'
+import { hashSourceText } from './locale-meta.js'
+import type { ExchangeCatalog, ExchangeUnit, ParsedExchangeCatalog } from '../types.js'
+
+const KEY_COLUMN = 'key'
+const FILE_COLUMN = 'file'
+const STATUS_COLUMN = 'status'
+const REVISION_COLUMN = 'revision'
+
+const RESERVED_COLUMNS = [KEY_COLUMN, FILE_COLUMN, STATUS_COLUMN, REVISION_COLUMN]
+
+// 多个语言状态不同时显示最需要处理的一个
+const ROW_STATUS_ORDER = ['untranslated', 'outdated', 'needs-review', 'machine', 'translated', 'reviewed', 'locked']
+
+const REVISION_HASH_LENGTH = 10
+
+// 会被电子表格当作公式的单元格，可能已带有 ' 前缀
+const FORMULA_PATTERN = /^'*[=+\-@\t\r]/
+
+function revisionHash(text: string): string {
+  return hashSourceText(text).slice(0, REVISION_HASH_LENGTH)
+}
+
+function describeUnitStatus(unit: ExchangeUnit | undefined): string {
+  if (!unit?.target) return 'untranslated'
+  if (unit.outdated) return 'outdated'
+  return unit.status ?? 'translated'
+}
+
+function describeRowStatus(units: Array<ExchangeUnit | undefined>): string {
+  const ranks = units.map((unit) => ROW_STATUS_ORDER.indexOf(describeUnitStatus(unit)))
+  return ranks.length > 0 ? ROW_STATUS_ORDER[Math.min(...ranks)] : ''
+}
+
+/**
+ * 以 =、+、-、@、制表符或回车开头的文案加 ' 前缀，防止打开表格时被当作公式执行。
+ * 本身以 ' 开头的同类文案也多加一个前缀，导入时去掉一个即可还原
+ */
+function escapeFormula(value: string): string {
+  return FORMULA_PATTERN.test(value) ? `'${value}` : value
+}
+
+function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PATTERN.test(value) ? value.slice(1) : value
+}
+
+// 引用位置去掉行号，同一文件只列一次
+function describeFiles(unit: ExchangeUnit): string {
+  return [...new Set(unit.locations.map((location) => location.replace(/:\d+$/, '')))].join('\n')
+}
+
+/**
+ * 生成 CSV 表格，开头带 BOM，便于 Excel 按 UTF-8 打开
+ * @param source - 源语言的全部文案
+ * @param targets - 各目标语言的译文
+ */
+export function serializeCsvCatalog(source: ExchangeCatalog, targets: ExchangeCatalog[]): string {
+  const locales = [source.sourceLocale, ...targets.map((catalog) => catalog.locale)]
+  const targetUnits = targets.map((catalog) => new Map(catalog.units.map((unit) => [unit.key, unit])))
+
+  const rows = [[KEY_COLUMN, ...locales, FILE_COLUMN, STATUS_COLUMN, REVISION_COLUMN]]
+  for (const unit of source.units) {
+    const units = targetUnits.map((byKey) => byKey.get(unit.key))
+    const values = [unit.source, ...units.map((item) => item?.target ?? '')]
+    const revision = locales.map((locale, index) => `${locale}:${revisionHash(values[index])}`).join(' ')
+
+    rows.push([unit.key, ...values, describeFiles(unit), describeRowStatus(units), revision])
+  }
+
+  return `\uFEFF${stringifyCSV(rows.map((row) => row.map(escapeFormula)))}`
+}
+
+function parseRevision(value: string): Map<string, string> {
+  const hashes = new Map<string, string>()
+  for (const item of value.split(/\s+/)) {
+    const index = item.lastIndexOf(':')
+    if (index > 0) hashes.set(item.slice(0, index), item.slice(index + 1))
+  }
+  return hashes
+}
+
+/**
+ * 读取 CSV 表格，保留列与源语言列之外的每一列对应一组译文，无法对应目标语言的列（如备注列）由导入时忽略；
+ * 表格中修改的译文记为 reviewed
+ * @param content - CSV 文本
+ * @param sourceLocale - 源语言代码，对应的列作为原文
+ */
+export function parseCsvCatalog(content: string, sourceLocale: string): ParsedExchangeCatalog[] {
+  const [header = [], ...rows] = parseCSV(content).map((row) => row.map(unescapeFormula))
+  const columns = header.map((cell) => cell.trim())
+  const keyIndex = columns.indexOf(KEY_COLUMN)
+  if (keyIndex === -1) {
+    throw new Error(`CSV 格式错误: 缺少 ${KEY_COLUMN} 列`)
+  }
+
+  const sourceIndex = columns.indexOf(sourceLocale)
+  const revisionIndex = columns.indexOf(REVISION_COLUMN)
+  const languageColumns = columns
+    .map((name, index) => ({ name, index }))
+    .filter(({ name, index }) => name && index !== sourceIndex && !RESERVED_COLUMNS.includes(name))
+
+  const catalogs: ParsedExchangeCatalog[] = languageColumns.map(({ name }) => ({ targetLanguage: name, units: [] }))
+
+  for (const row of rows) {
+    const key = (row[keyIndex] ?? '').trim()
+    if (!key) continue
+
+    const revision = parseRevision(revisionIndex === -1 ? '' : (row[revisionIndex] ?? ''))
+    const source = sourceIndex === -1 ? undefined : (row[sourceIndex] ?? '')
+    const sourceHash = revision.get(sourceLocale)
+    const sourceEdited = source !== undefined && sourceHash !== undefined && revisionHash(source) !== sourceHash
+
+    languageColumns.forEach(({ name, index }, catalogIndex) => {
+      const baseHash = revision.get(name)
+      catalogs[catalogIndex].units.push({
+        key,
+        ...(source !== undefined && !sourceEdited ? { source } : {}),
+        target: row[index] ?? '',
+        status: 'reviewed',
+        ...(baseHash !== undefined ? { baseHash } : {}),
+        ...(sourceEdited ? { sourceEdited } : {})
+      })
+    })
+  }
+
+  return catalogs
+}
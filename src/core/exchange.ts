@@ -0,0 +1,349 @@
+/**
+ * 译文交换：把语言文件导出为翻译供应商使用的文件格式，并把返回的译文导入语言文件
+ *
+ * 导入时逐条校验：key 须仍存在、导出后原文未被修改、译文通过与 translate 相同的占位符与复数检查，
+ * 锁定的译文不会被覆盖。同一 key 在任一语言的译文不合格时，该 key 的全部译文都不导入。
+ * 修改过的译文按文件中的状态记为 needs-review，没有标记时记为 reviewed；未修改的译文只在文件明确标记为
+ * 已审校，或去掉了导出时的待审校标记（PO 的 fuzzy）时记为 reviewed。
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { getConfig, setActiveConfig } from '../config/index.js'
+import { getPluralCategories } from './icu-utils.js'
+import { getTranslationLocales, readLocaleFile, readSourceData, readSourceDetails } from './locale-files.js'
+import { findOutdatedKeys, hashSourceText, isPendingReview, readLocaleMeta, writeLocaleMeta } from './locale-meta.js'
+import { validateTranslation } from './translate.js'
+import { parseXliff, serializeXliff } from './xliff.js'
+import { parsePo, serializePo } from './po.js'
+import { parseCsvCatalog, serializeCsvCatalog } from './csv-catalog.js'
+import type {
+  ExchangeCatalog,
+  ExchangeFormat,
+  ExportOptions,
+  ExportResult,
+  ForgeI18nConfig,
+  ImportConflict,
+  ImportOptions,
+  ImportResult,
+  ImportedEntry,
+  ParsedExchangeCatalog,
+  ParsedExchangeUnit,
+  SkippedImportEntry,
+  TranslationDetail,
+  TranslationStatus
+} from '../types.js'
+import type { LocaleMeta } from './locale-meta.js'
+
+const DEFAULT_OUT_DIR = 'i18n-exchange'
+
+interface ExchangeFormatHandler {
+  /** 第一个为导出时使用的扩展名 */
+  extensions: string[]
+  /** 全部语言写入同一个 `<namespace>` 文件；否则每个目标语言一个文件，serialize 每次只收到一个语言 */
+  combined?: boolean
+  serialize(targets: ExchangeCatalog[], source: ExchangeCatalog, options: ExportOptions): string
+  parse(content: string, sourceLocale: string): ParsedExchangeCatalog[]
+  /** 额外生成的源语言模板，如 gettext 的 POT */
+  template?: {
+    extension: string
+    serialize(catalog: ExchangeCatalog): string
+  }
+}
+
+const FORMATS: Record<ExchangeFormat, ExchangeFormatHandler> = {
+  xliff: {
+    extensions: ['.xlf', '.xliff'],
+    serialize: ([catalog], source, options) => serializeXliff(catalog, options.xliffVersion ?? '2.0'),
+    parse: (content) => [parseXliff(content)]
+  },
+  po: {
+    extensions: ['.po'],
+    serialize: ([catalog]) => serializePo(catalog),
+    parse: (content) => [parsePo(content)],
+    template: {
+      extension: '.pot',
+      serialize: (catalog) => serializePo(catalog, { template: true })
+    }
+  },
+  csv: {
+    extensions: ['.csv'],
+    combined: true,
+    serialize: (targets, source) => serializeCsvCatalog(source, targets),
+    parse: parseCsvCatalog
+  }
+}
+
+/**
+ * 交换文件中使用的 BCP 47 语言代码，如 zh_CN -> zh-CN
+ */
+function toLanguageTag(config: ForgeI18nConfig, locale: string): string {
+  return config.languages.map[locale]?.code ?? locale.replace(/_/g, '-')
+}
+
+function resolveLocale(config: ForgeI18nConfig, language: string | undefined): string | undefined {
+  if (!language) return undefined
+  const normalized = language.replace(/-/g, '_').toLowerCase()
+  return getTranslationLocales(config).find(
+    (locale) =>
+      locale.toLowerCase() === normalized || toLanguageTag(config, locale).toLowerCase() === language.toLowerCase()
+  )
+}
+
+function describeLocations(detail: TranslationDetail | undefined): string[] {
+  if (detail?.occurrences?.length) {
+    return detail.occurrences.map((item) => `${item.file}:${item.line}`)
+  }
+  return detail?.context ? [detail.context] : []
+}
+
+/**
+ * 汇总一个目标语言的原文、译文、译者说明、引用位置与审校状态
+ */
+function buildCatalog(
+  config: ForgeI18nConfig,
+  locale: string,
+  sourceData: Record<string, string>,
+  details: Record<string, TranslationDetail>
+): ExchangeCatalog {
+  const targetData = readLocaleFile(config.getOutputPath(locale)) ?? {}
+  const meta = readLocaleMeta(config, locale)
+  const outdatedKeys = new Set(findOutdatedKeys(sourceData, targetData, meta))
+
+  return {
+    sourceLocale: config.languages.source,
+    locale,
+    sourceLanguage: toLanguageTag(config, config.languages.source),
+    targetLanguage: toLanguageTag(config, locale),
+    original: `${config.namespace}.json`,
+    units: Object.entries(sourceData).map(([key, source]) => {
+      const target = targetData[key]
+      return {
+        key,
+        source,
+        target: typeof target === 'string' ? target : '',
+        notes: details[key]?.notes ?? [],
+        locations: describeLocations(details[key]),
+        ...(meta[key]?.status ? { status: meta[key].status } : {}),
+        ...(outdatedKeys.has(key) ? { outdated: true } : {})
+      }
+    })
+  }
+}
+
+function getFormatHandler(format: ExchangeFormat): ExchangeFormatHandler {
+  const handler = FORMATS[format]
+  if (!handler) {
+    throw new Error(`不支持的交换格式: ${format}，支持的格式: ${Object.keys(FORMATS).join(', ')}`)
+  }
+  return handler
+}
+
+/**
+ * 导出各目标语言的交换文件。XLIFF 与 PO 每个语言一个文件：`<outDir>/<locale>.xlf`、`<outDir>/<locale>.po`，
+ * PO 格式另外生成源语言模板 `<outDir>/<namespace>.pot`；CSV 全部语言写入 `<outDir>/<namespace>.csv`
+ */
+export async function exportTranslations(options: ExportOptions): Promise<ExportResult> {
+  const config = options.config ?? getConfig()
+  setActiveConfig(config)
+
+  const handler = getFormatHandler(options.format)
+
+  const sourceData = readSourceData(config)
+  const details = readSourceDetails(config)
+  const outDir = path.resolve(config.projectRoot, options.outDir ?? DEFAULT_OUT_DIR)
+  fs.mkdirSync(outDir, { recursive: true })
+
+  const source = buildCatalog(config, config.languages.source, sourceData, details)
+  const targets = getTranslationLocales(config, options.locales).map((locale) =>
+    buildCatalog(config, locale, sourceData, details)
+  )
+  const files: string[] = []
+  const write = (name: string, content: string) => {
+    const file = path.join(outDir, name)
+    fs.writeFileSync(file, content, 'utf-8')
+    files.push(file)
+  }
+
+  if (handler.template) {
+    write(`${config.namespace}${handler.template.extension}`, handler.template.serialize(source))
+  }
+  if (handler.combined) {
+    write(`${config.namespace}${handler.extensions[0]}`, handler.serialize(targets, source, options))
+  } else {
+    targets.forEach((catalog) =>
+      write(`${catalog.locale}${handler.extensions[0]}`, handler.serialize([catalog], source, options))
+    )
+  }
+
+  return { format: options.format, files }
+}
+
+function detectFormat(file: string): ExchangeFormat {
+  const extension = path.extname(file).toLowerCase()
+  const format = (Object.keys(FORMATS) as ExchangeFormat[]).find((item) =>
+    FORMATS[item].extensions.includes(extension)
+  )
+  if (!format) {
+    throw new Error(`无法根据扩展名判断导入格式: ${file}，请使用 --format 指定`)
+  }
+  return format
+}
+
+
+/** 一个目标语言的导入状态 */
+interface LocaleImport {
+  locale: string
+  targetPath: string
+  targetData: Record<string, unknown>
+  meta: LocaleMeta
+  /** 通过校验、等待写入的译文 */
+  candidates: Array<{ unit: ParsedExchangeUnit; source: string; status: TranslationStatus }>
+}
+
+function matchesRevision(text: string, hash: string): boolean {
+  return hashSourceText(text).startsWith(hash)
+}
+
+/**
+ * 把交换文件中的译文写回目标语言文件与元数据
+ */
+export async function importTranslations(options: ImportOptions): Promise<ImportResult> {
+  const config = options.config ?? getConfig()
+  setActiveConfig(config)
+
+  const file = path.resolve(config.projectRoot, options.file)
+  if (!fs.existsSync(file)) {
+    throw new Error(`导入文件不存在: ${file}`)
+  }
+  const format = options.format ?? detectFormat(file)
+  const handler = getFormatHandler(format)
+  const catalogs = handler.parse(fs.readFileSync(file, 'utf-8'), config.languages.source)
+  if (options.locale && catalogs.length > 1) {
+    throw new Error(`导入文件包含多个语言，不能指定目标语言: ${file}`)
+  }
+
+  const sourceData = readSourceData(config)
+  const details = readSourceDetails(config)
+  const reviewedAt = new Date().toISOString()
+
+  const updated: ImportedEntry[] = []
+  const skipped: SkippedImportEntry[] = []
+  const conflicts: ImportConflict[] = []
+  // 任一语言译文不合格的 key，其他语言的译文也不导入
+  const invalidKeys = new Set<string>()
+  const reportedSourceEdits = new Set<string>()
+
+  const ignoredColumns: string[] = []
+
+  const imports = catalogs.flatMap((catalog): LocaleImport[] => {
+    const locale = options.locale ?? resolveLocale(config, catalog.targetLanguage)
+    if (!locale || !getTranslationLocales(config).includes(locale)) {
+      // 表格中的备注等列不对应任何目标语言，忽略并在结果中列出
+      if (handler.combined && catalog.targetLanguage) {
+        ignoredColumns.push(catalog.targetLanguage)
+        return []
+      }
+      throw new Error(
+        `无法确定导入的目标语言: ${options.locale ?? catalog.targetLanguage ?? '未声明'}，请使用 --locale 指定 languages.targets 中的语言`
+      )
+    }
+
+    const targetPath = config.getOutputPath(locale)
+    const targetData = readLocaleFile(targetPath) ?? {}
+    const meta = readLocaleMeta(config, locale)
+    const categories = getPluralCategories(toLanguageTag(config, locale))
+    const candidates: LocaleImport['candidates'] = []
+    const skip = (key: string, reason: string) => skipped.push({ locale, key, reason })
+
+    for (const unit of catalog.units) {
+      const { key, target, status } = unit
+      if (unit.sourceEdited) {
+        if (!reportedSourceEdits.has(key)) {
+          reportedSourceEdits.add(key)
+          skipped.push({ locale: config.languages.source, key, reason: '原文须在源码中修改后重新提取' })
+        }
+        continue
+      }
+      if (!target.trim()) continue
+      // 文件记录了导出时的指纹时，只导入在文件中修改过的译文
+      if (unit.baseHash !== undefined && matchesRevision(target, unit.baseHash)) continue
+
+      const source = sourceData[key]
+      if (source === undefined) {
+        skip(key, 'key 在源语言文件中不存在')
+        continue
+      }
+      if (unit.source !== undefined && unit.source !== source) {
+        skip(key, '导出后原文已修改，请重新导出')
+        continue
+      }
+      if (meta[key]?.status === 'locked' && targetData[key] !== target) {
+        skip(key, '译文已锁定')
+        continue
+      }
+
+      const current = typeof targetData[key] === 'string' ? (targetData[key] as string) : ''
+      if (unit.baseHash !== undefined && current !== target && !matchesRevision(current, unit.baseHash)) {
+        conflicts.push({ locale, key, incoming: target, current })
+        continue
+      }
+
+      const validation = validateTranslation(source, target, {
+        plurals: categories.length > 1 ? details[key]?.plurals : undefined,
+        categories
+      })
+      if (!validation.valid) {
+        invalidKeys.add(key)
+        skip(key, validation.reason ?? '译文不合格')
+        continue
+      }
+
+      // 修改过的人工译文没有标记状态时视为已审校；未修改的译文只在文件明确标记为已审校，
+      // 或去掉了导出时的待审校标记时更新状态，锁定的保持不变
+      if (current !== target) {
+        candidates.push({ unit, source, status: status ?? 'reviewed' })
+        continue
+      }
+      const existing = meta[key]
+      if (existing?.status === 'locked') continue
+      const outdated = existing !== undefined && existing.sourceHash !== hashSourceText(source)
+      const pending = existing !== undefined && isPendingReview(existing.status, outdated)
+      const confirmed = status === 'reviewed' || (unit.pendingCleared === true && pending)
+      if (confirmed && (existing?.status !== 'reviewed' || outdated)) {
+        candidates.push({ unit, source, status: 'reviewed' })
+      }
+    }
+
+    return [{ locale, targetPath, targetData, meta, candidates }]
+  })
+
+  for (const { locale, targetPath, targetData, meta, candidates } of imports) {
+    let changed = false
+    for (const { unit, source, status } of candidates) {
+      const { key, target } = unit
+      if (invalidKeys.has(key)) {
+        skipped.push({ locale, key, reason: '同一 key 在其他语言的译文不合格' })
+        continue
+      }
+
+      targetData[key] = target
+      meta[key] = {
+        sourceHash: hashSourceText(source),
+        status,
+        ...(status === 'reviewed' ? { reviewedAt } : {})
+      }
+      updated.push({ locale, key })
+      changed = true
+    }
+
+    if (!options.dryRun && changed) {
+      fs.mkdirSync(path.dirname(targetPath), { recursive: true })
+      fs.writeFileSync(targetPath, JSON.stringify(targetData, null, 2), 'utf-8')
+      writeLocaleMeta(config, locale, meta)
+    }
+  }
+
+  return { format, file, updated, skipped, conflicts, ignoredColumns, dryRun: options.dryRun ?? false }
+}
@@ -0,0 +1,174 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+
+import type { ForgeI18nConfig, TransformStats, TranslationDetail, TranslationOccurrence } from '../types.js'
+import type { UnresolvedRuntimeCall } from './runtime-target.js'
+
+// 缓存结构变化时递增，使旧缓存整体失效
+const CACHE_VERSION = 4
+
+/** 单个文件的提取统计 */
+export interface ExtractFileStats {
+  extracted: number
+  skipped: number
+  dataConstants: number
+  topLevelConstants: TransformStats['topLevelConstants']
+  unresolvedCalls: UnresolvedRuntimeCall[]
+}
+
+interface ExtractCacheEntry {
+  hash: string
+  entries: Record<string, TranslationDetail>
+  // key -> 该文件中的引用位置
+  occurrences: Record<string, TranslationOccurrence[]>
+  // 命中缓存时重放到提取报告、顶层常量提醒与未定义调用的警告中
+  stats?: ExtractFileStats
+}
+
+interface ExtractCacheStore {
+  version: number
+  configHash: string
+  files: Record<string, ExtractCacheEntry>
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex')
+}
+
+/**
+ * 计算影响提取结果的配置指纹，函数与正则按源码参与计算
+ */
+export function createConfigHash(config: ForgeI18nConfig): string {
+  const relevant = {
+    version: CACHE_VERSION,
+    source: config.languages.source,
+    namespace: config.namespace,
+    keyGeneration: { ...config.keyGeneration, ai: { ...config.keyGeneration.ai, cache: undefined } },
+    skipFunctionCalls: config.skipFunctionCalls,
+    sourceTextDetection: config.sourceTextDetection,
+    runtime: config.runtime
+  }
+
+  const serialized = JSON.stringify(relevant, (_key, value) => {
+    if (typeof value === 'function' || value instanceof RegExp) {
+      return String(value)
+    }
+    return value
+  })
+
+  return hashContent(serialized)
+}
+
+/**
+ * 增量提取缓存：按文件内容哈希记录每个文件提取出的翻译条目。
+ * 内容与配置均未变化的文件直接复用缓存条目，无需重新解析。
+ */
+export class ExtractCache {
+  private readonly filePath: string
+  private readonly projectRoot: string
+  private readonly configHash: string
+  private readonly enabled: boolean
+  private readonly reuse: boolean
+  private previous: Record<string, ExtractCacheEntry> = {}
+  private next: Record<string, ExtractCacheEntry> = {}
+
+  /**
+   * @param options.reuse 为 false 时不读取已有缓存（全量扫描），但仍会在结束时刷新缓存
+   */
+  constructor(config: ForgeI18nConfig, options: { reuse?: boolean } = {}) {
+    this.filePath = config.paths.extractCache
+    this.projectRoot = config.projectRoot
+    this.configHash = createConfigHash(config)
+    this.enabled = config.extractCache?.enabled !== false
+    this.reuse = this.enabled && options.reuse !== false
+  }
+
+  get isEnabled(): boolean {
+    return this.reuse
+  }
+
+  load(): void {
+    this.previous = {}
+    this.next = {}
+    if (!this.reuse || !fs.existsSync(this.filePath)) return
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as ExtractCacheStore
+      if (data?.version === CACHE_VERSION && data.configHash === this.configHash && data.files) {
+        this.previous = data.files
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.warn('警告: 加载提取缓存失败:', error.message)
+      }
+    }
+  }
+
+  private toCacheKey(file: string): string {
+    return path.relative(this.projectRoot, file).split(path.sep).join('/')
+  }
+
+  /**
+   * 内容未变化时返回缓存条目，并保留到本次写入的缓存中
+   */
+  get(file: string, content: string): ExtractCacheEntry | null {
+    if (!this.reuse) return null
+
+    const cacheKey = this.toCacheKey(file)
+    const entry = this.previous[cacheKey]
+    if (!entry || entry.hash !== hashContent(content)) return null
+
+    this.next[cacheKey] = entry
+    return entry
+  }
+
+  /**
+   * 在任意文件的旧缓存中查找 key 对应的翻译条目（用于文件变更后保留已转换文案）
+   */
+  findEntry(key: string): TranslationDetail | undefined {
+    for (const entry of Object.values(this.previous)) {
+      if (Object.prototype.hasOwnProperty.call(entry.entries, key)) {
+        return entry.entries[key]
+      }
+    }
+    return undefined
+  }
+
+  set(
+    file: string,
+    content: string,
+    entries: Record<string, TranslationDetail>,
+    occurrences: Record<string, TranslationOccurrence[]> = {},
+    stats?: ExtractFileStats
+  ): void {
+    if (!this.enabled) return
+    this.next[this.toCacheKey(file)] = {
+      hash: hashContent(content),
+      entries,
+      occurrences,
+      ...(stats ? { stats } : {})
+    }
+  }
+
+  save(): void {
+    if (!this.enabled) return
+
+    try {
+      const dir = path.dirname(this.filePath)
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true })
+      }
+      const store: ExtractCacheStore = {
+        version: CACHE_VERSION,
+        configHash: this.configHash,
+        files: this.next
+      }
+      fs.writeFileSync(this.filePath, JSON.stringify(store, null, 2), 'utf-8')
+    } catch (error) {
+      if (error instanceof Error) {
+        console.warn('警告: 保存提取缓存失败:', error.message)
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * 并行提取的 worker 线程入口：在独立的翻译字典上转换单个文件，
+ * 并按顺序记录对字典的全部写入，交由主线程按文件顺序回放。
+ */
+
+import { parentPort, workerData } from 'node:worker_threads'
+
+import { createConfig, setActiveConfig } from '../config/index.js'
+import { transformFile } from './file-processor.js'
+import { getKeyLocation } from './translation-index.js'
+import type { ForgeUserConfig, TranslationValue } from '../types.js'
+
+const { config: serializedConfig, projectRoot } = workerData as { config: ForgeUserConfig; projectRoot: string }
+const config = createConfig(serializedConfig, { cwd: projectRoot })
+setActiveConfig(config)
+
+parentPort?.on('message', async ({ file }: { file: string }) => {
+  const writes: Array<[string, TranslationValue]> = []
+  const translations = new Proxy<Record<string, TranslationValue>>(
+    {},
+    {
+      set(target, key, value) {
+        writes.push([String(key), value])
+        target[String(key)] = value
+        return true
+      }
+    }
+  )
+
+  try {
+    const result = await transformFile(file, translations, config)
+    const locations = writes.map(([key]) => getKeyLocation(translations, key) ?? null)
+    parentPort?.postMessage({ result, writes, locations })
+  } catch (error) {
+    parentPort?.postMessage({ error: error instanceof Error ? error.message : String(error) })
+  }
+})
@@ -8,6 +8,10 @@ import { glob } from 'glob'
 import { getConfig, setActiveConfig } from '../config/index.js'
 import { transformFile } from './file-processor.js'
 import { detectKeyCollisions, generateKeyReport } from './key-generator.js'
+import { createUnifiedDiff, diffTranslationKeys } from '../utils/diff.js'
+import { ExtractCache } from './extract-cache.js'
+import { createParallelTransformer, getDefaultConcurrency } from './parallel-transform.js'
+import { setTranslation } from './translation-index.js'
 
 function hasReusableTranslation(value) {
   if (value === null || value === undefined) return false
@@ -32,6 +36,46 @@ function toSimpleTranslations(translations) {
   return result
 }
 
+/**
+ * 按文件 -> key 分组的引用位置
+ */
+function groupOccurrences(occurrences, file) {
+  const grouped = {}
+  for (const { key, ...location } of occurrences) {
+    grouped[key] = [...(grouped[key] ?? []), { file, ...location }]
+  }
+  return grouped
+}
+
+/**
+ * 为详情文件中的条目附加全部引用位置（按文件路径顺序排列）与译者说明
+ */
+function toDetailEntries(translations, files, occurrencesByFile) {
+  const occurrences = {}
+  for (const file of files) {
+    for (const [key, items] of Object.entries(occurrencesByFile.get(file) ?? {})) {
+      occurrences[key] = [...(occurrences[key] ?? []), ...items]
+    }
+  }
+
+  const result = {}
+  for (const [key, value] of Object.entries(translations)) {
+    if (typeof value === 'string') {
+      result[key] = value
+      continue
+    }
+    const keyOccurrences = occurrences[key] ?? []
+    const notes = Array.from(new Set(keyOccurrences.map((item) => item.note).filter(Boolean)))
+    result[key] = { ...value, occurrences: keyOccurrences, ...(notes.length > 0 ? { notes } : {}) }
+  }
+  return result
+}
+
+function formatKeyLocation(location) {
+  if (!location.file) return '未知位置'
+  return location.line === null ? location.file : `${location.file}:${location.line}:${location.column}`
+}
+
 async function runPostCommands(commands, cwd, logger) {
   if (!Array.isArray(commands) || commands.length === 0) return
 
@@ -53,16 +97,37 @@ export async function extract(options = {}) {
   setActiveConfig(config)
   const cwd = options.cwd ? path.resolve(options.cwd) : config.projectRoot
   const logger = options.logger ?? console
+  const dryRun = options.dryRun === true
 
   const translations = {}
+  const occurrencesByFile = new Map()
   const fileStats = {}
   const topLevelConstantsReport = []
 
+  /**
+   * 记录单个文件的统计、顶层常量与未定义的调用；命中缓存的文件重放缓存中的统计
+   */
+  const recordFileStats = (file, stats) => {
+    const relativeFile = path.relative(cwd, file)
+    fileStats[file] = stats
+    for (const item of stats.topLevelConstants ?? []) {
+      topLevelConstantsReport.push({ file: relativeFile, ...item })
+    }
+    // 未配置 runtime.import 时（如 react-intl 预设），组件外的调用没有可用的实例
+    for (const call of stats.unresolvedCalls ?? []) {
+      logger.warn(
+        `⚠ ${relativeFile}:${call.line ?? '?'} 的 ${call.callee} 未定义，组件外的文案需要通过 runtime.import 指向项目中的实例`
+      )
+    }
+  }
+
   const files = await glob(config.input, {
     cwd,
     ignore: config.ignore,
     absolute: true
   })
+  // 固定处理顺序，保证 key 复用与输出不受文件系统遍历顺序影响
+  files.sort()
 
   if (files.length === 0) {
     logger.log('未找到任何待处理文件')
@@ -70,41 +135,97 @@ export async function extract(options = {}) {
       filesProcessed: 0,
       changedFiles: [],
       collisions: [],
-      errors: []
+      errors: [],
+      ...(dryRun ? { dryRun, diffs: [], localeDiffs: [] } : {})
+    }
+  }
+
+  logger.log(`找到 ${files.length} 个文件，开始处理...${dryRun ? '（dry-run，不写入文件）' : ''}`)
+
+  const cache = new ExtractCache(config, { reuse: options.cache !== false })
+  cache.load()
+
+  // 先合并命中缓存的文件条目，后续解析的文件可复用其中的 key
+  const pendingFiles = []
+  let cacheHits = 0
+  for (const file of files) {
+    let cached = null
+    try {
+      cached = cache.get(file, fs.readFileSync(file, 'utf-8'))
+    } catch (error) {
+      cached = null
+    }
+    if (!cached) {
+      pendingFiles.push(file)
+      continue
+    }
+    cacheHits += 1
+    occurrencesByFile.set(file, cached.occurrences)
+    if (cached.stats) recordFileStats(file, cached.stats)
+    for (const [key, detail] of Object.entries(cached.entries)) {
+      if (!Object.prototype.hasOwnProperty.call(translations, key)) {
+        setTranslation(translations, key, detail)
+      }
     }
   }
 
-  logger.log(`找到 ${files.length} 个文件，开始处理...`)
+  if (cache.isEnabled && cacheHits > 0) {
+    logger.log(`增量缓存命中 ${cacheHits} 个文件，仅解析 ${pendingFiles.length} 个变更文件`)
+  }
 
   const results = []
   const changedFiles = []
   const errors = []
+  const diffs = []
+  const localeDiffs = []
 
-  for (const file of files) {
+  const concurrency = options.concurrency ?? config.concurrency ?? getDefaultConcurrency()
+  const parallel = createParallelTransformer(pendingFiles, config, concurrency)
+
+  for (const file of pendingFiles) {
     try {
-      const result = await transformFile(file, translations, config)
+      const originalCode = fs.readFileSync(file, 'utf-8')
+      const result = parallel
+        ? await parallel.transform(file, translations)
+        : await transformFile(file, translations, config)
       if (!result) {
+        cache.set(file, originalCode, {})
         results.push({ file, skipped: true })
         continue
       }
 
       const { extracted = 0, dataConstants = 0, topLevelConstants = [] } = result.stats
-      fileStats[file] = result.stats
-
-      if (topLevelConstants.length > 0) {
-        topLevelConstants.forEach((item) => {
-          topLevelConstantsReport.push({
-            file: path.relative(cwd, file),
-            ...item
-          })
-        })
+      recordFileStats(file, result.stats)
+      const fileOccurrences = groupOccurrences(result.occurrences ?? [], path.relative(cwd, file))
+      occurrencesByFile.set(file, fileOccurrences)
+
+      const fileEntries = {}
+      for (const key of result.keys ?? []) {
+        // 已转换的 key 在本次运行中不会再被收集，从旧缓存中找回其原文
+        const detail = translations[key] ?? cache.findEntry(key)
+        if (detail === undefined) continue
+        setTranslation(translations, key, detail)
+        fileEntries[key] = detail
       }
 
       if (extracted === 0 && dataConstants === 0 && topLevelConstants.length === 0) {
+        cache.set(file, originalCode, fileEntries, fileOccurrences, result.stats)
         continue
       }
 
-      fs.writeFileSync(file, result.code, 'utf-8')
+      if (dryRun) {
+        const relativeFile = path.relative(cwd, file)
+        const diff = createUnifiedDiff(originalCode, result.code, {
+          oldLabel: `a/${relativeFile}`,
+          newLabel: `b/${relativeFile}`
+        })
+        if (diff) {
+          diffs.push({ file: relativeFile, diff })
+        }
+      } else {
+        fs.writeFileSync(file, result.code, 'utf-8')
+        cache.set(file, result.code, fileEntries, fileOccurrences, result.stats)
+      }
       changedFiles.push(file)
       results.push({ file, stats: result.stats })
     } catch (error) {
@@ -114,9 +235,24 @@ export async function extract(options = {}) {
     }
   }
 
-  logger.log(`文件处理完成，写入翻译文件...`)
-
-  const collisions = detectKeyCollisions(translations)
+  // 单个文件的异常已在循环内捕获，这里总能关闭线程池
+  await parallel?.close()
+
+  logger.log(dryRun ? '文件处理完成，计算翻译文件差异...' : '文件处理完成，写入翻译文件...')
+
+  const collisions = detectKeyCollisions(translations).map((collision) => ({
+    ...collision,
+    locations: collision.locations.map((location) => ({
+      ...location,
+      file: location.file && path.relative(cwd, location.file)
+    }))
+  }))
+  for (const collision of collisions) {
+    const [first, second] = collision.locations.map(formatKeyLocation)
+    logger.warn(
+      `⚠ key 冲突: ${collision.key} 已用于 "${collision.texts[0]}" (${first})，"${collision.texts[1]}" (${second}) 改用 ${collision.resolvedKey}`
+    )
+  }
   const keyReport = generateKeyReport(translations)
 
   const translationsSimple = toSimpleTranslations(translations)
@@ -124,7 +260,6 @@ export async function extract(options = {}) {
 
   for (const lang of config.languages.targets) {
     const outputPath = config.getOutputPath(lang)
-    ensureDirectory(outputPath)
 
     let existingTranslations = {}
     if (fs.existsSync(outputPath)) {
@@ -159,19 +294,51 @@ export async function extract(options = {}) {
       }
     }
 
+    const relativePath = path.relative(cwd, config.getOutputPath(lang, { absolute: true }))
+
+    if (dryRun) {
+      localeDiffs.push({
+        locale: lang,
+        file: relativePath,
+        ...diffTranslationKeys(existingTranslations, mergedTranslations)
+      })
+      continue
+    }
+
+    ensureDirectory(outputPath)
     fs.writeFileSync(outputPath, JSON.stringify(mergedTranslations, null, 2), 'utf-8')
 
-    const normalized = config.normalizeLocaleCode(lang)
     const newKeysCount = Object.keys(translationsSimple).filter(
       (key) => !Object.prototype.hasOwnProperty.call(existingTranslations, key)
     ).length
-    const relativePath = path.relative(cwd, config.getOutputPath(lang, { absolute: true }))
     logger.log(`✓ ${relativePath}${newKeysCount > 0 ? ` (+${newKeysCount} 新增)` : ''}`)
   }
 
+  if (dryRun) {
+    logger.log('dry-run 完成，未写入任何文件。')
+
+    return {
+      filesProcessed: files.length,
+      changedFiles,
+      collisions,
+      errors,
+      keyReport,
+      dryRun,
+      diffs,
+      localeDiffs,
+      cache: { enabled: cache.isEnabled, hits: cacheHits, misses: pendingFiles.length }
+    }
+  }
+
+  cache.save()
+
   const detailPath = config.getOutputDetailPath(sourceLang)
   ensureDirectory(detailPath)
-  fs.writeFileSync(detailPath, JSON.stringify(translations, null, 2), 'utf-8')
+  fs.writeFileSync(
+    detailPath,
+    JSON.stringify(toDetailEntries(translations, files, occurrencesByFile), null, 2),
+    'utf-8'
+  )
   logger.log(`✓ ${path.relative(cwd, detailPath)}`)
 
   const reportPath = config.getOutputReportPath(sourceLang)
@@ -194,6 +361,7 @@ export async function extract(options = {}) {
         },
         keyReport,
         fileStats,
+        collisions: collisions.length > 0 ? collisions : undefined,
         errors:
           errors.length > 0
             ? errors.map((e) => ({ file: path.relative(cwd, e.file), message: e.error.message }))
@@ -250,6 +418,7 @@ export async function extract(options = {}) {
     changedFiles,
     collisions,
     errors,
-    keyReport
+    keyReport,
+    cache: { enabled: cache.isEnabled, hits: cacheHits, misses: pendingFiles.length }
   }
 }
@@ -13,29 +13,37 @@ import { getConfig } from '../config/index.js'
 import { generateKey } from './key-generator.js'
 import { generateAIKeysBatch, buildSafeFallbackKey } from './ai-key-generator.js'
 import { identifyTextType } from './common-utils.js'
+import { isSourceText } from './text-detection.js'
 import {
   parseTemplateLiteral,
   createIntlGetCallExpression,
+  createRichTextCallExpression,
   shouldSkipNode,
   getFunctionName,
   shouldSkipFunctionCall,
   getObjectPropertyKey,
   extractValue,
   isIntlGetCall,
-  buildTemplateLiteralFromBinaryExpression
+  buildTemplateLiteralFromBinaryExpression,
+  collectKeyReferences,
+  createTranslationDetail
 } from './ast-utils.js'
+import { claimTranslationKey, findReusableKey, getKeyCollisions } from './translation-index.js'
+import { applyRuntimeTarget, getTranslationCallKey } from './runtime-target.js'
+import { snapshotAST, printWithMinimalEdits } from './source-printer.js'
+import { hasFileDisableDirective, isIgnoredNode, markIgnoredNodes } from './comment-directives.js'
+import {
+  flattenRichTextGroup,
+  getRichTextElements,
+  isInlineElement,
+  markRichText,
+  normalizeJSXTextContent
+} from './rich-text.js'
 
 const traverseFn: typeof traverse = (traverse as unknown as { default?: typeof traverse }).default ?? traverse
 const generateFn: typeof generate = (generate as unknown as { default?: typeof generate }).default ?? (generate as unknown as typeof generate)
 
-// 中文正则
-const CHINESE_REGEX = /[\u4e00-\u9fa5]/
-
-function normalizeJSXTextContent(value = '') {
-  return value.replace(/\r?\n\s*/g, '')
-}
-
-function buildTemplateExpressionFromGroup(group) {
+function buildTemplateExpressionFromGroup(group, firstNode, lastNode) {
   let buffer = ''
   const quasis = []
   const expressions = []
@@ -61,16 +69,24 @@ function buildTemplateExpressionFromGroup(group) {
 
   pushQuasi(buffer)
 
-  return t.jsxExpressionContainer(t.templateLiteral(quasis, expressions))
+  // 沿用原始子节点的位置信息，便于后续按位置匹配与报告行列号
+  const templateLiteral = t.templateLiteral(quasis, expressions)
+  templateLiteral.start = firstNode.start
+  templateLiteral.end = lastNode.end
+  templateLiteral.loc = firstNode.loc && lastNode.loc
+    ? { start: firstNode.loc.start, end: lastNode.loc.end }
+    : null
+
+  return t.jsxExpressionContainer(templateLiteral)
 }
 
-function mergeJSXTextWithExpressions(ast) {
+function mergeJSXTextWithExpressions(ast, richText) {
   traverseFn(ast, {
     JSXElement(path) {
-      path.node.children = mergeChildren(path.node.children)
+      path.node.children = mergeChildren(path.node.children, richText)
     },
     JSXFragment(path) {
-      path.node.children = mergeChildren(path.node.children)
+      path.node.children = mergeChildren(path.node.children, richText)
     }
   })
 }
@@ -92,13 +108,24 @@ function fileContainsJSX(ast) {
   return hasJSX
 }
 
-function mergeChildren(children) {
+/**
+ * 合并 JSX 子节点中相邻的文本与插值；配置 richText 时行内元素（a、strong、自定义组件等）一并合并为富文本
+ */
+function mergeChildren(children, richText) {
   if (!Array.isArray(children) || children.length === 0) {
     return children
   }
 
   const newChildren = []
   let index = 0
+  const isInline = (node) => Boolean(richText) && isInlineElement(node, richText)
+  const hasSourceText = (node) => {
+    let found = false
+    t.traverseFast(node, (current) => {
+      if (t.isJSXText(current) && isSourceText(normalizeJSXTextContent(current.value))) found = true
+    })
+    return found
+  }
 
   while (index < children.length) {
     const child = children[index]
@@ -108,7 +135,7 @@ function mergeChildren(children) {
       t.isJSXExpressionContainer(child) &&
       !t.isJSXEmptyExpression(child.expression)
 
-    if (!isText && !isExpression) {
+    if (!isText && !isExpression && !isInline(child)) {
       newChildren.push(child)
       index += 1
       continue
@@ -118,6 +145,7 @@ function mergeChildren(children) {
     let cursor = index
     let hasChinese = false
     let hasExpression = false
+    let hasElement = false
 
     while (cursor < children.length) {
       const current = children[cursor]
@@ -125,7 +153,7 @@ function mergeChildren(children) {
       if (t.isJSXText(current)) {
         const normalized = normalizeJSXTextContent(current.value)
         group.push({ type: 'text', value: normalized })
-        if (normalized && CHINESE_REGEX.test(normalized)) {
+        if (normalized && isSourceText(normalized)) {
           hasChinese = true
         }
         cursor += 1
@@ -142,6 +170,14 @@ function mergeChildren(children) {
         continue
       }
 
+      if (isInline(current)) {
+        group.push({ type: 'element', node: current })
+        hasElement = true
+        hasChinese ||= hasSourceText(current)
+        cursor += 1
+        continue
+      }
+
       break
     }
 
@@ -149,8 +185,17 @@ function mergeChildren(children) {
       (item) => item.type === 'text' && item.value.trim().length > 0
     )
 
-    if (hasChinese && hasExpression && hasMeaningfulText) {
-      newChildren.push(buildTemplateExpressionFromGroup(group))
+    // 含被注释指令忽略的节点时不合并，保留原始子节点供后续跳过
+    const hasIgnoredNode = children.slice(index, cursor).some(isIgnoredNode)
+
+    if (hasChinese && hasElement && hasMeaningfulText && !hasIgnoredNode) {
+      const { items, elements } = flattenRichTextGroup(group, richText)
+      const container = buildTemplateExpressionFromGroup(items, child, children[cursor - 1])
+      markRichText(container.expression, elements)
+      newChildren.push(container)
+      index = cursor
+    } else if (hasChinese && hasExpression && hasMeaningfulText && !hasIgnoredNode && !hasElement) {
+      newChildren.push(buildTemplateExpressionFromGroup(group, child, children[cursor - 1]))
       index = cursor
     } else {
       newChildren.push(child)
@@ -228,6 +273,17 @@ export function inferContext(filePath) {
   return 'common'
 }
 
+function parseSource(code, filePath) {
+  return parse(code, {
+    sourceType: 'module',
+    plugins: ['jsx', 'typescript', 'decorators-legacy'],
+    sourceFilename: filePath,
+    errorRecovery: true,
+    ranges: true,
+    tokens: true
+  })
+}
+
 /**
  * 解析文件并创建 AST
  * @param {string} filePath - 文件路径
@@ -238,14 +294,7 @@ function parseFileToAST(filePath) {
   const context = inferContext(filePath)
   const fileType = detectFileType(filePath)
 
-  const ast = parse(code, {
-    sourceType: 'module',
-    plugins: ['jsx', 'typescript', 'decorators-legacy'],
-    sourceFilename: filePath,
-    errorRecovery: true,
-    ranges: true,
-    tokens: true
-  })
+  const ast = parseSource(code, filePath)
 
   const containsJSX = fileContainsJSX(ast)
   /**
@@ -257,18 +306,21 @@ function parseFileToAST(filePath) {
 }
 
 /**
- * 处理 import 语句添加
+ * 处理 import 语句添加并输出代码
  * @param {Object} ast - AST 对象
  * @param {Object} flags - import 标志
- * @param {boolean} isDataFile - 是否为数据文件
- * @param {string} fileType - 文件类型
+ * @param {string} code - 原始源码
+ * @param {WeakMap} snapshot - 转换前的 AST 快照
+ * @param {Object} runtime - runtime 配置，决定翻译调用形式、hook 与 import
+ * @param {Object} stats - 文件统计，记录无法解析 runtime.callee 的调用位置
+ * @returns {string} 输出代码（仅改写变更节点，无法安全改写时整文件重新生成）
  */
-function handleImportsAndGenerate(ast, flags) {
+function handleImportsAndGenerate(ast, flags, code, snapshot, runtime, stats) {
   if (flags.needsIntlImport) {
-    addImports(ast, flags)
+    stats.unresolvedCalls = applyRuntimeTarget(ast, runtime)
   }
 
-  const output = generateFn(ast, {
+  const generatorOptions = {
     retainLines: false,
     compact: false,
     concise: false,
@@ -276,72 +328,59 @@ function handleImportsAndGenerate(ast, flags) {
     jsescOption: {
       minimal: true // 保留 Unicode 字符，不转义为 \uXXXX
     }
-  })
+  }
 
-  return output.code
+  const minimal = printWithMinimalEdits(code, ast, snapshot, generatorOptions)
+  if (minimal !== null) {
+    return minimal
+  }
+
+  return generateFn(ast, generatorOptions).code
 }
 
 /**
- * 收集文本并生成 keys（支持 AI 和非 AI 模式）
+ * 收集文件中所有待提取的中文文本（只读，不修改 AST）
  * @param {Object} ast - AST 对象
  * @param {string} context - 文件上下文
  * @param {string} filePath - 文件路径
  * @param {string} fileType - 文件类型
  * @param {boolean} isDataFile - 是否为数据文件
- * @param {Object} translations - 翻译字典
- * @param {boolean} useAI - 是否使用 AI 模式
- * @returns {Promise<Array>} 带有生成 key 的文本列表
+ * @returns {Array} 文本列表（含节点位置与行列号）
  */
-async function collectAndGenerateKeys(
-  ast,
-  context,
-  filePath,
-  fileType,
-  isDataFile,
-  translations,
-  useAI,
-  config
-) {
+function collectSourceTexts(ast, context, filePath, fileType, isDataFile) {
   const textsToTranslate = []
 
-  // 第一遍: 收集所有中文文本
+  const createItem = (node, text, type, vars) => ({
+    text,
+    type,
+    nodeStart: node.start,
+    nodeEnd: node.end,
+    line: node.loc?.start?.line ?? null,
+    column: node.loc?.start?.column ?? null,
+    ...(vars ? { vars } : {})
+  })
+
   traverseFn(ast, {
     JSXText(path) {
       if (isDataFile) return
       const text = path.node.value.trim()
-      if (!text || !CHINESE_REGEX.test(text) || shouldSkipNode(path)) return
+      if (!text || !isSourceText(text) || shouldSkipNode(path)) return
       // 使用 node 的位置作为唯一标识
-      textsToTranslate.push({
-        text,
-        type: 'jsx-text',
-        nodeStart: path.node.start,
-        nodeEnd: path.node.end
-      })
+      textsToTranslate.push(createItem(path.node, text, 'jsx-text'))
     },
     TemplateLiteral(path) {
       if (shouldSkipNode(path) || path.parentPath.isObjectProperty()) return
       const result = parseTemplateLiteral(path.node)
-      if (!CHINESE_REGEX.test(result.text)) return
-      textsToTranslate.push({
-        text: result.text,
-        type: 'template',
-        nodeStart: path.node.start,
-        nodeEnd: path.node.end,
-        vars: result.vars
-      })
+      if (!isSourceText(result.text)) return
+      textsToTranslate.push(createItem(path.node, result.text, 'template', result.vars))
     },
     StringLiteral(path) {
       const text = path.node.value
-      if (!CHINESE_REGEX.test(text) || shouldSkipNode(path)) return
+      if (!isSourceText(text) || shouldSkipNode(path)) return
       if (path.findParent((p) => p.isBinaryExpression({ operator: '+' }))) return
       const extracted = extractValue(path.node, context, filePath, fileType, {}, 0)
       if (extracted?.hasExtraction) {
-        textsToTranslate.push({
-          text,
-          type: 'string',
-          nodeStart: path.node.start,
-          nodeEnd: path.node.end
-        })
+        textsToTranslate.push(createItem(path.node, text, 'string'))
       }
     },
     BinaryExpression(path) {
@@ -353,32 +392,55 @@ async function collectAndGenerateKeys(
       if (!conversion) return
 
       const result = parseTemplateLiteral(conversion.templateLiteral)
-      if (!CHINESE_REGEX.test(result.text)) return
-
-      textsToTranslate.push({
-        text: result.text,
-        type: 'binary',
-        nodeStart: path.node.start,
-        nodeEnd: path.node.end,
-        vars: result.vars
-      })
+      if (!isSourceText(result.text)) return
+
+      textsToTranslate.push(createItem(path.node, result.text, 'binary', result.vars))
     }
   })
 
+  return textsToTranslate
+}
+
+// 收集项的列号从 0 开始，报告中统一从 1 开始
+function getItemLocation(item, filePath) {
+  return {
+    file: filePath,
+    line: item.line,
+    column: item.column === null ? null : item.column + 1
+  }
+}
+
+/**
+ * 收集文本并生成 keys（支持 AI 和非 AI 模式）
+ * @param {Object} ast - AST 对象
+ * @param {string} context - 文件上下文
+ * @param {string} filePath - 文件路径
+ * @param {string} fileType - 文件类型
+ * @param {boolean} isDataFile - 是否为数据文件
+ * @param {Object} translations - 翻译字典
+ * @param {boolean} useAI - 是否使用 AI 模式
+ * @returns {Promise<Array>} 带有生成 key 的文本列表
+ */
+async function collectAndGenerateKeys(
+  ast,
+  context,
+  filePath,
+  fileType,
+  isDataFile,
+  translations,
+  useAI,
+  config
+) {
+  // 第一遍: 收集所有中文文本
+  const textsToTranslate = collectSourceTexts(ast, context, filePath, fileType, isDataFile)
+
   // 防止重复：先检查文本是否已存在
   const newTexts = []
   const existingKeys = []
 
   for (const item of textsToTranslate) {
     // 查找是否已有相同文本和相同插值变量的 key
-    const existingKey = Object.entries(translations).find(([_key, value]) => {
-      const existingText = typeof value === 'string' ? value : value.text
-      const existingVars = typeof value === 'string' ? [] : (value.interpolations || [])
-      const currentVars = item.vars?.map((v) => v.name) || []
-      // 文本相同且插值变量相同才能复用
-      return existingText === item.text &&
-             JSON.stringify(existingVars.sort()) === JSON.stringify(currentVars.sort())
-    })?.[0]
+    const existingKey = findReusableKey(translations, item.text, item.vars?.map((v) => v.name) || [])
 
     if (existingKey) {
       // 复用已有 key
@@ -417,24 +479,22 @@ async function collectAndGenerateKeys(
           const key = keys[batchIndex]
           // 验证 key 的有效性
           if (key && typeof key === 'string' && key.length > 0 && !/^(null|undefined)$/i.test(key)) {
-            const fullKey = `${context}.${key}`
-            translations[fullKey] = {
-              text: item.text,
-              context: filePath,
-              interpolations: item.vars?.map((v) => v.name) || []
-            }
-            item.key = fullKey
+            item.key = claimTranslationKey(
+              translations,
+              `${context}.${key}`,
+              createTranslationDetail(item, filePath),
+              getItemLocation(item, filePath)
+            )
           } else {
             // AI 生成失败，使用降级策略
             if (fallbackToSemantic) {
               console.warn(`警告: AI 生成无效 key: "${key}", 降级到语义化策略, 文本: "${item.text.substring(0, 20)}..."`)
-              const safeFallbackKey = `${context}.${buildSafeFallbackKey(item.text, config)}`
-              translations[safeFallbackKey] = {
-                text: item.text,
-                context: filePath,
-                interpolations: item.vars?.map((v) => v.name) || []
-              }
-              item.key = safeFallbackKey
+              item.key = claimTranslationKey(
+                translations,
+                `${context}.${buildSafeFallbackKey(item.text, config)}`,
+                createTranslationDetail(item, filePath),
+                getItemLocation(item, filePath)
+              )
             } else {
               console.error(`错误: AI 生成失败且未启用降级, 文本: "${item.text.substring(0, 20)}..."`)
             }
@@ -442,18 +502,18 @@ async function collectAndGenerateKeys(
         }
       }
     } else {
-      // 非 AI 模式：逐个生成（但使用 Promise.all 并行）
-      await Promise.all(
-        newTexts.map(async (item) => {
-          const key = await generateKey(item.text, context, { filePath, fileType }, config)
-          translations[key] = {
-            text: item.text,
-            context: filePath,
-            interpolations: item.vars?.map((v) => v.name) || []
-          }
-          item.key = key
-        })
+      // 非 AI 模式：并行生成，再按文本顺序写入，保证冲突后缀的分配是确定的
+      const keys = await Promise.all(
+        newTexts.map((item) => generateKey(item.text, context, { filePath, fileType }, config))
       )
+      newTexts.forEach((item, index) => {
+        item.key = claimTranslationKey(
+          translations,
+          keys[index],
+          createTranslationDetail(item, filePath),
+          getItemLocation(item, filePath)
+        )
+      })
     }
   }
 
@@ -508,86 +568,54 @@ export function isDataConfigFile(filePath) {
 }
 
 /**
- * 添加或更新 import 声明 (优化版：单次遍历)
+ * 只读扫描单个文件，返回仍未提取的中文文本（与 extract 使用相同的收集逻辑）
+ * @param {string} filePath - 文件路径
+ * @returns {Array<{text: string, type: string, line: number|null, column: number|null}>} 命中列表
  */
-function addImports(ast, flags) {
-  if (!flags.needsIntlImport) return
-
-  const importState = {
-    hasIntlImport: false,
-    existingImportPath: null
-  }
-
-  traverseFn(ast, {
-    ImportDeclaration(path) {
-      if (path.node.source.value !== 'react-intl-universal') return
-
-      const defaultSpecifier = path.node.specifiers.find((spec) =>
-        t.isImportDefaultSpecifier(spec)
-      )
-
-      if (defaultSpecifier) {
-        const localName = defaultSpecifier.local.name
-        if (localName === 'intl') {
-          importState.hasIntlImport = true
-        } else {
-          const programBody = path.parentPath.node.body
-          const hasAliasDeclaration = programBody.some(
-            (node) =>
-              t.isVariableDeclaration(node) &&
-              node.declarations.some(
-                (decl) =>
-                  t.isIdentifier(decl.id, { name: 'intl' }) &&
-                  t.isIdentifier(decl.init, { name: localName })
-              )
-          )
-
-          if (!hasAliasDeclaration) {
-            path.insertAfter(
-              t.variableDeclaration('const', [
-                t.variableDeclarator(t.identifier('intl'), t.identifier(localName))
-              ])
-            )
-          }
-
-          importState.hasIntlImport = true
-        }
-        path.stop()
-        return
-      }
-
-      importState.existingImportPath = path
-    }
-  })
-
-  if (importState.hasIntlImport) return
-
-  if (importState.existingImportPath) {
-    importState.existingImportPath.node.specifiers.push(
-      t.importDefaultSpecifier(t.identifier('intl'))
-    )
-    return
-  }
-
-  const importDeclaration = t.importDeclaration(
-    [t.importDefaultSpecifier(t.identifier('intl'))],
-    t.stringLiteral('react-intl-universal')
-  )
+export function scanFile(filePath, config = getConfig()) {
+  const { code, ast, context, isDataFile, fileType } = parseFileToAST(filePath)
+  if (hasFileDisableDirective(ast)) return []
+
+  markIgnoredNodes(ast, code)
+  mergeJSXTextWithExpressions(ast, config.runtime.richText)
+
+  return collectSourceTexts(ast, context, filePath, fileType, isDataFile).map((item) => ({
+    text: item.text,
+    type: item.type,
+    line: item.line,
+    column: item.column
+  }))
+}
 
-  ast.program.body.unshift(importDeclaration)
+/**
+ * 只读扫描单个文件中 intl.get()/intl.getHTML() 的 key 引用
+ * @param {string} filePath - 文件路径
+ * @returns {{keys: string[], occurrences: Array, dynamic: Array<{line: number, column: number, expression: string, prefix: string}>}} 静态 key、其引用位置与动态 key 调用
+ */
+export function scanKeyReferences(filePath) {
+  const { ast } = parseFileToAST(filePath)
+  return collectKeyReferences(ast)
 }
 
 /**
  * 转换单个文件，提取中文文本并替换为 i18n 调用
  * @param {string} filePath - 文件路径
  * @param {Object.<string, {text: string, context: string, interpolations: string[]}>} translations - 全局翻译字典（会被修改）
- * @returns {Promise<{code: string, stats: {extracted: number, skipped: number, dataConstants: number}}>} 转换后的代码和统计信息
+ * @returns {Promise<{code: string, stats: {extracted: number, skipped: number, dataConstants: number}, keys: string[], occurrences: Array, collisions: Array}|null>} 转换后的代码、统计信息、引用的 key 及其在输出代码中的位置、本文件产生的 key 冲突；文件声明 forge-i18n-disable 时返回 null
  */
 export async function transformFile(filePath, translations, config = getConfig()) {
   // 解析文件
-  const { ast, context, isDataFile, fileType } = parseFileToAST(filePath)
+  const { code: sourceCode, ast, context, isDataFile, fileType } = parseFileToAST(filePath)
+  // 在任何转换之前记录原始结构，用于最小化改写输出
+  const snapshot = snapshotAST(ast)
+
+  // forge-i18n-disable：整个文件跳过
+  if (hasFileDisableDirective(ast)) {
+    return null
+  }
 
-  let stats = { extracted: 0, skipped: 0, dataConstants: 0, topLevelConstants: [] }
+  let stats = { extracted: 0, skipped: 0, dataConstants: 0, topLevelConstants: [], unresolvedCalls: [] }
+  const collisionCount = getKeyCollisions(translations).length
 
   // 使用对象以便通过引用修改
   const flags = { needsIntlImport: false }
@@ -595,7 +623,8 @@ export async function transformFile(filePath, translations, config = getConfig()
   // 检查是否需要 AI 模式
   const useAI = config.keyGeneration.strategy === 'ai' && config.keyGeneration.ai.enabled
 
-  mergeJSXTextWithExpressions(ast)
+  markIgnoredNodes(ast, sourceCode)
+  mergeJSXTextWithExpressions(ast, config.runtime.richText)
 
   // 收集文本并批量生成 keys（支持 AI 和非 AI 模式）
   const textsToTranslate = await collectAndGenerateKeys(
@@ -618,7 +647,7 @@ export async function transformFile(filePath, translations, config = getConfig()
       if (isDataFile) return
 
       const text = path.node.value.trim()
-      if (!text || !CHINESE_REGEX.test(text) || shouldSkipNode(path)) {
+      if (!text || !isSourceText(text) || shouldSkipNode(path)) {
         return
       }
 
@@ -674,7 +703,7 @@ export async function transformFile(filePath, translations, config = getConfig()
       if (path.parentPath.isObjectProperty()) return
 
       const result = parseTemplateLiteral(path.node)
-      if (!CHINESE_REGEX.test(result.text)) return
+      if (!isSourceText(result.text)) return
 
       // 使用预生成的 key（通过 node 位置匹配）
       const item = textsToTranslate.find(
@@ -685,7 +714,12 @@ export async function transformFile(filePath, translations, config = getConfig()
       const key = item?.key
       if (!key) return // 如果没找到,跳过
 
-      path.replaceWith(createIntlGetCallExpression(key, result.vars))
+      const elements = getRichTextElements(path.node)
+      path.replaceWith(
+        elements
+          ? createRichTextCallExpression(key, result.vars, elements)
+          : createIntlGetCallExpression(key, result.vars)
+      )
       updateImportStats(fileType, flags, stats)
     },
 
@@ -696,13 +730,7 @@ export async function transformFile(filePath, translations, config = getConfig()
       const { callee, arguments: args } = path.node
 
       // 警告: 跳过翻译调用,防止双重包裹
-      const isIntlGetCall =
-        t.isMemberExpression(callee) &&
-        t.isIdentifier(callee.object, { name: 'intl' }) &&
-        t.isIdentifier(callee.property) &&
-        (callee.property.name === 'get' || callee.property.name === 'getHTML')
-
-      const isTranslationCall = t.isIdentifier(callee, { name: 't' }) || isIntlGetCall
+      const isTranslationCall = t.isIdentifier(callee, { name: 't' }) || isIntlGetCall(callee)
 
       if (isTranslationCall) {
         return // 不提取翻译调用的参数
@@ -837,8 +865,7 @@ export async function transformFile(filePath, translations, config = getConfig()
           !inRuntimeScope && t.isCallExpression(replacement) && isIntlGetCall(replacement.callee)
 
         if (shouldRecordTopLevelIntl) {
-          const intlKeyArg = replacement.arguments?.[0]
-          const intlKey = t.isStringLiteral(intlKeyArg) ? intlKeyArg.value : null
+          const intlKey = getTranslationCallKey(replacement)
           stats.topLevelConstants.push({
             name: id.name,
             intlKey,
@@ -853,8 +880,7 @@ export async function transformFile(filePath, translations, config = getConfig()
 
       if (init && !t.isObjectExpression(init) && !t.isArrayExpression(init)) {
         if (!inRuntimeScope && t.isCallExpression(init) && isIntlGetCall(init.callee)) {
-          const intlKeyArg = init.arguments?.[0]
-          const intlKey = t.isStringLiteral(intlKeyArg) ? intlKeyArg.value : null
+          const intlKey = getTranslationCallKey(init)
           stats.topLevelConstants.push({
             name: id.name,
             intlKey,
@@ -1058,7 +1084,15 @@ export async function transformFile(filePath, translations, config = getConfig()
   })
 
   // 处理 import 并生成最终代码
-  const code = handleImportsAndGenerate(ast, flags)
-
-  return { code, stats }
+  const code = handleImportsAndGenerate(ast, flags, sourceCode, snapshot, config.runtime, stats)
+  // 引用位置以输出代码为准，改写后重新解析
+  const { keys, occurrences } = collectKeyReferences(code === sourceCode ? ast : parseSource(code, filePath))
+
+  return {
+    code,
+    stats,
+    keys,
+    occurrences,
+    collisions: getKeyCollisions(translations).slice(collisionCount)
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * 术语表：指定源语言术语在各目标语言中的译法，以及必须原样保留的品牌名与产品名
+ *
+ * 翻译时只把本批文案中出现的术语写入 prompt，并在译文返回后逐条校验。
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { parseCSV } from '../utils/csv.js'
+import type { ForgeI18nConfig, GlossaryEntries } from '../types.js'
+
+export interface Glossary {
+  entries: GlossaryEntries
+  doNotTranslate: string[]
+}
+
+/** 某个目标语言下与文案相关的术语 */
+export interface GlossaryTerms {
+  terms: Array<{ source: string; target: string }>
+  doNotTranslate: string[]
+}
+
+/**
+ * CSV 术语表：首行为表头，第一列为源语言术语，其余列以语言代码为列名
+ *
+ * ```csv
+ * term,en_US,ja_JP
+ * 工作台,Workbench,ワークベンチ
+ * ```
+ */
+function parseGlossaryCSV(text: string): GlossaryEntries {
+  const [header = [], ...rows] = parseCSV(text)
+  const locales = header.slice(1).map((cell) => cell.trim())
+  const entries: GlossaryEntries = {}
+
+  for (const row of rows) {
+    const term = (row[0] ?? '').trim()
+    if (!term) continue
+
+    const translations: Record<string, string> = {}
+    locales.forEach((locale, index) => {
+      const value = (row[index + 1] ?? '').trim()
+      if (locale && value) translations[locale] = value
+    })
+    entries[term] = translations
+  }
+
+  return entries
+}
+
+function readGlossaryFile(filePath: string): GlossaryEntries {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`术语表文件不存在: ${filePath}`)
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8')
+  if (path.extname(filePath).toLowerCase() === '.csv') {
+    return parseGlossaryCSV(content)
+  }
+
+  const data = JSON.parse(content) as unknown
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`术语表格式错误: ${filePath} 必须是 { 术语: { 语言代码: 译法 } } 对象`)
+  }
+  return data as GlossaryEntries
+}
+
+/**
+ * 读取 translation.glossary 与 translation.doNotTranslate，文件路径相对项目根目录
+ */
+export function loadGlossary(config: ForgeI18nConfig): Glossary {
+  const { glossary, doNotTranslate = [] } = config.translation
+  const entries =
+    typeof glossary === 'string' ? readGlossaryFile(path.resolve(config.projectRoot, glossary)) : (glossary ?? {})
+
+  return { entries, doNotTranslate }
+}
+
+function findTranslation(translations: Record<string, string>, locale: string): string | undefined {
+  return translations[locale] ?? translations[locale.replace('-', '_')] ?? translations[locale.replace('_', '-')]
+}
+
+/**
+ * 取出文案中出现、且在目标语言下有指定译法的术语
+ * @param glossary - 术语表
+ * @param locale - 目标语言
+ * @param texts - 本批原文
+ */
+export function getGlossaryTerms(glossary: Glossary, locale: string, texts: string[]): GlossaryTerms {
+  const appears = (term: string) => texts.some((text) => text.includes(term))
+  const terms: GlossaryTerms['terms'] = []
+
+  for (const [source, translations] of Object.entries(glossary.entries)) {
+    const target = findTranslation(translations ?? {}, locale)
+    if (target && appears(source)) {
+      terms.push({ source, target })
+    }
+  }
+
+  return { terms, doNotTranslate: glossary.doNotTranslate.filter(appears) }
+}
+
+/**
+ * 写入 system prompt 的术语说明，没有相关术语时返回空字符串
+ */
+export function formatGlossaryPrompt({ terms, doNotTranslate }: GlossaryTerms): string {
+  const sections: string[] = []
+  if (terms.length > 0) {
+    const lines = terms.map(({ source, target }) => `- ${source} → ${target}`)
+    sections.push(`术语表（原文中出现以下术语时必须使用指定译法）：\n${lines.join('\n')}`)
+  }
+  if (doNotTranslate.length > 0) {
+    const lines = doNotTranslate.map((term) => `- ${term}`)
+    sections.push(`以下品牌名与产品名不要翻译，在译文中原样保留：\n${lines.join('\n')}`)
+  }
+  return sections.join('\n\n')
+}
+
+/**
+ * 校验译文是否遵循术语表：原文出现的术语须使用指定译法（不区分大小写），不翻译的名称须原样出现
+ * @param original - 原文
+ * @param translated - 译文
+ * @param glossaryTerms - 目标语言下的相关术语
+ * @returns 不合格原因，合格时返回 null
+ */
+export function checkGlossary(original: string, translated: string, glossaryTerms: GlossaryTerms): string | null {
+  const lowerTranslated = translated.toLocaleLowerCase()
+
+  for (const { source, target } of glossaryTerms.terms) {
+    if (original.includes(source) && !lowerTranslated.includes(target.toLocaleLowerCase())) {
+      return `术语未按术语表翻译：${source} → ${target}`
+    }
+  }
+
+  for (const term of glossaryTerms.doNotTranslate) {
+    if (original.includes(term) && !translated.includes(term)) {
+      return `品牌名未原样保留：${term}`
+    }
+  }
+
+  return null
+}
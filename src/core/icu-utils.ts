@@ -0,0 +1,332 @@
+/**
+ * ICU MessageFormat 相关工具
+ *
+ * - 提取阶段：识别模板中表示数量的插值（如 `共${count}条记录`），标记为需要复数变化
+ * - 翻译阶段：按目标语言的 CLDR 规则给出必需的复数类别，并校验译文中的 plural 块
+ * - 占位符统计：校验译文或伪本地化结果是否完整保留了原文的参数
+ */
+
+const PLURAL_CATEGORY_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other']
+
+// 变量名表示数量：count、total、itemCount、list_length 等
+const COUNT_NAME_PATTERN =
+  /^(?:n|count|total|num|number|amount|size|length|qty|quantity)$|(?:Count|Total|Num|Number|Amount|Size|Length|Qty)$|_(?:count|total|num|length|size)$/i
+
+// 紧跟在插值后的量词：{count}条、{n}个
+const CLASSIFIER_PATTERN =
+  /^\s*(?:个|条|项|次|人|位|名|天|日|小时|分钟|秒|周|月|年|件|张|页|篇|行|列|台|份|本|笔|家|种|组|元|岁|首|部|封|座|辆|只|款|批|节|章|字|处|段|把|根|颗|盒|箱|袋|瓶|杯|层|间|所|门|期|届|轮|票|单)/
+
+/**
+ * 模板文本中表示数量、需要按复数变化的插值变量。
+ * 变量名表示数量或插值后紧跟量词时视为计数变量；「第{n}页」这类序数除外
+ * @param text - 含 {name} 占位符的文本
+ * @param names - 插值变量名
+ * @returns 计数变量名（去重，按出现顺序）
+ */
+export function findCountVariables(text: string, names: string[]): string[] {
+  const result: string[] = []
+
+  for (const name of names) {
+    if (result.includes(name)) continue
+
+    const placeholder = `{${name}}`
+    let index = text.indexOf(placeholder)
+    while (index !== -1) {
+      const before = text.slice(0, index)
+      const after = text.slice(index + placeholder.length)
+      const isOrdinal = /第\s*$/.test(before)
+      if (!isOrdinal && (COUNT_NAME_PATTERN.test(name) || CLASSIFIER_PATTERN.test(after))) {
+        result.push(name)
+        break
+      }
+      index = text.indexOf(placeholder, index + placeholder.length)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 目标语言的 CLDR 基数复数类别，如 en -> ['one', 'other']、ja -> ['other']
+ * @param locale - 语言代码，兼容 en_US 与 en-US
+ */
+export function getPluralCategories(locale: string): string[] {
+  try {
+    const categories = new Intl.PluralRules(locale.replace(/_/g, '-')).resolvedOptions().pluralCategories
+    return PLURAL_CATEGORY_ORDER.filter((category) => categories.includes(category as Intl.LDMLPluralRule))
+  } catch (error) {
+    return ['other']
+  }
+}
+
+export interface PluralBlock {
+  /** 复数变量名 */
+  argument: string
+  /** 出现的选择器，如 one、other、=0 */
+  selectors: string[]
+}
+
+/**
+ * 查找与 start 处的左花括号配对的右花括号
+ * @param text - 消息文本
+ * @param start - 左花括号的位置
+ * @returns 右花括号的位置，未闭合时返回 -1
+ */
+export function findClosingBrace(text: string, start: number): number {
+  let depth = 0
+  for (let index = start; index < text.length; index += 1) {
+    if (text[index] === '{') {
+      depth += 1
+    } else if (text[index] === '}') {
+      depth -= 1
+      if (depth === 0) return index
+    }
+  }
+  return -1
+}
+
+function parsePluralOptions(options: string, blocks: PluralBlock[]): string[] {
+  const selectors: string[] = []
+  let index = 0
+
+  while (index < options.length) {
+    const braceIndex = options.indexOf('{', index)
+    if (braceIndex === -1) break
+
+    const selector = options
+      .slice(index, braceIndex)
+      .replace(/offset:\s*\d+/, '')
+      .trim()
+    const end = findClosingBrace(options, braceIndex)
+    if (end === -1) break
+
+    if (selector) selectors.push(selector)
+    collectPluralBlocks(options.slice(braceIndex + 1, end), blocks)
+    index = end + 1
+  }
+
+  return selectors
+}
+
+function collectPluralBlocks(message: string, blocks: PluralBlock[]): void {
+  let index = message.indexOf('{')
+  while (index !== -1) {
+    const end = findClosingBrace(message, index)
+    if (end === -1) return
+
+    const content = message.slice(index + 1, end)
+    const match = content.match(/^\s*([_A-Za-z][_A-Za-z0-9]*)\s*,\s*(plural|select|selectordinal)\s*,([\s\S]*)$/)
+    if (match) {
+      const selectors = parsePluralOptions(match[3], blocks)
+      if (match[2] === 'plural') {
+        blocks.push({ argument: match[1], selectors })
+      }
+    }
+
+    index = message.indexOf('{', end + 1)
+  }
+}
+
+/**
+ * 解析消息中的全部 plural 块（包括嵌套在 select / plural 分支中的）
+ */
+export function findPluralBlocks(message: string): PluralBlock[] {
+  const blocks: PluralBlock[] = []
+  if (typeof message === 'string') {
+    collectPluralBlocks(message, blocks)
+  }
+  return blocks
+}
+
+/**
+ * 校验译文是否为每个计数变量提供了目标语言所需的全部复数类别
+ * @param translated - 译文
+ * @param variables - 计数变量
+ * @param categories - 目标语言的复数类别
+ * @returns 不合格原因，合格时返回 null
+ */
+export function checkPluralCategories(translated: string, variables: string[], categories: string[]): string | null {
+  // 只有 other 一个类别的语言（如日语、韩语）无需 plural 语法
+  if (variables.length === 0 || categories.length <= 1) return null
+
+  const blocks = findPluralBlocks(translated)
+  for (const variable of variables) {
+    const own = blocks.filter((block) => block.argument === variable)
+    if (own.length === 0) {
+      return `缺少 ICU plural：${variable}（需要 ${categories.join(', ')}）`
+    }
+    for (const block of own) {
+      const missing = categories.filter((category) => !block.selectors.includes(category))
+      if (missing.length > 0) {
+        return `plural 缺少复数类别：${variable}（缺少 ${missing.join(', ')}）`
+      }
+    }
+  }
+  return null
+}
+
+const ICU_VARIABLE_NAME_PATTERN = /^[_A-Za-z][_A-Za-z0-9]*$|^\d+$/
+const ICU_SELECT_LIKE_TYPES = new Set(['select', 'plural', 'selectordinal'])
+
+function findFirstTopLevelComma(text: string): number {
+  let depth = 0
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (char === '{') {
+      depth += 1
+    } else if (char === '}') {
+      if (depth > 0) depth -= 1
+    } else if (char === ',' && depth === 0) {
+      return index
+    }
+  }
+  return -1
+}
+
+function collectICUPlaceholders(message: string, counts: Map<string, number>): void {
+  if (typeof message !== 'string' || !message.includes('{')) {
+    return
+  }
+
+  for (let index = 0; index < message.length; index++) {
+    if (message[index] !== '{') continue
+
+    let depth = 0
+    const start = index
+    let end = -1
+
+    for (; index < message.length; index++) {
+      const char = message[index]
+      if (char === '{') {
+        depth += 1
+      } else if (char === '}') {
+        depth -= 1
+        if (depth === 0) {
+          end = index
+          break
+        }
+      }
+    }
+
+    if (end === -1) {
+      break
+    }
+
+    const block = message.slice(start, end + 1)
+    processICUPlaceholderBlock(block, counts)
+  }
+}
+
+function processICUPlaceholderBlock(block: string, counts: Map<string, number>): void {
+  const content = block.slice(1, -1)
+  if (!content) return
+
+  const trimmed = content.trim()
+  if (!trimmed) return
+
+  const splitIndex = findFirstTopLevelComma(trimmed)
+
+  if (splitIndex === -1) {
+    if (ICU_VARIABLE_NAME_PATTERN.test(trimmed)) {
+      counts.set(trimmed, (counts.get(trimmed) ?? 0) + 1)
+    } else {
+      collectICUPlaceholders(trimmed, counts)
+    }
+    return
+  }
+
+  const argName = trimmed.slice(0, splitIndex).trim()
+  const remainder = trimmed.slice(splitIndex + 1).trim()
+
+  if (ICU_VARIABLE_NAME_PATTERN.test(argName)) {
+    counts.set(argName, (counts.get(argName) ?? 0) + 1)
+  }
+
+  if (!remainder) {
+    return
+  }
+
+  const typeSeparatorIndex = findFirstTopLevelComma(remainder)
+  let type = remainder
+  let options = ''
+
+  if (typeSeparatorIndex !== -1) {
+    type = remainder.slice(0, typeSeparatorIndex).trim()
+    options = remainder.slice(typeSeparatorIndex + 1).trim()
+  } else {
+    type = type.trim()
+  }
+
+  if (ICU_SELECT_LIKE_TYPES.has(type)) {
+    processICUSelectLikeOptions(options, counts)
+    return
+  }
+
+  if (options) {
+    collectICUPlaceholders(options, counts)
+  } else {
+    collectICUPlaceholders(type, counts)
+  }
+}
+
+function processICUSelectLikeOptions(options: string, counts: Map<string, number>): void {
+  if (!options) return
+
+  let index = 0
+  const { length } = options
+
+  while (index < length) {
+    while (index < length && /\s/.test(options[index])) {
+      index += 1
+    }
+
+    if (options.slice(index).startsWith('offset:')) {
+      index += 'offset:'.length
+      while (index < length && /\s/.test(options[index])) {
+        index += 1
+      }
+      while (index < length && /[0-9]/.test(options[index])) {
+        index += 1
+      }
+      continue
+    }
+
+    const braceIndex = options.indexOf('{', index)
+    if (braceIndex === -1) {
+      break
+    }
+
+    let depth = 0
+    let cursor = braceIndex
+
+    for (; cursor < length; cursor++) {
+      const char = options[cursor]
+      if (char === '{') {
+        depth += 1
+      } else if (char === '}') {
+        depth -= 1
+        if (depth === 0) {
+          break
+        }
+      }
+    }
+
+    if (depth !== 0) {
+      break
+    }
+
+    const blockContent = options.slice(braceIndex + 1, cursor)
+    collectICUPlaceholders(blockContent, counts)
+
+    index = cursor + 1
+  }
+}
+
+/**
+ * 统计消息中各 ICU 参数出现的次数（包括 select / plural 分支中的参数）
+ */
+export function extractICUVariableCounts(message: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  collectICUPlaceholders(message, counts)
+  return counts
+}
@@ -3,6 +3,7 @@ import crypto from 'node:crypto'
 import { getConfig, setActiveConfig } from '../config/index.js'
 import { generateAIKey, generateAIKeysBatch, buildSafeFallbackKey } from './ai-key-generator.js'
 import { identifyTextType, extractSemantic, extractContextInfo } from './common-utils.js'
+import { getKeyCollisions } from './translation-index.js'
 import type {
   ForgeI18nConfig,
   GenerateKeyBatchInput,
@@ -131,24 +132,11 @@ export function generateKeySync(
   return buildSemanticKey(text, context, hashLength, maxSemanticLength, useTypePrefix, config)
 }
 
+/**
+ * 汇总写入翻译字典时检测到的 key 冲突（不同文案生成了相同 key，已通过序号后缀区分）
+ */
 export function detectKeyCollisions(translations: TranslationCollection): KeyCollision[] {
-  const collisions: KeyCollision[] = []
-  const keyToTexts: Record<string, string[]> = {}
-
-  for (const [key, value] of Object.entries(translations)) {
-    const text = typeof value === 'string' ? value : value.text
-    const bucket = keyToTexts[key] ?? []
-    bucket.push(text)
-    keyToTexts[key] = bucket
-  }
-
-  for (const [key, texts] of Object.entries(keyToTexts)) {
-    if (texts.length > 1) {
-      collisions.push({ key, texts })
-    }
-  }
-
-  return collisions
+  return getKeyCollisions(translations)
 }
 
 export function generateKeyReport(translations: TranslationCollection): KeyReport {
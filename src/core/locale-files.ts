@@ -0,0 +1,68 @@
+/**
+ * 语言文件读取：check、prune、review、translate 与 exchange 共用的语言文件、详情文件与目标语言解析
+ */
+
+import fs from 'node:fs'
+
+import type { ForgeI18nConfig, TranslationDetail } from '../types.js'
+
+/**
+ * 读取语言文件，文件不存在、无法解析或不是对象时返回 null
+ */
+export function readLocaleFile(filePath: string): Record<string, unknown> | null {
+  if (!fs.existsSync(filePath)) return null
+  try {
+    const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    return data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * 读取源语言文件中的文案，忽略非字符串的值
+ * @throws 源语言文件不存在时抛出异常
+ */
+export function readSourceData(config: ForgeI18nConfig): Record<string, string> {
+  const sourceFilePath = config.getOutputPath(config.languages.source)
+  const data = readLocaleFile(sourceFilePath)
+  if (!data) {
+    throw new Error(`源语言文件不存在: ${sourceFilePath}`)
+  }
+
+  const sourceData: Record<string, string> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value === 'string') sourceData[key] = value
+  }
+  return sourceData
+}
+
+function readStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
+
+/**
+ * 读取源语言详情文件中各 key 的条目（译者说明、计数变量与引用位置），文件不存在或无法解析时返回空对象
+ */
+export function readSourceDetails(config: ForgeI18nConfig): Record<string, TranslationDetail> {
+  const data = readLocaleFile(config.getOutputDetailPath(config.languages.source)) ?? {}
+  const details: Record<string, TranslationDetail> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) continue
+    const detail = { ...(value as TranslationDetail) }
+    if (detail.notes !== undefined) detail.notes = readStringList(detail.notes)
+    if (detail.plurals !== undefined) detail.plurals = readStringList(detail.plurals)
+    details[key] = detail
+  }
+  return details
+}
+
+/**
+ * 需要翻译、审校与交换的目标语言：不含源语言与伪本地化语言（后者每次全量生成，不会过期）
+ * @param locales - 只保留其中列出的语言，为空时返回全部
+ */
+export function getTranslationLocales(config: ForgeI18nConfig, locales: string[] = []): string[] {
+  const { source, targets } = config.languages
+  const candidates = targets.filter((lang) => lang !== source && lang !== config.pseudo.locale)
+  return locales.length > 0 ? candidates.filter((lang) => locales.includes(lang)) : candidates
+}
@@ -0,0 +1,108 @@
+/**
+ * 语言文件元数据：在 `<locale>/<namespace>.meta.json` 中按 key 记录译文对应的原文指纹与审校状态。
+ * 原文修改后指纹不再一致，translate 据此只重新翻译原文变化过的条目，check 据此报告过期译文；
+ * 已审校或锁定的译文 translate 不再覆盖。
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { hashContent } from './extract-cache.js'
+import type { ForgeI18nConfig, TranslationStatus } from '../types.js'
+
+// 结构变化时递增，旧版本文件整体忽略
+const META_VERSION = 1
+
+export interface LocaleMetaEntry {
+  /** 翻译时原文的指纹 */
+  sourceHash: string
+  status?: TranslationStatus
+  /** 最近一次审校的时间 */
+  reviewedAt?: string
+}
+
+export type LocaleMeta = Record<string, LocaleMetaEntry>
+
+interface LocaleMetaStore {
+  version: number
+  entries: LocaleMeta
+}
+
+export function hashSourceText(text: string): string {
+  return hashContent(text)
+}
+
+/**
+ * 译者确认过的译文，translate 任何情况下都不覆盖
+ */
+export function isProtectedStatus(status: TranslationStatus | undefined): boolean {
+  return status === 'reviewed' || status === 'locked'
+}
+
+/**
+ * 需要复核的译文：未审校的机器翻译，或原文在翻译之后被修改过。导出到交换文件时标记为待审校
+ */
+export function isPendingReview(status: TranslationStatus | undefined, outdated = false): boolean {
+  return status === 'machine' || status === 'needs-review' || outdated
+}
+
+/**
+ * 读取目标语言的元数据，文件不存在或无法解析时返回空对象
+ */
+export function readLocaleMeta(config: ForgeI18nConfig, locale: string): LocaleMeta {
+  const filePath = config.getOutputMetaPath(locale)
+  if (!fs.existsSync(filePath)) return {}
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LocaleMetaStore
+    if (data?.version === META_VERSION && data.entries && typeof data.entries === 'object') {
+      return data.entries
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.warn(`警告: 读取语言元数据失败 ${filePath}: ${error.message}`)
+    }
+  }
+  return {}
+}
+
+/**
+ * 写入目标语言的元数据，按 key 排序以减少版本库中的无关改动
+ */
+export function writeLocaleMeta(config: ForgeI18nConfig, locale: string, meta: LocaleMeta): void {
+  const filePath = config.getOutputMetaPath(locale)
+  const entries: LocaleMeta = {}
+  for (const key of Object.keys(meta).sort()) {
+    entries[key] = meta[key]
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const store: LocaleMetaStore = { version: META_VERSION, entries }
+  fs.writeFileSync(filePath, JSON.stringify(store, null, 2), 'utf-8')
+}
+
+/**
+ * 已有译文但原文在翻译之后被修改过的 key。没有元数据记录的 key 无法判断，不视为过期
+ * @param sourceData - 源语言文件内容
+ * @param targetData - 目标语言文件内容
+ * @param meta - 目标语言的元数据
+ */
+export function findOutdatedKeys(
+  sourceData: Record<string, unknown>,
+  targetData: Record<string, unknown>,
+  meta: LocaleMeta
+): string[] {
+  return Object.entries(sourceData)
+    .filter(([key, text]) => {
+      const translation = targetData[key]
+      const entry = meta[key]
+      return (
+        typeof text === 'string' &&
+        typeof translation === 'string' &&
+        translation.trim().length > 0 &&
+        entry !== undefined &&
+        entry.sourceHash !== hashSourceText(text)
+      )
+    })
+    .map(([key]) => key)
+}
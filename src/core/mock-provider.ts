@@ -0,0 +1,75 @@
+/**
+ * 离线 mock 接口
+ *
+ * aiProvider.type 为 mock 时不发送网络请求，而是根据调用方附带的任务描述生成确定的结果，
+ * 使提取与翻译流程可以在没有网络与 API Key 的 CI 环境中完整运行。
+ */
+
+import crypto from 'node:crypto'
+
+import type { AITask, ChatMessage } from './ai-provider.js'
+import type { MockProviderConfig } from '../types.js'
+
+function hashText(text: string): string {
+  return crypto.createHash('md5').update(text).digest('hex').slice(0, 8)
+}
+
+// 按术语表替换术语，较长的术语优先，使结果通过术语检查
+function applyGlossary(text: string, glossary: Record<string, string>): string {
+  return Object.keys(glossary)
+    .sort((a, b) => b.length - a.length)
+    .reduce((result, term) => result.split(term).join(glossary[term]), text)
+}
+
+function mockTranslate(text: string, locale: string, mock: MockProviderConfig): string {
+  if (mock.mode === 'echo') return text
+  return `${mock.prefix ?? `[${locale}] `}${text}`
+}
+
+// 逐个计数变量包裹 plural 块，每个类别使用相同的译文
+function wrapPlurals(text: string, variables: string[], categories: string[]): string {
+  return variables.reduce(
+    (message, variable) =>
+      `{${variable}, plural, ${categories.map((category) => `${category} {${message}}`).join(' ')}}`,
+    text
+  )
+}
+
+/**
+ * 生成 mock 响应文本，格式与真实模型对同一任务的输出一致
+ * @param messages - 对话消息，未附带任务描述时原样返回最后一条用户消息
+ * @param task - 调用方附带的任务描述
+ * @param mock - aiProvider.mock 配置
+ */
+export function createMockResponse(
+  messages: ChatMessage[],
+  task: AITask | undefined,
+  mock: MockProviderConfig = {}
+): string {
+  if (!task) {
+    const userMessages = messages.filter((message) => message.role === 'user')
+    return userMessages[userMessages.length - 1]?.content ?? ''
+  }
+
+  if (task.type === 'key') {
+    return `mock_${hashText(task.text)}`
+  }
+
+  if (task.type === 'keys') {
+    return JSON.stringify(task.texts.map((text) => `mock_${hashText(text)}`))
+  }
+
+  const failKeys = new Set(mock.failKeys ?? [])
+  const categories = task.categories ?? ['other']
+  const translations: Record<string, string> = {}
+
+  for (const [key, text] of Object.entries(task.input)) {
+    if (failKeys.has(key)) continue
+
+    const translated = mockTranslate(applyGlossary(text, task.glossary ?? {}), task.locale, mock)
+    const plurals = task.plurals?.[key] ?? []
+    translations[key] = plurals.length > 0 ? wrapPlurals(translated, plurals, categories) : translated
+  }
+
+  return JSON.stringify(translations, null, 2)
+}
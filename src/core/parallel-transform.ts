@@ -0,0 +1,176 @@
+/**
+ * 并行文件转换
+ *
+ * worker 线程并行解析与转换文件，主线程按文件顺序回放各文件对翻译字典的写入。
+ * 非 AI 策略下 key 由文本与上下文唯一确定，因此回放结果与串行执行一致；
+ * 当某个文件需要复用之前文件生成的 key，或生成的 key 已被其它文案占用（需要追加冲突后缀）时，
+ * 在主线程按顺序重新转换该文件。
+ */
+
+import os from 'node:os'
+
+import { transformFile } from './file-processor.js'
+import {
+  claimTranslationKey,
+  deleteTranslation,
+  findReusableKey,
+  recordKeyCollisions
+} from './translation-index.js'
+import { WorkerPool } from './worker-pool.js'
+import type { ForgeI18nConfig, KeyLocation, TranslationValue } from '../types.js'
+
+type TranslationDict = Record<string, TranslationValue>
+type FileTransformResult = Awaited<ReturnType<typeof transformFile>>
+
+interface WorkerTaskResult {
+  result?: FileTransformResult
+  writes?: Array<[string, TranslationValue]>
+  // 与 writes 一一对应的源码位置，用于冲突报告
+  locations?: Array<KeyLocation | null>
+  error?: string
+}
+
+type TaskOutcome = { ok: true; value: WorkerTaskResult } | { ok: false }
+
+export interface ParallelTransformer {
+  transform(file: string, translations: TranslationDict): Promise<FileTransformResult>
+  close(): Promise<void>
+}
+
+// createConfig 生成的函数会在 worker 中重新创建，无需传递
+const GENERATED_CONFIG_FUNCTIONS = new Set([
+  'normalizeLocaleCode',
+  'getOutputPath',
+  'getOutputDetailPath',
+  'getOutputReportPath'
+])
+
+export function getDefaultConcurrency(): number {
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length
+}
+
+/**
+ * 将配置转换为可传递给 worker 的结构化数据；包含自定义函数（如文本识别 test）时返回 null
+ */
+function toWorkerConfig(config: ForgeI18nConfig): Record<string, unknown> | null {
+  let serializable = true
+
+  const strip = (value: unknown): unknown => {
+    if (typeof value === 'function') {
+      serializable = false
+      return undefined
+    }
+    if (Array.isArray(value)) {
+      return value.map(strip)
+    }
+    if (value && Object.prototype.toString.call(value) === '[object Object]') {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, strip(child)]))
+    }
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(config)) {
+    if (GENERATED_CONFIG_FUNCTIONS.has(key)) continue
+    result[key] = strip(value)
+  }
+
+  return serializable ? result : null
+}
+
+/**
+ * 按串行语义回放 worker 记录的写入：写入前的查找命中其它 key 时说明该文件应复用已有 key，
+ * key 已被其它文案占用时说明串行执行会分配不同的冲突后缀，此时撤销已回放的写入并返回 false
+ */
+function replayWrites(
+  translations: TranslationDict,
+  writes: Array<[string, TranslationValue]>,
+  locations: Array<KeyLocation | null> = []
+): boolean {
+  // 回放只写入新 key，撤销时删除即可
+  const written: string[] = []
+
+  const rollback = () => {
+    for (let index = written.length - 1; index >= 0; index -= 1) {
+      deleteTranslation(translations, written[index])
+    }
+    return false
+  }
+
+  for (const [index, [key, value]] of writes.entries()) {
+    const text = typeof value === 'string' ? value : value.text
+    const vars = typeof value === 'string' ? [] : value.interpolations || []
+    const reusableKey = findReusableKey(translations, text, vars)
+
+    if (reusableKey !== undefined) {
+      if (reusableKey === key) continue
+      return rollback()
+    }
+    if (Object.prototype.hasOwnProperty.call(translations, key)) {
+      return rollback()
+    }
+
+    written.push(key)
+    claimTranslationKey(translations, key, value, locations[index] ?? undefined)
+  }
+
+  return true
+}
+
+/**
+ * 创建并行转换器；并发数不大于 1、文件不足两个、启用 AI 策略或配置无法传递给 worker 时返回 null（串行处理）
+ */
+export function createParallelTransformer(
+  files: string[],
+  config: ForgeI18nConfig,
+  concurrency: number
+): ParallelTransformer | null {
+  if (!Number.isFinite(concurrency) || concurrency <= 1 || files.length < 2) return null
+  if (config.keyGeneration.strategy === 'ai' && config.keyGeneration.ai.enabled) return null
+
+  const workerConfig = toWorkerConfig(config)
+  if (!workerConfig) return null
+
+  const pool = new WorkerPool<{ file: string }, WorkerTaskResult>(
+    new URL('./extract-worker.js', import.meta.url),
+    Math.min(concurrency, files.length),
+    { config: workerConfig, projectRoot: config.projectRoot }
+  )
+
+  const outcomes = new Map<string, Promise<TaskOutcome>>()
+  for (const file of files) {
+    outcomes.set(
+      file,
+      pool.run({ file }).then(
+        (value): TaskOutcome => ({ ok: true, value }),
+        (): TaskOutcome => ({ ok: false })
+      )
+    )
+  }
+
+  return {
+    async transform(file, translations) {
+      const pending = outcomes.get(file)
+      outcomes.delete(file)
+      const outcome = pending ? await pending : ({ ok: false } as TaskOutcome)
+
+      // worker 异常、转换出错（需保留串行时的部分写入）或需要复用已有 key 时，在主线程按顺序重新转换
+      if (
+        !outcome.ok ||
+        outcome.value.error !== undefined ||
+        !replayWrites(translations, outcome.value.writes ?? [], outcome.value.locations)
+      ) {
+        return transformFile(file, translations, config)
+      }
+
+      const result = outcome.value.result ?? null
+      if (result) {
+        recordKeyCollisions(translations, result.collisions)
+      }
+      return result
+    },
+    close() {
+      return pool.close()
+    }
+  }
+}
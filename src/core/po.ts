@@ -0,0 +1,190 @@
+/**
+ * Gettext PO / POT 读写
+ *
+ * 每个 key 对应一个条目，msgctxt 为 key，msgid 为原文，msgstr 为译文；
+ * 译者说明写为 `#.` 注释，源码位置写为 `#:` 引用，未审校的机器翻译与原文已修改的译文标记为 fuzzy。
+ * ICU plural 保留在 msgstr 中，不转换为 gettext 的 msgid_plural。
+ */
+
+import { isPendingReview } from './locale-meta.js'
+import type { ExchangeCatalog, ExchangeUnit, ParsedExchangeCatalog, ParsedExchangeUnit } from '../types.js'
+
+interface PoEntry {
+  msgctxt?: string
+  msgid: string
+  msgstr: string
+  flags: string[]
+}
+
+function escapePo(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n')
+}
+
+function unescapePo(text: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' }
+  return text.replace(/\\(.)/g, (match, char: string) => escapes[char] ?? match)
+}
+
+/**
+ * 多行文本按换行拆分为多段字符串，与 msgmerge 的输出一致
+ */
+function renderString(keyword: string, text: string): string[] {
+  if (!text.includes('\n') || text.indexOf('\n') === text.length - 1) {
+    return [`${keyword} "${escapePo(text)}"`]
+  }
+  const lines = text.split(/(?<=\n)/)
+  return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)]
+}
+
+function renderHeader(catalog: ExchangeCatalog, template: boolean): string[] {
+  const headers = [
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    `Language: ${template ? '' : catalog.targetLanguage}`,
+    `X-Source-Language: ${catalog.sourceLanguage}`,
+    `X-Source-File: ${catalog.original}`
+  ]
+  return ['msgid ""', 'msgstr ""', ...headers.map((header) => `"${escapePo(`${header}\n`)}"`)]
+}
+
+function renderEntry(unit: ExchangeUnit, template: boolean): string[] {
+  const lines: string[] = []
+  unit.notes.forEach((note) => note.split('\n').forEach((line) => lines.push(`#. ${line}`)))
+  if (unit.locations.length > 0) {
+    lines.push(`#: ${unit.locations.join(' ')}`)
+  }
+
+  if (!template && unit.target && isPendingReview(unit.status, unit.outdated)) {
+    lines.push('#, fuzzy')
+  }
+
+  lines.push(...renderString('msgctxt', unit.key))
+  lines.push(...renderString('msgid', unit.source))
+  lines.push(...renderString('msgstr', template ? '' : unit.target))
+  return lines
+}
+
+/**
+ * 生成 PO 文件；template 为 true 时生成不含译文的 POT 模板
+ * @param catalog - 一个目标语言的全部译文，生成模板时只使用原文
+ */
+export function serializePo(catalog: ExchangeCatalog, { template = false }: { template?: boolean } = {}): string {
+  const blocks = [renderHeader(catalog, template), ...catalog.units.map((unit) => renderEntry(unit, template))]
+  return `${blocks.map((lines) => lines.join('\n')).join('\n\n')}\n`
+}
+
+function parseQuoted(text: string, lineNumber: number): string {
+  const match = text.trim().match(/^"((?:[^"\\]|\\.)*)"$/)
+  if (!match) {
+    throw new Error(`PO 格式错误: 第 ${lineNumber} 行应为带引号的字符串`)
+  }
+  return unescapePo(match[1])
+}
+
+function parseEntries(content: string): PoEntry[] {
+  const entries: PoEntry[] = []
+  let entry: PoEntry | null = null
+  let field: 'msgctxt' | 'msgid' | 'msgstr' | null = null
+  let flags: string[] = []
+
+  const finish = () => {
+    if (entry) entries.push(entry)
+    entry = null
+    field = null
+  }
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const lineNumber = index + 1
+
+    if (!line) {
+      finish()
+      flags = []
+      return
+    }
+    // #~ 为已废弃的条目
+    if (line.startsWith('#')) {
+      if (field === 'msgstr') finish()
+      if (line.startsWith('#,')) {
+        flags.push(
+          ...line
+            .slice(2)
+            .split(',')
+            .map((flag) => flag.trim())
+            .filter(Boolean)
+        )
+      }
+      return
+    }
+
+    if (line.startsWith('"')) {
+      if (!entry || !field) {
+        throw new Error(`PO 格式错误: 第 ${lineNumber} 行的字符串不属于任何字段`)
+      }
+      entry[field] = (entry[field] ?? '') + parseQuoted(line, lineNumber)
+      return
+    }
+
+    const match = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+(.*)$/)
+    if (!match) {
+      throw new Error(`PO 格式错误: 第 ${lineNumber} 行无法识别: ${line}`)
+    }
+    const [, keyword, value] = match
+
+    if (keyword === 'msgctxt' || (keyword === 'msgid' && field !== 'msgctxt')) {
+      finish()
+      entry = { msgid: '', msgstr: '', flags }
+      flags = []
+    }
+    if (!entry) {
+      throw new Error(`PO 格式错误: 第 ${lineNumber} 行缺少 msgid`)
+    }
+
+    // gettext 复数形式不属于本工具导出的格式，只取第一个 msgstr
+    if (keyword === 'msgid_plural' || /^msgstr\[[1-9]\d*\]$/.test(keyword)) {
+      field = null
+      return
+    }
+    field = keyword.startsWith('msgstr') ? 'msgstr' : (keyword as 'msgctxt' | 'msgid')
+    entry[field] = parseQuoted(value, lineNumber)
+  })
+  finish()
+
+  return entries
+}
+
+function readHeader(msgstr: string, name: string): string | undefined {
+  for (const line of msgstr.split('\n')) {
+    const index = line.indexOf(':')
+    if (index !== -1 && line.slice(0, index).trim().toLowerCase() === name.toLowerCase()) {
+      return line.slice(index + 1).trim() || undefined
+    }
+  }
+  return undefined
+}
+
+/**
+ * 读取 PO 文件中的译文。没有 msgctxt 的条目无法对应 key，予以忽略；fuzzy 条目记为 needs-review，
+ * 其余条目不带状态，只标记已去掉 fuzzy，由导入时按导出时的状态判断是否确认
+ */
+export function parsePo(content: string): ParsedExchangeCatalog {
+  const entries = parseEntries(content)
+  const header = entries.find((entry) => entry.msgctxt === undefined && entry.msgid === '')
+
+  const units: ParsedExchangeUnit[] = entries
+    .filter((entry) => entry.msgctxt !== undefined && entry.msgstr !== '')
+    .map((entry) => ({
+      key: entry.msgctxt ?? '',
+      source: entry.msgid,
+      target: entry.msgstr,
+      ...(entry.flags.includes('fuzzy') ? { status: 'needs-review' as const } : { pendingCleared: true })
+    }))
+
+  return { targetLanguage: header ? readHeader(header.msgstr, 'Language') : undefined, units }
+}
@@ -0,0 +1,136 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { glob } from 'glob'
+
+import { getConfig, setActiveConfig } from '../config/index.js'
+import { scanKeyReferences } from './file-processor.js'
+import { readLocaleFile } from './locale-files.js'
+import { readLocaleMeta, writeLocaleMeta } from './locale-meta.js'
+import type {
+  DynamicKeyReference,
+  ForgeI18nConfig,
+  PruneKeysOptions,
+  PruneOptions,
+  PruneResult,
+  StaleKey,
+  StaleKeyReport
+} from '../types.js'
+
+/**
+ * 所有语言的翻译文件与源语言详情文件
+ */
+function getLocaleFiles(config: ForgeI18nConfig): string[] {
+  const files = config.languages.targets.map((lang) => config.getOutputPath(lang))
+  files.push(config.getOutputDetailPath(config.languages.source))
+  return Array.from(new Set(files)).filter((file) => fs.existsSync(file))
+}
+
+/**
+ * 找出语言文件中存在、但源码中没有任何 intl.get()/intl.getHTML() 引用的 key。
+ * 带静态前缀的动态调用（如 intl.get(`menu.${id}`)）会保护以该前缀开头的 key；
+ * 无法确定前缀的动态调用会使结果标记为不安全。
+ */
+export async function findStaleKeys(options: PruneOptions = {}): Promise<StaleKeyReport> {
+  const config = options.config ?? getConfig()
+  setActiveConfig(config)
+  const cwd = options.cwd ? path.resolve(options.cwd) : config.projectRoot
+
+  const files = await glob(config.input, {
+    cwd,
+    ignore: config.ignore,
+    absolute: true
+  })
+  files.sort()
+
+  const referenced = new Set<string>()
+  const dynamicReferences: DynamicKeyReference[] = []
+  const errors: StaleKeyReport['errors'] = []
+
+  for (const file of files) {
+    try {
+      const { keys, dynamic } = scanKeyReferences(file)
+      keys.forEach((key: string) => referenced.add(key))
+      for (const item of dynamic) {
+        dynamicReferences.push({ file: path.relative(cwd, file), ...item })
+      }
+    } catch (error) {
+      errors.push({ file, error: error instanceof Error ? error : new Error(String(error)) })
+    }
+  }
+
+  const prefixes = dynamicReferences.map((item) => item.prefix).filter(Boolean)
+  const staleKeys = new Map<string, StaleKey>()
+
+  for (const file of getLocaleFiles(config)) {
+    const data = readLocaleFile(file)
+    if (!data) continue
+
+    for (const key of Object.keys(data)) {
+      if (referenced.has(key) || prefixes.some((prefix) => key.startsWith(prefix))) continue
+
+      const entry = staleKeys.get(key) ?? { key, files: [] }
+      entry.files.push(path.relative(cwd, file))
+      staleKeys.set(key, entry)
+    }
+  }
+
+  return {
+    filesScanned: files.length,
+    referencedKeys: referenced.size,
+    staleKeys: Array.from(staleKeys.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    dynamicReferences,
+    safe: errors.length === 0 && dynamicReferences.every((item) => item.prefix.length > 0),
+    errors
+  }
+}
+
+/**
+ * 从所有语言文件与目标语言的元数据中删除指定 key，避免日后复用同名 key 时沿用旧的审校状态
+ */
+export function pruneKeys(keys: string[], options: PruneKeysOptions = {}): PruneResult {
+  const config = options.config ?? getConfig()
+  const cwd = options.cwd ? path.resolve(options.cwd) : config.projectRoot
+  const targets = new Set(keys)
+  const removed = new Set<string>()
+  const changedFiles: string[] = []
+
+  for (const file of getLocaleFiles(config)) {
+    const data = readLocaleFile(file)
+    if (!data) continue
+
+    const next: Record<string, unknown> = {}
+    let changed = false
+    for (const [key, value] of Object.entries(data)) {
+      if (targets.has(key)) {
+        removed.add(key)
+        changed = true
+        continue
+      }
+      next[key] = value
+    }
+
+    if (!changed) continue
+    changedFiles.push(path.relative(cwd, file))
+    if (!options.dryRun) {
+      fs.writeFileSync(file, JSON.stringify(next, null, 2), 'utf-8')
+    }
+  }
+
+  for (const locale of config.languages.targets) {
+    const meta = readLocaleMeta(config, locale)
+    const prunedKeys = Object.keys(meta).filter((key) => targets.has(key))
+    if (prunedKeys.length === 0) continue
+
+    prunedKeys.forEach((key) => delete meta[key])
+    changedFiles.push(path.relative(cwd, config.getOutputMetaPath(locale)))
+    if (!options.dryRun) {
+      writeLocaleMeta(config, locale, meta)
+    }
+  }
+
+  return {
+    removed: keys.filter((key) => removed.has(key)),
+    files: changedFiles
+  }
+}
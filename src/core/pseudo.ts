@@ -0,0 +1,223 @@
+/**
+ * 伪本地化：由源语言文件生成一份「看起来像译文」的语言文件
+ *
+ * 字母替换为带重音的形式、按比例加长并用括号包裹，ICU 参数、plural 选择器与富文本标签原样保留。
+ * 在真正翻译之前即可发现被截断的文案、写死在代码中的文本与字符串拼接。
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { getConfig, setActiveConfig } from '../config/index.js'
+import { extractICUVariableCounts, findClosingBrace } from './icu-utils.js'
+import type { PseudoLocalizationConfig, PseudoOptions, PseudoResult } from '../types.js'
+
+const ACCENTED_CHARS: Record<string, string> = {
+  a: 'å',
+  b: 'ƀ',
+  c: 'ç',
+  d: 'ð',
+  e: 'é',
+  f: 'ƒ',
+  g: 'ĝ',
+  h: 'ĥ',
+  i: 'î',
+  j: 'ĵ',
+  k: 'ķ',
+  l: 'ļ',
+  m: 'ɱ',
+  n: 'ñ',
+  o: 'ö',
+  p: 'þ',
+  q: 'ǫ',
+  r: 'ŕ',
+  s: 'š',
+  t: 'ţ',
+  u: 'û',
+  v: 'ṽ',
+  w: 'ŵ',
+  x: 'ẋ',
+  y: 'ý',
+  z: 'ž',
+  A: 'Å',
+  B: 'Ɓ',
+  C: 'Ç',
+  D: 'Ð',
+  E: 'É',
+  F: 'Ƒ',
+  G: 'Ĝ',
+  H: 'Ĥ',
+  I: 'Î',
+  J: 'Ĵ',
+  K: 'Ķ',
+  L: 'Ļ',
+  M: 'Ṁ',
+  N: 'Ñ',
+  O: 'Ö',
+  P: 'Þ',
+  Q: 'Ǫ',
+  R: 'Ŕ',
+  S: 'Š',
+  T: 'Ţ',
+  U: 'Û',
+  V: 'Ṽ',
+  W: 'Ŵ',
+  X: 'Ẋ',
+  Y: 'Ý',
+  Z: 'Ž'
+}
+
+const PADDING_CHAR = '~'
+
+// 与 rich-text 中的标签写法一致：<0>、</0>、<br/>、<a href="/terms">
+const TAG_PATTERN = /<\/?(?:\d+|[a-z][a-z0-9]*)(?:\s[^<>]*?)?\s*\/?>/y
+
+const SELECT_LIKE_PATTERN = /^(\s*[_A-Za-z0-9]+\s*,\s*(plural|select|selectordinal)\s*,)([\s\S]*)$/
+
+type PseudoSettings = Pick<PseudoLocalizationConfig, 'expansion' | 'brackets'>
+
+function pad(text: string, length: number, settings: PseudoSettings): string {
+  const count = Math.ceil(length * settings.expansion)
+  return count > 0 ? `${text} ${PADDING_CHAR.repeat(count)}` : text
+}
+
+// select / plural 的分支各自是完整的一句，分别替换与加长；选择器与 offset 保持不变
+function transformOptions(options: string, inPlural: boolean, settings: PseudoSettings): string {
+  let result = ''
+  let index = 0
+
+  while (index < options.length) {
+    const braceIndex = options.indexOf('{', index)
+    if (braceIndex === -1) break
+
+    const end = findClosingBrace(options, braceIndex)
+    if (end === -1) break
+
+    const branch = transformMessage(options.slice(braceIndex + 1, end), inPlural, settings)
+    result += `${options.slice(index, braceIndex)}{${pad(branch.text, branch.length, settings)}}`
+    index = end + 1
+  }
+
+  return result + options.slice(index)
+}
+
+function transformArgument(block: string, settings: PseudoSettings): string {
+  const match = block.slice(1, -1).match(SELECT_LIKE_PATTERN)
+  if (!match) return block
+  return `{${match[1]}${transformOptions(match[3], match[2] !== 'select', settings)}}`
+}
+
+/**
+ * 替换消息中的字母，跳过 ICU 参数、标签与 plural 分支中的 #
+ * @returns 替换后的文本与可见文字的长度
+ */
+function transformMessage(
+  message: string,
+  inPlural: boolean,
+  settings: PseudoSettings
+): { text: string; length: number } {
+  let text = ''
+  let length = 0
+  let index = 0
+
+  while (index < message.length) {
+    const char = message[index]
+
+    if (char === '{') {
+      const end = findClosingBrace(message, index)
+      if (end === -1) {
+        text += message.slice(index)
+        break
+      }
+      text += transformArgument(message.slice(index, end + 1), settings)
+      index = end + 1
+      continue
+    }
+
+    if (char === '<') {
+      TAG_PATTERN.lastIndex = index
+      const tag = TAG_PATTERN.exec(message)
+      if (tag) {
+        text += tag[0]
+        index += tag[0].length
+        continue
+      }
+    }
+
+    if (char === '#' && inPlural) {
+      text += char
+    } else {
+      text += ACCENTED_CHARS[char] ?? char
+      if (char.trim()) length += 1
+    }
+    index += 1
+  }
+
+  return { text, length }
+}
+
+/**
+ * 伪本地化单条文案
+ * @param message - 原文，可包含 ICU 参数与富文本标签
+ * @param settings - 加长比例与包裹括号
+ * @returns 伪本地化结果，参数与标签与原文一致
+ */
+export function pseudoLocalize(message: string, settings: PseudoSettings): string {
+  const { text, length } = transformMessage(message, false, settings)
+  const [open, close] = settings.brackets
+  return `${open}${pad(text, length, settings)}${close}`
+}
+
+function hasSamePlaceholders(original: string, pseudo: string): boolean {
+  const expected = extractICUVariableCounts(original)
+  const actual = extractICUVariableCounts(pseudo)
+  return expected.size === actual.size && [...expected].every(([name, count]) => actual.get(name) === count)
+}
+
+/**
+ * 伪本地化整份语言文件
+ * @param sourceData - 语言文件内容
+ * @param settings - 加长比例与包裹括号
+ * @returns key 与原文件一致的伪本地化结果
+ */
+export function pseudoLocalizeMessages(
+  sourceData: Record<string, unknown>,
+  settings: PseudoSettings
+): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(sourceData)) {
+    if (typeof value !== 'string') continue
+
+    const pseudo = pseudoLocalize(value, settings)
+    // 无法正确解析的消息（如花括号不成对）保留原文，避免产生参数不一致的文案
+    result[key] = hasSamePlaceholders(value, pseudo) ? pseudo : value
+  }
+
+  return result
+}
+
+/**
+ * 读取源语言文件，生成伪本地化语言文件
+ */
+export async function pseudo(options: PseudoOptions = {}): Promise<PseudoResult> {
+  const config = options.config ?? getConfig()
+  setActiveConfig(config)
+
+  const from = options.from ?? config.languages.source
+  const locale = options.locale ?? config.pseudo.locale
+
+  const sourceFilePath = config.getOutputPath(from)
+  if (!fs.existsSync(sourceFilePath)) {
+    throw new Error(`源语言文件不存在: ${sourceFilePath}`)
+  }
+
+  const sourceData = JSON.parse(fs.readFileSync(sourceFilePath, 'utf-8')) as Record<string, unknown>
+  const messages = pseudoLocalizeMessages(sourceData, config.pseudo)
+
+  const file = config.getOutputPath(locale)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(messages, null, 2), 'utf-8')
+
+  return { locale, file, entries: Object.keys(messages).length }
+}
@@ -0,0 +1,134 @@
+/**
+ * 译文审校：列出待审校的译文，并把译者的确认、修改或驳回写回语言文件与元数据
+ *
+ * 确认或修改后的译文标记为 reviewed，translate（包括 --force）不再覆盖；
+ * 驳回的译文被清空，下次 translate 时重新翻译。
+ */
+
+import fs from 'node:fs'
+
+import { getConfig, setActiveConfig } from '../config/index.js'
+import { getPluralCategories } from './icu-utils.js'
+import { getTranslationLocales, readLocaleFile, readSourceData, readSourceDetails } from './locale-files.js'
+import { findOutdatedKeys, hashSourceText, readLocaleMeta, writeLocaleMeta } from './locale-meta.js'
+import { validateTranslation } from './translate.js'
+import type { PendingReview, ReviewDecision, ReviewOptions, ReviewResult, TranslationStatus } from '../types.js'
+
+const PENDING_STATUSES: Array<TranslationStatus | undefined> = ['machine', 'needs-review']
+
+/**
+ * 校验译者修改后的译文，规则与 translate、import 相同：占位符、富文本标签与目标语言的复数分支
+ * @param item - 审校的条目
+ * @param translation - 修改后的译文
+ * @returns 不合格原因，合格时返回 null
+ */
+export function validateReviewedTranslation(
+  item: Pick<PendingReview, 'locale' | 'key' | 'source'>,
+  translation: string,
+  options: ReviewOptions = {}
+): string | null {
+  const config = options.config ?? getConfig()
+  const categories = getPluralCategories(config.languages.map[item.locale]?.code ?? item.locale)
+  const plurals = categories.length > 1 ? readSourceDetails(config)[item.key]?.plurals : undefined
+  const { valid, reason } = validateTranslation(item.source, translation, { plurals, categories })
+  return valid ? null : (reason ?? '译文不合格')
+}
+
+/**
+ * 列出待审校的译文：状态为 machine / needs-review 的译文，以及原文已修改的译文（不论状态）
+ */
+export async function findPendingReviews(options: ReviewOptions = {}): Promise<PendingReview[]> {
+  const config = options.config ?? getConfig()
+  setActiveConfig(config)
+
+  const sourceData = readSourceData(config)
+  const pending: PendingReview[] = []
+
+  for (const locale of getTranslationLocales(config, options.locales)) {
+    const targetData = readLocaleFile(config.getOutputPath(locale))
+    if (!targetData) continue
+
+    const meta = readLocaleMeta(config, locale)
+    const outdatedKeys = new Set(findOutdatedKeys(sourceData, targetData, meta))
+
+    for (const [key, source] of Object.entries(sourceData)) {
+      const translation = targetData[key]
+      if (typeof source !== 'string' || typeof translation !== 'string' || !translation.trim()) continue
+
+      const status = meta[key]?.status
+      const outdated = outdatedKeys.has(key)
+      if (!outdated && !PENDING_STATUSES.includes(status)) continue
+
+      pending.push({ locale, key, source, translation, status, outdated })
+    }
+  }
+
+  return pending
+}
+
+/**
+ * 写入审校结果。确认、修改与锁定同时以当前原文更新指纹，译文不再视为过期
+ * @param decisions - 审校操作
+ */
+export function applyReviewDecisions(decisions: ReviewDecision[], options: ReviewOptions = {}): ReviewResult {
+  const config = options.config ?? getConfig()
+  setActiveConfig(config)
+
+  const sourceData = readSourceData(config)
+  const applied: ReviewDecision[] = []
+  const files: string[] = []
+  const reviewedAt = new Date().toISOString()
+
+  const byLocale = new Map<string, ReviewDecision[]>()
+  for (const decision of decisions) {
+    const list = byLocale.get(decision.locale) ?? []
+    list.push(decision)
+    byLocale.set(decision.locale, list)
+  }
+
+  for (const [locale, list] of byLocale) {
+    const filePath = config.getOutputPath(locale)
+    const targetData = readLocaleFile(filePath)
+    if (!targetData) {
+      throw new Error(`语言文件不存在: ${filePath}`)
+    }
+    const meta = readLocaleMeta(config, locale)
+
+    for (const decision of list) {
+      const { key, action } = decision
+      const source = sourceData[key]
+      if (typeof source !== 'string' || !(key in targetData)) {
+        throw new Error(`审校的 key 不存在: ${key} (${locale})`)
+      }
+
+      if (action === 'reject') {
+        targetData[key] = ''
+        delete meta[key]
+        applied.push(decision)
+        continue
+      }
+
+      if (action === 'edit') {
+        const translation = decision.translation ?? ''
+        const issue = validateReviewedTranslation({ locale, key, source }, translation, { config })
+        if (issue) {
+          throw new Error(`译文不合格 [${key}] (${locale}): ${issue}`)
+        }
+        targetData[key] = translation
+      }
+
+      meta[key] = {
+        sourceHash: hashSourceText(source),
+        status: action === 'lock' ? 'locked' : 'reviewed',
+        reviewedAt
+      }
+      applied.push(decision)
+    }
+
+    fs.writeFileSync(filePath, JSON.stringify(targetData, null, 2), 'utf-8')
+    writeLocaleMeta(config, locale, meta)
+    files.push(filePath)
+  }
+
+  return { applied, files }
+}
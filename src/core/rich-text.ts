@@ -0,0 +1,287 @@
+/**
+ * 富文本 JSX：文本中夹杂行内元素时整体提取为一条文案
+ *
+ * 如 `请阅读<a href="/terms">服务条款</a>后继续` 不再拆成三段分别翻译。标签在文案中的写法由 runtime.richText 决定：
+ * - html：标签连同静态属性原样写入文案，由 intl.getHTML 等函数渲染，仅适用于原生行内标签
+ * - component：标签写为 `<0>服务条款</0>` 形式的编号占位，由 Trans 等组件按编号插入对应元素
+ */
+
+import * as t from '@babel/types'
+
+import { isIgnoredNode } from './comment-directives.js'
+import type { RuntimeRichTextConfig } from '../types.js'
+
+type JSXChild = t.JSXElement['children'][number]
+
+export type RichTextGroupItem =
+  | { type: 'text'; value: string }
+  | { type: 'expression'; expression: t.Expression }
+  | { type: 'element'; node: t.JSXElement }
+
+export type RichTextItem = Exclude<RichTextGroupItem, { type: 'element' }>
+
+const INLINE_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'bdo',
+  'br',
+  'cite',
+  'code',
+  'del',
+  'dfn',
+  'em',
+  'i',
+  'ins',
+  'kbd',
+  'mark',
+  'q',
+  's',
+  'samp',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'time',
+  'u',
+  'var',
+  'wbr'
+])
+
+// 不含子节点的行内标签
+const VOID_TAGS = new Set(['br', 'wbr'])
+
+const HTML_ATTRIBUTE_NAMES: Record<string, string> = { className: 'class', htmlFor: 'for' }
+
+// 事件、引用与样式对象无法写入 HTML 文案
+const UNSAFE_ATTRIBUTE_PATTERN = /^(?:on[A-Z].*|key|ref|style|dangerouslySetInnerHTML)$/
+
+const TAG_PATTERN = /<\/?(?:\d+|[a-z][a-z0-9]*)(?:\s[^<>]*?)?\s*\/?>/g
+
+// 合并得到的模板字符串 -> 按编号排列的行内元素（html 模式为空数组）
+const richTextElements = new WeakMap<t.TemplateLiteral, t.JSXElement[]>()
+
+/**
+ * JSX 文本中的换行与随后的缩进不属于文案
+ */
+export function normalizeJSXTextContent(value = ''): string {
+  return value.replace(/\r?\n\s*/g, '')
+}
+
+function getElementName(node: t.JSXOpeningElement['name']): string | null {
+  if (t.isJSXIdentifier(node)) return node.name
+  if (t.isJSXMemberExpression(node)) {
+    const objectName = getElementName(node.object)
+    return objectName === null ? null : `${objectName}.${node.property.name}`
+  }
+  return null
+}
+
+function isIntrinsicName(name: string): boolean {
+  return /^[a-z][a-z0-9]*$/.test(name)
+}
+
+function getStaticAttributeValue(attribute: t.JSXAttribute): string | true | null {
+  const { value } = attribute
+  if (value === null) return true
+  if (t.isStringLiteral(value)) return value.value
+  if (t.isJSXExpressionContainer(value) && t.isStringLiteral(value.expression)) return value.expression.value
+  return null
+}
+
+function isSafeHTMLAttribute(attribute: t.JSXOpeningElement['attributes'][number]): boolean {
+  if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name)) return false
+  if (UNSAFE_ATTRIBUTE_PATTERN.test(attribute.name.name)) return false
+  const value = getStaticAttributeValue(attribute)
+  // 属性值中的花括号会被当作 ICU 参数解析
+  return value === true || (typeof value === 'string' && !/[{}<>]/.test(value))
+}
+
+function containsJSX(node: t.Node): boolean {
+  let found = false
+  t.traverseFast(node, (child) => {
+    if (t.isJSX(child)) found = true
+  })
+  return found
+}
+
+function hasContent(children: JSXChild[]): boolean {
+  return children.some(
+    (child) =>
+      (t.isJSXText(child) && child.value.trim().length > 0) ||
+      (t.isJSXExpressionContainer(child) && !t.isJSXEmptyExpression(child.expression)) ||
+      t.isJSXElement(child)
+  )
+}
+
+function isRichTextChild(child: JSXChild, richText: RuntimeRichTextConfig): boolean {
+  if (isIgnoredNode(child)) return false
+  if (t.isJSXText(child)) return true
+  if (t.isJSXExpressionContainer(child)) {
+    return t.isJSXEmptyExpression(child.expression) || !containsJSX(child.expression)
+  }
+  return isInlineElement(child, richText)
+}
+
+/**
+ * 元素能否作为行内元素并入富文本文案：原生行内标签或（component 模式下）自定义组件，
+ * 子节点只含文本、插值与行内元素；html 模式下属性必须是可写入 HTML 的静态值
+ * @param {Object} node - JSX 子节点
+ * @param {Object} richText - runtime.richText 配置
+ * @returns {boolean}
+ */
+export function isInlineElement(node: t.Node, richText: RuntimeRichTextConfig): node is t.JSXElement {
+  if (!t.isJSXElement(node) || isIgnoredNode(node)) return false
+
+  const name = getElementName(node.openingElement.name)
+  if (!name) return false
+
+  const intrinsic = isIntrinsicName(name)
+  if (intrinsic ? !INLINE_TAGS.has(name) : richText.mode === 'html') return false
+  if (richText.mode === 'html' && !node.openingElement.attributes.every(isSafeHTMLAttribute)) return false
+
+  if (VOID_TAGS.has(name)) return node.children.length === 0
+  // 不含文案的元素（如 <Icon />）不视为行内元素
+  return hasContent(node.children) && node.children.every((child) => isRichTextChild(child, richText))
+}
+
+function escapeAttributeValue(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+function formatHTMLAttributes(attributes: t.JSXOpeningElement['attributes']): string {
+  return attributes
+    .filter((attribute): attribute is t.JSXAttribute => t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name))
+    .map((attribute) => {
+      const attributeName = (attribute.name as t.JSXIdentifier).name
+      const name = HTML_ATTRIBUTE_NAMES[attributeName] ?? attributeName
+      const value = getStaticAttributeValue(attribute)
+      return value === true ? ` ${name}` : ` ${name}="${escapeAttributeValue(value ?? '')}"`
+    })
+    .join('')
+}
+
+/**
+ * 将合并组中的行内元素展开为标签文本
+ * @param {Array<{type: 'text'|'expression'|'element'}>} group - 合并组（element 项带有 node）
+ * @param {Object} richText - runtime.richText 配置
+ * @returns {{items: Array<{type: 'text'|'expression'}>, elements: Object[]}} 可生成模板字符串的片段与按编号排列的元素
+ */
+export function flattenRichTextGroup(
+  group: RichTextGroupItem[],
+  richText: RuntimeRichTextConfig
+): { items: RichTextItem[]; elements: t.JSXElement[] } {
+  const items: RichTextItem[] = []
+  const elements: t.JSXElement[] = []
+  const pushText = (value: string) => items.push({ type: 'text', value })
+
+  const visitChildren = (children: JSXChild[]) => {
+    children.forEach((child) => {
+      if (t.isJSXText(child)) {
+        pushText(normalizeJSXTextContent(child.value))
+      } else if (t.isJSXExpressionContainer(child)) {
+        if (!t.isJSXEmptyExpression(child.expression)) {
+          items.push({ type: 'expression', expression: child.expression })
+        }
+      } else if (t.isJSXElement(child)) {
+        visitElement(child)
+      }
+    })
+  }
+
+  const visitElement = (node: t.JSXElement) => {
+    const name = getElementName(node.openingElement.name)
+
+    if (richText.mode === 'html') {
+      const attributes = formatHTMLAttributes(node.openingElement.attributes)
+      if (VOID_TAGS.has(name)) {
+        pushText(`<${name}${attributes}/>`)
+        return
+      }
+      pushText(`<${name}${attributes}>`)
+      visitChildren(node.children)
+      pushText(`</${name}>`)
+      return
+    }
+
+    const index = elements.length
+    elements.push(node)
+    if (VOID_TAGS.has(name)) {
+      pushText(`<${index}/>`)
+      return
+    }
+    pushText(`<${index}>`)
+    visitChildren(node.children)
+    pushText(`</${index}>`)
+  }
+
+  group.forEach((item) => {
+    if (item.type === 'element') {
+      visitElement(item.node)
+    } else {
+      items.push(item)
+    }
+  })
+
+  return { items, elements }
+}
+
+/**
+ * 标记由富文本合并得到的模板字符串
+ */
+export function markRichText(templateLiteral: t.TemplateLiteral, elements: t.JSXElement[]): void {
+  richTextElements.set(templateLiteral, elements)
+}
+
+/**
+ * 富文本模板字符串对应的行内元素；非富文本返回 undefined
+ * @param {Object} node - TemplateLiteral 节点
+ * @returns {Object[]|undefined}
+ */
+export function getRichTextElements(node: t.Node): t.JSXElement[] | undefined {
+  return t.isTemplateLiteral(node) ? richTextElements.get(node) : undefined
+}
+
+function getTagName(tag: string): string {
+  return tag.match(/^<\/?(\w+)/)?.[1] ?? ''
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/\s+/g, ' ').replace(/\s*(\/?)>$/, '$1>')
+}
+
+/**
+ * 校验译文是否完整保留了原文中的标签（允许调整顺序），且开闭标签正确嵌套
+ * @param {string} original - 原文
+ * @param {string} translated - 译文
+ * @returns {string|null} 不合格原因，合格时返回 null
+ */
+export function checkRichTextTags(original: string, translated: string): string | null {
+  const expected = (original.match(TAG_PATTERN) ?? []).map(normalizeTag)
+  if (expected.length === 0) return null
+
+  const actual = (translated.match(TAG_PATTERN) ?? []).map(normalizeTag)
+  const counts = new Map<string, number>()
+  expected.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  actual.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) - 1))
+
+  for (const [tag, count] of counts) {
+    if (count > 0) return `标签缺失：${tag}`
+    if (count < 0) return `多出标签：${tag}`
+  }
+
+  const stack: string[] = []
+  for (const tag of actual) {
+    if (tag.endsWith('/>')) continue
+    if (!tag.startsWith('</')) {
+      stack.push(getTagName(tag))
+      continue
+    }
+    if (stack.pop() !== getTagName(tag)) {
+      return `标签嵌套错误：${tag}`
+    }
+  }
+  return null
+}
@@ -0,0 +1,522 @@
+/**
+ * 运行时目标：决定提取后生成的翻译调用形式
+ *
+ * 由 runtime 配置描述生成与识别的调用（intl.get / t / i18n.t / $t / intl.formatMessage 等）、
+ * 需要插入的 import、在函数组件中注入的 hook（如 useTranslation）、JSX 文案使用的组件（如 FormattedMessage）
+ * 以及富文本文案的渲染方式（intl.getHTML 或 Trans 等组件）。
+ * 提取阶段统一生成 runtime.callee 调用，转换结束后由 applyRuntimeTarget 按所在位置改写为 hook 调用或 JSX 组件。
+ */
+
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import type { NodePath } from '@babel/traverse'
+
+import { getConfig } from '../config/index.js'
+import type {
+  RuntimeConfig,
+  RuntimeHookConfig,
+  RuntimeImportConfig,
+  RuntimeJSXConfig,
+  RuntimeRichTextConfig
+} from '../types.js'
+
+type FunctionPath = NodePath<t.FunctionDeclaration | t.FunctionExpression | t.ArrowFunctionExpression>
+
+type TranslationElementConfig = RuntimeJSXConfig | RuntimeRichTextConfig
+
+/** 组件外的调用所需的 runtime.callee 无法解析（未配置 runtime.import 且文件中没有对应绑定） */
+export interface UnresolvedRuntimeCall {
+  callee: string
+  line: number | null
+}
+
+// @babel/traverse 为 CommonJS 模块，ESM 下默认导入得到的是 module.exports
+const traverseFn = ((traverse as unknown as { default?: unknown }).default ?? traverse) as typeof traverse.default
+
+// 本次转换生成的翻译调用，仅改写这些节点，不触碰源码中已有的调用
+const generatedCalls = new WeakSet<t.CallExpression>()
+
+// 生成的富文本调用 -> 按编号排列的行内元素
+const richTextCalls = new WeakMap<t.CallExpression, t.JSXElement[]>()
+
+// 函数组件（首字母大写）与自定义 hook（useXxx）
+const COMPONENT_NAME_PATTERN = /^(?:[A-Z]|use[A-Z0-9])/
+
+const calleeNamesCache = new WeakMap<RuntimeConfig, Set<string>>()
+
+function getRuntime(runtime?: RuntimeConfig): RuntimeConfig {
+  return runtime ?? getConfig().runtime
+}
+
+function getRootName(name: string): string {
+  return name.split('.')[0]
+}
+
+function buildCallee(name: string): t.Identifier | t.MemberExpression {
+  const [root, ...members] = name.split('.')
+  return members.reduce<t.Identifier | t.MemberExpression>(
+    (object, member) => t.memberExpression(object, t.identifier(member)),
+    t.identifier(root)
+  )
+}
+
+function buildJSXName(name: string): t.JSXIdentifier | t.JSXMemberExpression {
+  const [root, ...members] = name.split('.')
+  return members.reduce<t.JSXIdentifier | t.JSXMemberExpression>(
+    (object, member) => t.jsxMemberExpression(object, t.jsxIdentifier(member)),
+    t.jsxIdentifier(root)
+  )
+}
+
+/**
+ * 获取 callee 的点分名称，如 intl.get；无法静态确定时返回 null
+ * @param {Object} node - callee 节点
+ * @returns {string|null}
+ */
+export function getCalleeName(node: t.Node | null | undefined): string | null {
+  if (t.isIdentifier(node)) return node.name
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+    const objectName = getCalleeName(node.object)
+    return objectName === null ? null : `${objectName}.${node.property.name}`
+  }
+  return null
+}
+
+function getJSXName(node: t.Node): string | null {
+  if (t.isJSXIdentifier(node)) return node.name
+  if (t.isJSXMemberExpression(node)) {
+    const objectName = getJSXName(node.object)
+    return objectName === null ? null : `${objectName}.${node.property.name}`
+  }
+  return null
+}
+
+function getTranslationCalleeNames(runtime: RuntimeConfig): Set<string> {
+  let names = calleeNamesCache.get(runtime)
+  if (!names) {
+    names = new Set([runtime.callee, runtime.hook?.callee, ...runtime.recognize].filter(Boolean))
+    calleeNamesCache.set(runtime, names)
+  }
+  return names
+}
+
+/**
+ * callee 是否为翻译函数（runtime.callee、hook.callee 与 runtime.recognize）
+ * @param {Object} node - callee 节点
+ * @param {Object} runtime - runtime 配置
+ * @returns {boolean}
+ */
+export function isTranslationCallee(node: t.Node, runtime?: RuntimeConfig): boolean {
+  const name = getCalleeName(node)
+  return name !== null && getTranslationCalleeNames(getRuntime(runtime)).has(name)
+}
+
+/**
+ * 节点对应的翻译组件配置：runtime.jsx 或 component 模式的 runtime.richText
+ */
+function getTranslationElementConfig(node: t.Node, runtime?: RuntimeConfig): TranslationElementConfig | null {
+  if (!t.isJSXElement(node)) return null
+  const { jsx, richText } = getRuntime(runtime)
+  const name = getJSXName(node.openingElement.name)
+  if (jsx && name === jsx.component) return jsx
+  if (richText?.mode === 'component' && name === richText.component) return richText
+  return null
+}
+
+/**
+ * 节点是否为 runtime.jsx 或 runtime.richText 配置的翻译组件
+ * @param {Object} node - JSXElement 节点
+ * @param {Object} runtime - runtime 配置
+ * @returns {boolean}
+ */
+export function isTranslationElement(node: t.Node, runtime?: RuntimeConfig): boolean {
+  return getTranslationElementConfig(node, runtime) !== null
+}
+
+/**
+ * 生成翻译调用，如 intl.get('key', { name }) 或 intl.formatMessage({ id: 'key' }, { name })
+ * @param {string} key - i18n key
+ * @param {Object|null} values - 插值变量对象表达式
+ * @param {Object} runtime - runtime 配置
+ * @returns {import('@babel/types').CallExpression}
+ */
+export function createTranslationCall(
+  key: string,
+  values: t.ObjectExpression | null,
+  runtime?: RuntimeConfig
+): t.CallExpression {
+  const { callee, keyArgument } = getRuntime(runtime)
+  const keyNode =
+    keyArgument === 'descriptor'
+      ? t.objectExpression([t.objectProperty(t.identifier('id'), t.stringLiteral(key))])
+      : t.stringLiteral(key)
+
+  const call = t.callExpression(buildCallee(callee), values ? [keyNode, values] : [keyNode])
+  generatedCalls.add(call)
+  return call
+}
+
+/**
+ * 生成富文本翻译调用：html 模式使用 runtime.richText.callee（如 intl.getHTML）；
+ * component 模式先生成普通调用，由 applyRuntimeTarget 改写为组件
+ * @param {string} key - i18n key
+ * @param {Object|null} values - 插值变量对象表达式
+ * @param {Object[]} elements - 按编号排列的行内元素
+ * @param {Object} runtime - runtime 配置
+ * @returns {import('@babel/types').CallExpression}
+ */
+export function createRichTextCall(
+  key: string,
+  values: t.ObjectExpression | null,
+  elements: t.JSXElement[],
+  runtime?: RuntimeConfig
+): t.CallExpression {
+  const { richText } = getRuntime(runtime)
+  const call = createTranslationCall(key, values, runtime)
+  if (richText.mode === 'html') {
+    call.callee = buildCallee(richText.callee)
+  }
+  richTextCalls.set(call, elements)
+  return call
+}
+
+/**
+ * 取翻译调用中表示 key 的表达式：fn('key') 的首个参数，或 fn({ id: 'key' }) 中的 id
+ * @param {Object} call - CallExpression 节点
+ * @returns {Object|null} key 表达式；缺失时返回 null
+ */
+export function getTranslationKeyNode(call: t.CallExpression): t.Node | null {
+  const [firstArg] = call.arguments
+  if (!firstArg) return null
+  if (!t.isObjectExpression(firstArg)) return firstArg
+
+  const idProperty = firstArg.properties.find(
+    (prop): prop is t.ObjectProperty =>
+      t.isObjectProperty(prop) &&
+      !prop.computed &&
+      (t.isIdentifier(prop.key, { name: 'id' }) || t.isStringLiteral(prop.key, { value: 'id' }))
+  )
+  return idProperty ? idProperty.value : firstArg
+}
+
+/**
+ * 取 JSX 翻译组件中表示 key 的表达式
+ * @param {Object} node - JSXElement 节点
+ * @param {Object} runtime - runtime 配置
+ * @returns {Object|null}
+ */
+export function getTranslationElementKeyNode(node: t.JSXElement, runtime?: RuntimeConfig): t.Node | null {
+  const { idProp } = getTranslationElementConfig(node, runtime)
+  const attribute = node.openingElement.attributes.find(
+    (attr): attr is t.JSXAttribute => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, { name: idProp })
+  )
+  if (!attribute?.value) return null
+  return t.isJSXExpressionContainer(attribute.value) ? attribute.value.expression : attribute.value
+}
+
+/**
+ * 取翻译调用中的静态 key
+ * @param {Object} call - CallExpression 节点
+ * @returns {string|null}
+ */
+export function getTranslationCallKey(call: t.CallExpression): string | null {
+  const keyNode = getTranslationKeyNode(call)
+  return t.isStringLiteral(keyNode) ? keyNode.value : null
+}
+
+function getFunctionBindingName(fnPath: FunctionPath): string | null {
+  if (!t.isArrowFunctionExpression(fnPath.node) && fnPath.node.id) return fnPath.node.id.name
+
+  // 兼容 memo(() => ...) / forwardRef(function (props, ref) {...}) 等包裹
+  let parentPath: NodePath | null = fnPath.parentPath
+  while (parentPath?.isCallExpression()) {
+    parentPath = parentPath.parentPath
+  }
+  if (parentPath?.isVariableDeclarator() && t.isIdentifier(parentPath.node.id)) {
+    return parentPath.node.id.name
+  }
+  return null
+}
+
+function isComponentFunction(fnPath: NodePath): fnPath is FunctionPath {
+  const isFunction =
+    fnPath.isFunctionDeclaration() || fnPath.isFunctionExpression() || fnPath.isArrowFunctionExpression()
+  if (!isFunction || fnPath.node.async || fnPath.node.generator) return false
+
+  const name = getFunctionBindingName(fnPath as FunctionPath)
+  return Boolean(name) && COMPONENT_NAME_PATTERN.test(name)
+}
+
+function findEnclosingComponent(path: NodePath): FunctionPath | null {
+  let current: NodePath | null = path.getFunctionParent()
+  while (current) {
+    if (isComponentFunction(current)) return current
+    current = current.parentPath?.getFunctionParent() ?? null
+  }
+  return null
+}
+
+function isHookDeclarator(bindingPath: NodePath, hook: RuntimeHookConfig): boolean {
+  return (
+    bindingPath.isVariableDeclarator() &&
+    t.isCallExpression(bindingPath.node.init) &&
+    getCalleeName((bindingPath.node.init as t.CallExpression).callee) === hook.name
+  )
+}
+
+/**
+ * 调用处能否使用 hook 提供的函数：组件内已有的同名绑定必须来自该 hook，且不能被更近的作用域遮蔽
+ */
+function canUseHook(path: NodePath, component: FunctionPath, hook: RuntimeHookConfig): boolean {
+  const binding = path.scope.getBinding(getRootName(hook.callee))
+  if (!binding) return true
+  if (binding.scope === component.scope) return isHookDeclarator(binding.path, hook)
+
+  // 组件外层（如模块级 import { t } from './helpers'）的同名绑定会被注入的 hook 声明遮蔽，
+  // 组件内已有引用时注入会改变这些调用的含义
+  for (let scope = component.scope.parent; scope; scope = scope.parent) {
+    if (scope === binding.scope) {
+      return !binding.referencePaths.some((reference) => reference.findParent((parent) => parent.node === component.node))
+    }
+  }
+  return false
+}
+
+function getNearestLine(path: NodePath): number | null {
+  const located = path.find((item) => Boolean(item.node.loc))
+  return located?.node.loc.start.line ?? null
+}
+
+function createHookDeclaration(hook: RuntimeHookConfig): t.VariableDeclaration {
+  const root = getRootName(hook.callee)
+  const id = hook.destructure
+    ? t.objectPattern([t.objectProperty(t.identifier(root), t.identifier(root), false, true)])
+    : t.identifier(root)
+  return t.variableDeclaration('const', [t.variableDeclarator(id, t.callExpression(t.identifier(hook.name), []))])
+}
+
+function injectHook(fnPath: FunctionPath, hook: RuntimeHookConfig): void {
+  // 组件内已声明（如已有 const { t } = useTranslation()）时不重复注入
+  if (fnPath.scope.hasOwnBinding(getRootName(hook.callee))) return
+
+  const declaration = createHookDeclaration(hook)
+  const body = fnPath.get('body')
+  if (body.isBlockStatement()) {
+    body.node.body.unshift(declaration)
+  } else if (body.isExpression()) {
+    fnPath.node.body = t.blockStatement([declaration, t.returnStatement(body.node)])
+  }
+}
+
+function isJSXChildContainer(path: NodePath): boolean {
+  return (
+    path.isJSXExpressionContainer() &&
+    path.listKey === 'children' &&
+    (path.parentPath.isJSXElement() || path.parentPath.isJSXFragment())
+  )
+}
+
+function createJSXAttributeValue(keyNode: t.Node): t.StringLiteral | t.JSXExpressionContainer {
+  // JSX 属性值不支持转义，含双引号的 key 改用表达式容器；其余沿用 JSX 惯用的双引号
+  if (!t.isStringLiteral(keyNode) || keyNode.value.includes('"')) {
+    return t.jsxExpressionContainer(keyNode as t.Expression)
+  }
+  const value = t.stringLiteral(keyNode.value)
+  value.extra = { raw: `"${keyNode.value}"`, rawValue: keyNode.value }
+  return value
+}
+
+function createTranslationElement(call: t.CallExpression, jsx: RuntimeJSXConfig): t.JSXElement {
+  const [, values] = call.arguments
+  const attributes = [t.jsxAttribute(t.jsxIdentifier(jsx.idProp), createJSXAttributeValue(getTranslationKeyNode(call)))]
+  if (t.isExpression(values)) {
+    attributes.push(t.jsxAttribute(t.jsxIdentifier(jsx.valuesProp), t.jsxExpressionContainer(values)))
+  }
+  return t.jsxElement(t.jsxOpeningElement(buildJSXName(jsx.component), attributes, true), null, [], true)
+}
+
+/**
+ * 富文本组件，如 <Trans i18nKey="key" values={{ name }} components={[<a href="/terms" />]} />；
+ * 元素的文案已写入翻译，组件数组中只保留标签与属性
+ */
+function createRichTextElement(
+  call: t.CallExpression,
+  elements: t.JSXElement[],
+  richText: RuntimeRichTextConfig
+): t.JSXElement {
+  const [, values] = call.arguments
+  const attributes = [
+    t.jsxAttribute(t.jsxIdentifier(richText.idProp), createJSXAttributeValue(getTranslationKeyNode(call)))
+  ]
+  if (t.isExpression(values)) {
+    attributes.push(t.jsxAttribute(t.jsxIdentifier(richText.valuesProp), t.jsxExpressionContainer(values)))
+  }
+  const components = elements.map((element) =>
+    t.jsxElement(t.jsxOpeningElement(element.openingElement.name, element.openingElement.attributes, true), null, [], true)
+  )
+  attributes.push(
+    t.jsxAttribute(t.jsxIdentifier(richText.componentsProp), t.jsxExpressionContainer(t.arrayExpression(components)))
+  )
+  return t.jsxElement(t.jsxOpeningElement(buildJSXName(richText.component), attributes, true), null, [], true)
+}
+
+function getImportedName(specifier: t.ImportDeclaration['specifiers'][number]): string | null {
+  if (t.isImportDefaultSpecifier(specifier)) return 'default'
+  if (t.isImportSpecifier(specifier)) {
+    return t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value
+  }
+  return null
+}
+
+/**
+ * 确保文件中存在 import，已以其它名称导入时追加别名声明
+ */
+function ensureImport(
+  programPath: NodePath<t.Program>,
+  { source, imported }: RuntimeImportConfig,
+  local: string,
+  pending: t.ImportDeclaration[]
+): void {
+  const body = programPath.node.body
+  let existingDeclaration: t.ImportDeclaration | null = null
+
+  for (let index = 0; index < body.length; index += 1) {
+    const node = body[index]
+    if (!t.isImportDeclaration(node) || node.source.value !== source || node.importKind === 'type') continue
+
+    const specifier = node.specifiers.find((spec) => getImportedName(spec) === imported)
+    if (specifier) {
+      const localName = specifier.local.name
+      if (localName === local) return
+
+      const hasAliasDeclaration = body.some(
+        (statement) =>
+          t.isVariableDeclaration(statement) &&
+          statement.declarations.some(
+            (decl) => t.isIdentifier(decl.id, { name: local }) && t.isIdentifier(decl.init, { name: localName })
+          )
+      )
+      if (!hasAliasDeclaration) {
+        body.splice(
+          index + 1,
+          0,
+          t.variableDeclaration('const', [t.variableDeclarator(t.identifier(local), t.identifier(localName))])
+        )
+      }
+      return
+    }
+
+    if (!existingDeclaration && !node.specifiers.some((spec) => t.isImportNamespaceSpecifier(spec))) {
+      existingDeclaration = node
+    }
+  }
+
+  // 同名变量已在模块中声明（如自行创建的 intl 实例）时不再导入
+  if (programPath.scope.hasOwnBinding(local)) return
+
+  const specifier =
+    imported === 'default'
+      ? t.importDefaultSpecifier(t.identifier(local))
+      : t.importSpecifier(t.identifier(local), t.identifier(imported))
+
+  // 同一模块的多个新增 import 合并为一条声明
+  existingDeclaration ??= pending.find((node) => node.source.value === source)
+
+  if (existingDeclaration) {
+    if (imported === 'default') {
+      existingDeclaration.specifiers.unshift(specifier)
+    } else {
+      existingDeclaration.specifiers.push(specifier)
+    }
+    return
+  }
+
+  pending.push(t.importDeclaration([specifier], t.stringLiteral(source)))
+}
+
+/**
+ * 按 runtime 配置改写本次生成的翻译调用并补充 import：
+ * - JSX 子节点中的调用在配置 runtime.jsx 时改写为组件
+ * - 富文本调用按 runtime.richText 保留 intl.getHTML 等渲染函数，或改写为 Trans 等组件
+ * - 位于函数组件 / 自定义 hook 内的调用在配置 runtime.hook 时改用 hook 提供的函数，并在组件顶部注入 hook
+ * - 其余调用保留 runtime.callee，并插入 runtime.import
+ * @param {Object} ast - File AST
+ * @param {Object} runtime - runtime 配置
+ * @returns {Array<{callee: string, line: number|null}>} 未配置 runtime.import 且文件中没有对应绑定的调用，运行时会因变量未定义而报错
+ */
+export function applyRuntimeTarget(ast: t.File, runtime?: RuntimeConfig): UnresolvedRuntimeCall[] {
+  const runtimeConfig = getRuntime(runtime)
+  const { callee, hook, jsx, richText } = runtimeConfig
+  const components = new Map<t.Node, FunctionPath>()
+  const unresolved: UnresolvedRuntimeCall[] = []
+  let programPath: NodePath<t.Program> | null = null
+  let needsCalleeImport = false
+  let needsJSXImport = false
+  let needsRichTextImport = false
+
+  const useCallee = (path: NodePath<t.CallExpression>) => {
+    needsCalleeImport = true
+    const name = getCalleeName(path.node.callee)
+    if (!runtimeConfig.import && name && !path.scope.hasBinding(getRootName(name))) {
+      unresolved.push({ callee: name, line: getNearestLine(path) })
+    }
+  }
+
+  traverseFn(ast, {
+    Program(path) {
+      programPath = path
+    },
+    CallExpression(path) {
+      if (!generatedCalls.has(path.node)) return
+
+      if (richTextCalls.has(path.node)) {
+        if (richText.mode === 'component' && isJSXChildContainer(path.parentPath)) {
+          path.parentPath.replaceWith(createRichTextElement(path.node, richTextCalls.get(path.node), richText))
+          needsRichTextImport = true
+        } else {
+          useCallee(path)
+        }
+        return
+      }
+
+      if (jsx && isJSXChildContainer(path.parentPath)) {
+        path.parentPath.replaceWith(createTranslationElement(path.node, jsx))
+        needsJSXImport = true
+        return
+      }
+
+      const component = hook ? findEnclosingComponent(path) : null
+      if (component && canUseHook(path, component, hook)) {
+        path.node.callee = buildCallee(hook.callee)
+        components.set(component.node, component)
+        return
+      }
+
+      useCallee(path)
+    }
+  })
+
+  if (!programPath) return unresolved
+
+  components.forEach((fnPath) => injectHook(fnPath, hook))
+
+  const pending: t.ImportDeclaration[] = []
+  if (needsCalleeImport && runtimeConfig.import) {
+    ensureImport(programPath, runtimeConfig.import, getRootName(callee), pending)
+  }
+  if (components.size > 0) {
+    ensureImport(programPath, { source: hook.source, imported: hook.name }, hook.name, pending)
+  }
+  if (needsJSXImport) {
+    ensureImport(programPath, { source: jsx.source, imported: getRootName(jsx.component) }, getRootName(jsx.component), pending)
+  }
+  if (needsRichTextImport) {
+    const local = getRootName(richText.component)
+    ensureImport(programPath, { source: richText.source, imported: local }, local, pending)
+  }
+
+  if (pending.length > 0) {
+    ast.program.body.unshift(...pending)
+  }
+  return unresolved
+}
@@ -0,0 +1,542 @@
+/**
+ * 基于位置的最小化源码改写
+ *
+ * 转换前对 AST 做一次子节点快照，转换后逐层对比，只重新生成被替换的节点与新插入的语句，
+ * 其余源码按字节原样保留，避免整文件重新生成破坏 Prettier 格式、空行与引号风格。
+ */
+
+import generate from '@babel/generator'
+import * as t from '@babel/types'
+
+import { isTranslatorComment } from './comment-directives.js'
+
+const generateFn: typeof generate = (generate as unknown as { default?: typeof generate }).default ?? (generate as unknown as typeof generate)
+
+// 不参与节点属性对比的元信息字段
+const META_KEYS = new Set([
+  'type',
+  'start',
+  'end',
+  'loc',
+  'range',
+  'extra',
+  'leadingComments',
+  'trailingComments',
+  'innerComments',
+  'comments',
+  'tokens',
+  'errors'
+])
+
+// 以换行分隔的语句列表
+const STATEMENT_LIST_OWNERS = new Set(['Program', 'BlockStatement', 'StaticBlock'])
+
+/** 节点 -> 子节点快照 */
+export type ASTSnapshot = WeakMap<t.Node, Record<string, unknown>>
+
+/** @babel/generator 选项，仅声明这里会读取的字段 */
+export interface GeneratorOptions {
+  jsescOption?: Record<string, unknown>
+  [option: string]: unknown
+}
+
+interface Positioned {
+  start: number
+  end: number
+}
+
+type PositionedNode = t.Node & Positioned
+
+// @babel/parser 在 tokens: true 时附加到 File 上的原始 token
+interface SourceToken extends Positioned {
+  type?: { label?: string }
+}
+
+interface CodeStyle {
+  quotes: 'single' | 'double'
+  semicolons: boolean
+}
+
+interface PrintContext {
+  code: string
+  snapshot: ASTSnapshot
+  style: CodeStyle
+  eol: string
+  generatorOptions: GeneratorOptions
+}
+
+interface SourceEdit {
+  start: number
+  end: number
+  text: string
+}
+
+function isNode(value: unknown): value is t.Node {
+  return Boolean(value) && typeof value === 'object' && typeof (value as { type?: unknown }).type === 'string'
+}
+
+function hasPosition<T>(node: T): node is T & Positioned {
+  const value = node as Partial<Record<keyof Positioned, unknown>> | null | undefined
+  return typeof value?.start === 'number' && typeof value?.end === 'number'
+}
+
+function getVisitorKeys(node: t.Node): string[] {
+  return t.VISITOR_KEYS[node.type] || []
+}
+
+function getField(node: t.Node, key: string): unknown {
+  return (node as unknown as Record<string, unknown>)[key]
+}
+
+/**
+ * 记录每个原始节点的子节点引用（数组会复制一份），作为转换后的对比基准
+ * @param {Object} ast - File AST
+ * @returns {WeakMap<Object, Object>} 节点 -> 子节点快照
+ */
+export function snapshotAST(ast: t.File): ASTSnapshot {
+  const snapshot: ASTSnapshot = new WeakMap()
+
+  const visit = (node: unknown): void => {
+    if (!isNode(node) || snapshot.has(node)) return
+
+    const fields: Record<string, unknown> = {}
+    for (const key of getVisitorKeys(node)) {
+      const value = getField(node, key)
+      if (Array.isArray(value)) {
+        fields[key] = value.slice()
+        value.forEach(visit)
+      } else {
+        fields[key] = value
+        visit(value)
+      }
+    }
+    snapshot.set(node, fields)
+  }
+
+  visit(ast.program)
+  return snapshot
+}
+
+/**
+ * 推断文件的引号与分号风格，用于生成新代码片段
+ */
+function detectCodeStyle(code: string, ast: t.File): CodeStyle {
+  let single = 0
+  let double = 0
+
+  // 基于原始 token 统计，转换后的 AST 中字符串可能已被替换；JSX 属性值不计入
+  const tokens: SourceToken[] = ast.tokens || []
+  tokens.forEach((token, index) => {
+    if (token.type?.label !== 'string') return
+    const previous = tokens[index - 1]
+    const owner = tokens[index - 2]
+    if (previous?.type?.label === '=' && owner?.type?.label === 'jsxName') return
+
+    const quote = code[token.start]
+    if (quote === "'") single += 1
+    if (quote === '"') double += 1
+  })
+
+  // 任意一行以分号结尾即视为使用分号风格（行首防御性分号不计入）
+  const lineEnd = /[ \t]*(?:\/\/[^\n]*)?(?:\r?\n|$)/y
+  const semicolons = tokens.some((token) => {
+    if (token.type?.label !== ';') return false
+    lineEnd.lastIndex = token.end
+    return lineEnd.test(code)
+  })
+
+  return {
+    quotes: single > double ? 'single' : 'double',
+    semicolons
+  }
+}
+
+// 按文件中第一个换行推断换行符，新插入的语句与生成的多行代码沿用它，避免 CRLF 文件出现混合换行
+function detectLineEnding(code: string): string {
+  return code.match(/\r?\n/)?.[0] ?? '\n'
+}
+
+function getLineIndent(code: string, offset: number): string {
+  const lineStart = code.lastIndexOf('\n', offset - 1) + 1
+  const match = code.slice(lineStart).match(/^[ \t]*/)
+  return match ? match[0] : ''
+}
+
+// 生成器总是把对象字面量展开为多行，短表达式收拢为单行以贴近 Prettier 输出
+const MAX_INLINE_LENGTH = 80
+
+function collapseShortExpression(code: string): string {
+  if (!code.includes('\n') || /[`<]|\/\/|\/\*/.test(code)) return code
+  const collapsed = code
+    .replace(/\{\n\s*/g, '{ ')
+    .replace(/\n\s*\}/g, ' }')
+    .replace(/\[\n\s*/g, '[')
+    .replace(/\n\s*\]/g, ']')
+    .replace(/,\n\s*/g, ', ')
+  return collapsed.includes('\n') || collapsed.length > MAX_INLINE_LENGTH ? code : collapsed
+}
+
+function hasComments(node: t.Node): boolean {
+  return Boolean(node.leadingComments?.length || node.trailingComments?.length)
+}
+
+/**
+ * 原始节点被包裹进新节点（如表达式体箭头函数改为语句块）后可按原文输出；
+ * 仅限 JSX 与语句，它们不受外层运算符优先级影响，无需补充括号
+ */
+function canReuseOriginal(node: t.Node, context: PrintContext): node is PositionedNode {
+  return context.snapshot.has(node) && hasPosition(node) && !hasComments(node) && (t.isJSX(node) || t.isStatement(node))
+}
+
+/**
+ * 新生成的对象字面量/解构模式在这些位置收拢为单行时不需要额外括号
+ */
+function isInlineObjectPosition(node: t.Node, parent: t.Node, key: string | null): boolean {
+  if (t.isObjectPattern(node)) {
+    return t.isVariableDeclarator(parent) || (t.isFunction(parent) && key === 'params')
+  }
+  if (t.isObjectExpression(node)) {
+    return (
+      (t.isCallExpression(parent) && key === 'arguments') ||
+      (t.isVariableDeclarator(parent) && key === 'init') ||
+      (t.isObjectProperty(parent) && key === 'value') ||
+      t.isJSXExpressionContainer(parent) ||
+      t.isArrayExpression(parent)
+    )
+  }
+  return false
+}
+
+/**
+ * 生成前把可复用的原始子节点与可收拢的对象字面量替换为占位标识符，生成后再填回对应源码
+ */
+function replaceWithPlaceholders(root: t.Node, context: PrintContext, holes: string[]): t.Node {
+  const placeholder = (text: string): t.Identifier => {
+    holes.push(text)
+    return t.identifier(`__forge_source_${holes.length - 1}__`)
+  }
+
+  const visit = (node: t.Node, parent: t.Node | null, key: string | null): t.Node => {
+    if (parent && canReuseOriginal(node, context)) {
+      return placeholder(printOriginal(node, context))
+    }
+    if (parent && !context.snapshot.has(node) && isInlineObjectPosition(node, parent, key)) {
+      const inline = collapseShortExpression(generateFn(node, context.generatorOptions).code)
+      if (!inline.includes('\n')) return placeholder(inline)
+    }
+
+    const copy: Record<string, unknown> = { ...node }
+    for (const childKey of getVisitorKeys(node)) {
+      const value = getField(node, childKey)
+      if (Array.isArray(value)) {
+        copy[childKey] = value.map((child) => (isNode(child) ? visit(child, node, childKey) : child))
+      } else if (isNode(value)) {
+        copy[childKey] = visit(value, node, childKey)
+      }
+    }
+    return copy as unknown as t.Node
+  }
+
+  return visit(root, null, null)
+}
+
+function printNode(node: t.Node, anchor: number, context: PrintContext): string {
+  const holes: string[] = []
+  const printable: t.Node = {
+    ...replaceWithPlaceholders(node, context, holes),
+    leadingComments: null,
+    trailingComments: null
+  }
+  let code: string = generateFn(printable, context.generatorOptions).code
+  const isStatementLike = t.isStatement(node) || t.isObjectMethod(node) || t.isClassMethod(node)
+
+  if (!isStatementLike) {
+    code = collapseShortExpression(code)
+  }
+
+  if (!context.style.semicolons && isStatementLike) {
+    code = code.replace(/;$/gm, '')
+  }
+
+  const indent = getLineIndent(context.code, anchor)
+  if (indent && code.includes('\n')) {
+    code = code
+      .split('\n')
+      .map((line, index) => (index === 0 || line.length === 0 ? line : `${indent}${line}`))
+      .join('\n')
+  }
+  if (context.eol !== '\n') {
+    code = code.replace(/\n/g, context.eol)
+  }
+
+  // 占位内容已带有原始缩进与换行符，最后再填回
+  return code.replace(/__forge_source_(\d+)__/g, (_match, index: string) => holes[Number(index)])
+}
+
+/**
+ * 输出原始节点的源码，并应用其内部的最小化改写
+ */
+function printOriginal(node: PositionedNode, context: PrintContext): string {
+  const edits: SourceEdit[] = []
+  reconcileNode(node, node, context, edits)
+  return applyEdits(context.code.slice(node.start, node.end), edits, node.start)
+}
+
+/**
+ * 将按位置排序的改写应用到源码片段上，片段从 offset 处开始；改写区间重叠时抛出异常
+ */
+function applyEdits(code: string, edits: SourceEdit[], offset = 0): string {
+  const sorted = edits.slice().sort((a, b) => a.start - b.start || a.end - b.end)
+  for (let index = 1; index < sorted.length; index += 1) {
+    if (sorted[index].start < sorted[index - 1].end) {
+      throw new Error('overlapping edits')
+    }
+  }
+
+  let output = code
+  for (let index = sorted.length - 1; index >= 0; index -= 1) {
+    const edit = sorted[index]
+    output = `${output.slice(0, edit.start - offset)}${edit.text}${output.slice(edit.end - offset)}`
+  }
+  return output
+}
+
+/**
+ * JSXText 的首尾空白在 JSX 中具有排版意义，替换时保留
+ */
+function getJSXWhitespace(
+  first: PositionedNode,
+  last: PositionedNode,
+  context: PrintContext
+): { leading: string; trailing: string } {
+  let leading = ''
+  let trailing = ''
+  if (t.isJSXText(first)) {
+    leading = context.code.slice(first.start, first.end).match(/^\s*/)[0]
+  }
+  if (t.isJSXText(last)) {
+    trailing = context.code.slice(last.start, last.end).match(/\s*$/)[0]
+  }
+  if (first === last && leading.length === first.end - first.start) {
+    trailing = ''
+  }
+  return { leading, trailing }
+}
+
+/**
+ * 带括号的表达式被替换为非表达式（如箭头函数体改为语句块）时，括号一并替换
+ */
+function getParenthesizedRange(node: PositionedNode, replacement: t.Node, context: PrintContext): Positioned | null {
+  if (!node.extra?.parenthesized || t.isExpression(replacement)) return null
+  const closing = /^\s*\)/.exec(context.code.slice(node.end))
+  const parenStart = node.extra.parenStart
+  if (typeof parenStart !== 'number' || !closing) return null
+  return { start: parenStart, end: node.end + closing[0].length }
+}
+
+function createReplaceEdit(
+  originals: PositionedNode[],
+  replacements: t.Node[],
+  separator: string,
+  context: PrintContext
+): SourceEdit {
+  const first = originals[0]
+  const last = originals[originals.length - 1]
+  const { leading, trailing } = getJSXWhitespace(first, last, context)
+  const parenthesized =
+    originals.length === 1 && replacements.length === 1
+      ? getParenthesizedRange(first, replacements[0], context)
+      : null
+  const anchor = (parenthesized?.start ?? first.start) + leading.length
+  const text = replacements.map((node) => printNode(node, anchor, context)).join(separator)
+
+  return {
+    start: parenthesized?.start ?? first.start,
+    end: parenthesized?.end ?? last.end,
+    text: `${leading}${text}${trailing}`
+  }
+}
+
+function hasSameAttributes(original: t.Node, current: t.Node): boolean {
+  const visitorKeys = new Set(getVisitorKeys(original))
+  const keys = new Set([...Object.keys(original), ...Object.keys(current)])
+  const normalize = (value: unknown): unknown => (value === undefined || value === null || value === false ? null : value)
+
+  for (const key of keys) {
+    if (META_KEYS.has(key) || visitorKeys.has(key)) continue
+    const before = normalize(getField(original, key))
+    const after = normalize(getField(current, key))
+    if (before === after) continue
+    return false
+  }
+  return true
+}
+
+function getListSeparator(owner: t.Node, key: string, anchor: number, context: PrintContext): string | null {
+  if (t.isImportDeclaration(owner) || t.isExportNamedDeclaration(owner)) {
+    // 说明符顺序与花括号由生成器决定，直接重新生成整条声明
+    return null
+  }
+  if (key === 'body' && STATEMENT_LIST_OWNERS.has(owner.type)) {
+    return `${context.eol}${getLineIndent(context.code, anchor)}`
+  }
+  if (key === 'children' && (t.isJSXElement(owner) || t.isJSXFragment(owner))) {
+    return ''
+  }
+  return ', '
+}
+
+function reconcileList(
+  before: Array<t.Node | null>,
+  after: Array<t.Node | null>,
+  owner: t.Node,
+  key: string,
+  context: PrintContext,
+  edits: SourceEdit[]
+): boolean {
+  if (before.length === after.length) {
+    for (let index = 0; index < before.length; index += 1) {
+      if (!reconcileField(before[index], after[index], context, edits)) return false
+    }
+    return true
+  }
+
+  const minLength = Math.min(before.length, after.length)
+  let prefix = 0
+  while (prefix < minLength && before[prefix] === after[prefix]) {
+    prefix += 1
+  }
+  let suffix = 0
+  while (
+    suffix < minLength - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1
+  }
+
+  const removed = before.slice(prefix, before.length - suffix)
+  const inserted = after.slice(prefix, after.length - suffix)
+
+  if (inserted.length === 0 || !inserted.every(isNode) || !removed.every(hasPosition)) {
+    return false
+  }
+
+  const anchorNode = removed[0] ?? before[prefix] ?? before[prefix - 1]
+  if (!hasPosition(anchorNode)) return false
+
+  const separator = getListSeparator(owner, key, anchorNode.start, context)
+  if (separator === null) return false
+
+  for (let index = 0; index < prefix; index += 1) {
+    if (!reconcileField(before[index], after[index], context, edits)) return false
+  }
+  for (let index = 0; index < suffix; index += 1) {
+    const beforeIndex = before.length - 1 - index
+    const afterIndex = after.length - 1 - index
+    if (!reconcileField(before[beforeIndex], after[afterIndex], context, edits)) return false
+  }
+
+  if (removed.length > 0) {
+    edits.push(createReplaceEdit(removed, inserted, separator, context))
+    return true
+  }
+
+  const text = inserted.map((node) => printNode(node, anchorNode.start, context)).join(separator)
+  if (prefix > 0) {
+    const previous = before[prefix - 1]
+    edits.push({ start: previous.end, end: previous.end, text: `${separator}${text}` })
+  } else {
+    // 插入到首个语句之前时，译者说明注释应继续紧贴原语句
+    const next = before[prefix]
+    const note = next.leadingComments?.find(isTranslatorComment)
+    const start = note && hasPosition(note) ? note.start : next.start
+    edits.push({ start, end: start, text: `${text}${separator}` })
+  }
+  return true
+}
+
+function reconcileField(before: unknown, after: unknown, context: PrintContext, edits: SourceEdit[]): boolean {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    return false
+  }
+  if (!before && !after) return true
+  if (!isNode(before) || !isNode(after) || !hasPosition(before)) return false
+
+  reconcileNode(before, after, context, edits)
+  return true
+}
+
+function reconcileChildren(original: t.Node, current: t.Node, context: PrintContext, edits: SourceEdit[]): boolean {
+  const fields = context.snapshot.get(original)
+  if (!fields) return false
+
+  if (current !== original) {
+    // 原始节点被移动到其它位置，或节点类型/属性发生变化时整体重新生成
+    if (context.snapshot.has(current)) return false
+    if (current.type !== original.type || !hasSameAttributes(original, current)) return false
+  }
+
+  for (const key of getVisitorKeys(original)) {
+    const before = fields[key]
+    const after = getField(current, key)
+
+    if (Array.isArray(before) || Array.isArray(after)) {
+      if (!Array.isArray(before) || !Array.isArray(after)) return false
+      if (!reconcileList(before, after, original, key, context, edits)) return false
+      continue
+    }
+
+    if (!reconcileField(before, after, context, edits)) return false
+  }
+
+  return true
+}
+
+function reconcileNode(original: PositionedNode, current: t.Node, context: PrintContext, edits: SourceEdit[]): void {
+  const local: SourceEdit[] = []
+  if (reconcileChildren(original, current, context, local)) {
+    edits.push(...local)
+    return
+  }
+  edits.push(createReplaceEdit([original], [current], '', context))
+}
+
+/**
+ * 按快照对比生成最小化改写后的源码
+ * @param {string} code - 原始源码
+ * @param {Object} ast - 已转换的 File AST
+ * @param {WeakMap<Object, Object>} snapshot - snapshotAST 返回的快照
+ * @param {Object} generatorOptions - @babel/generator 选项
+ * @returns {string|null} 改写后的源码；无法安全计算时返回 null
+ */
+export function printWithMinimalEdits(
+  code: string,
+  ast: t.File,
+  snapshot: ASTSnapshot,
+  generatorOptions: GeneratorOptions = {}
+): string | null {
+  const style = detectCodeStyle(code, ast)
+  const context: PrintContext = {
+    code,
+    snapshot,
+    style,
+    eol: detectLineEnding(code),
+    generatorOptions: {
+      ...generatorOptions,
+      jsescOption: {
+        ...(generatorOptions.jsescOption || {}),
+        quotes: style.quotes
+      }
+    }
+  }
+
+  const edits: SourceEdit[] = []
+  try {
+    if (!reconcileChildren(ast.program, ast.program, context, edits)) {
+      return null
+    }
+    return applyEdits(code, edits)
+  } catch (error) {
+    return null
+  }
+}
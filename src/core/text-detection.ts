@@ -0,0 +1,124 @@
+/**
+ * 源语言文本识别
+ *
+ * 根据 sourceTextDetection 配置判断一段文本是否为需要提取的源语言文案：
+ * - scripts：Unicode 书写系统列表（Han / Hiragana / Katakana / Hangul / Cyrillic / Latin 等）
+ * - pattern：自定义正则
+ * - test：自定义判断函数
+ * 优先级为 test > pattern > scripts。
+ */
+
+import { getConfig } from '../config/index.js'
+import type { ForgeI18nConfig, SourceTextDetectionConfig } from '../types.js'
+
+export type SourceTextMatcher = (text: string) => boolean
+
+// 东亚书写系统的全角/CJK 标点（不含全角空格），仅由这些标点组成的文本同样视为源语言文案
+const CJK_PUNCTUATION = '\\u3001-\\u303f\\uff01-\\uff0f\\uff1a-\\uff20\\uff3b-\\uff40\\uff5b-\\uff65'
+const CJK_SCRIPTS = new Set(['Han', 'Hiragana', 'Katakana', 'Hangul', 'Bopomofo'])
+
+const LATIN_LETTER = /\p{Script=Latin}/u
+const PLACEHOLDER = /\{[^{}]*\}/g
+const URL_LIKE = /^(?:[a-z][a-z0-9+.-]*:\/\/|mailto:|tel:|data:|www\.)/i
+const PATH_LIKE = /^(?:\.{0,2}\/|~\/|#|@\/)/
+const CSS_VALUE_TOKEN = /^(?:#[0-9a-f]{3,8}|-?\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg)?|rgba?\(.*|var\(.*)$/i
+const CSS_CLASS_TOKEN = /^[a-z0-9_\-:/[\].!#%]+$/
+const CAPITALIZED_WORD = /^\p{Lu}\p{Ll}+[.!?…:]*$/u
+const SENTENCE_END = /[.!?…:]$/
+
+export const DEFAULT_SOURCE_TEXT_DETECTION: Required<Pick<SourceTextDetectionConfig, 'scripts'>> = {
+  scripts: ['Han']
+}
+
+/**
+ * 判断一段文本是否像英文等拉丁字母界面文案，而非标识符、CSS 类名、URL 或路径
+ */
+export function isLikelyLatinText(text: string): boolean {
+  const value = text.replace(PLACEHOLDER, ' ').trim()
+  if (!value || !LATIN_LETTER.test(value)) return false
+  if (URL_LIKE.test(value) || PATH_LIKE.test(value)) return false
+
+  const tokens = value.split(/\s+/)
+
+  if (tokens.length === 1) {
+    // 单个单词只接受首字母大写的普通单词（如 Save / Loading...），
+    // camelCase、snake_case、kebab-case、常量、文件名与路径都视为代码
+    return CAPITALIZED_WORD.test(value)
+  }
+
+  if (tokens.some((token) => CSS_VALUE_TOKEN.test(token))) return false
+
+  const looksLikeClassList =
+    tokens.every((token) => CSS_CLASS_TOKEN.test(token)) &&
+    tokens.some((token) => /[-_:/[\]\d]/.test(token))
+  if (looksLikeClassList) return false
+
+  const words = tokens.filter((token) => /^[\p{L}'’]+[,.!?…:;]*$/u.test(token))
+  // 多数 token 为自然语言单词，或以句末标点结尾时视为文案
+  return words.length * 2 > tokens.length || SENTENCE_END.test(value)
+}
+
+function toScriptPattern(scripts: string[]): RegExp | null {
+  const nonLatin = scripts.filter((script) => script !== 'Latin')
+  if (nonLatin.length === 0) return null
+
+  const classes = nonLatin.map((script) => `\\p{Script=${script}}`)
+  if (nonLatin.some((script) => CJK_SCRIPTS.has(script))) {
+    classes.push(CJK_PUNCTUATION)
+  }
+  return new RegExp(`[${classes.join('')}]`, 'u')
+}
+
+function toRegExp(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    // 去掉 g / y 标志，避免 lastIndex 导致 test 结果不稳定
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+  }
+  return new RegExp(pattern, 'u')
+}
+
+/**
+ * 根据配置创建文本识别函数
+ */
+export function createSourceTextMatcher(options: SourceTextDetectionConfig = {}): SourceTextMatcher {
+  if (typeof options.test === 'function') {
+    const predicate = options.test
+    return (text) => typeof text === 'string' && text.length > 0 && Boolean(predicate(text))
+  }
+
+  if (options.pattern) {
+    const regex = toRegExp(options.pattern)
+    return (text) => typeof text === 'string' && regex.test(text)
+  }
+
+  const scripts = options.scripts && options.scripts.length > 0 ? options.scripts : DEFAULT_SOURCE_TEXT_DETECTION.scripts
+  const scriptPattern = toScriptPattern(scripts)
+  const includesLatin = scripts.includes('Latin')
+
+  return (text) => {
+    if (typeof text !== 'string' || text.length === 0) return false
+    if (scriptPattern && scriptPattern.test(text)) return true
+    return includesLatin && isLikelyLatinText(text)
+  }
+}
+
+const matcherCache = new WeakMap<object, SourceTextMatcher>()
+
+/**
+ * 获取配置对应的文本识别函数（按配置对象缓存）
+ */
+export function getSourceTextMatcher(config: ForgeI18nConfig = getConfig()): SourceTextMatcher {
+  const cached = matcherCache.get(config)
+  if (cached) return cached
+
+  const matcher = createSourceTextMatcher(config.sourceTextDetection)
+  matcherCache.set(config, matcher)
+  return matcher
+}
+
+/**
+ * 判断文本是否为需要提取的源语言文案
+ */
+export function isSourceText(text: string, config: ForgeI18nConfig = getConfig()): boolean {
+  return getSourceTextMatcher(config)(text)
+}
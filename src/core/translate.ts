@@ -12,11 +12,13 @@
  * 使用：
  *   pnpm i18n:translate
  *   pnpm i18n:translate --lang=en_US  # 只翻译指定语言
- *   pnpm i18n:translate --force       # 强制重新翻译所有
+ *   pnpm i18n:translate --force       # 强制重新翻译所有（已审校与锁定的译文除外）
  *
  * @typedef {Object} TranslationEntry
  * @property {string} key - i18n key
  * @property {string} text - 源文本
+ * @property {string[]} [notes] - 源码中的译者说明（i18n: / @i18n-context 注释）
+ * @property {string[]} [plurals] - 表示数量、需要 ICU plural 的插值变量
  *
  * @typedef {Object} ValidationResult
  * @property {boolean} valid - 翻译是否有效
@@ -29,6 +31,21 @@ import path from 'node:path'
 import { fileURLToPath } from 'node:url'
 
 import { getConfig, setActiveConfig } from '../config/index.js'
+import { requiresApiKey } from '../config/ai-providers.js'
+import { callAIProvider } from './ai-provider.js'
+import { checkPluralCategories, extractICUVariableCounts, getPluralCategories } from './icu-utils.js'
+import { checkRichTextTags } from './rich-text.js'
+import { pseudoLocalizeMessages } from './pseudo.js'
+import { checkGlossary, formatGlossaryPrompt, getGlossaryTerms, loadGlossary } from './glossary.js'
+import { TranslationMemory } from './translation-memory.js'
+import { readSourceDetails } from './locale-files.js'
+import {
+  findOutdatedKeys,
+  hashSourceText,
+  isProtectedStatus,
+  readLocaleMeta,
+  writeLocaleMeta
+} from './locale-meta.js'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -106,11 +123,6 @@ function writeTranslationLog(fileName, payload) {
   }
 }
 
-// 请求限流状态
-const RATE_LIMIT = {
-  lastRequestTime: 0
-}
-
 const PROGRESS_BAR_LENGTH = 30
 const SPINNER_FRAMES = ['-', '\\', '|', '/']
 const SPINNER_INTERVAL = 120
@@ -179,176 +191,16 @@ function needsTranslation(value, chineseText, { force = false } = {}) {
   return false
 }
 
-const ICU_VARIABLE_NAME_PATTERN = /^[_A-Za-z][_A-Za-z0-9]*$|^\d+$/
-const ICU_SELECT_LIKE_TYPES = new Set(['select', 'plural', 'selectordinal'])
-
-function findFirstTopLevelComma(text) {
-  let depth = 0
-  for (let index = 0; index < text.length; index++) {
-    const char = text[index]
-    if (char === '{') {
-      depth += 1
-    } else if (char === '}') {
-      if (depth > 0) depth -= 1
-    } else if (char === ',' && depth === 0) {
-      return index
-    }
-  }
-  return -1
-}
-
-function collectICUPlaceholders(message, counts) {
-  if (typeof message !== 'string' || !message.includes('{')) {
-    return
-  }
-
-  for (let index = 0; index < message.length; index++) {
-    if (message[index] !== '{') continue
-
-    let depth = 0
-    const start = index
-    let end = -1
-
-    for (; index < message.length; index++) {
-      const char = message[index]
-      if (char === '{') {
-        depth += 1
-      } else if (char === '}') {
-        depth -= 1
-        if (depth === 0) {
-          end = index
-          break
-        }
-      }
-    }
-
-    if (end === -1) {
-      break
-    }
-
-    const block = message.slice(start, end + 1)
-    processICUPlaceholderBlock(block, counts)
-  }
-}
-
-function processICUPlaceholderBlock(block, counts) {
-  const content = block.slice(1, -1)
-  if (!content) return
-
-  const trimmed = content.trim()
-  if (!trimmed) return
-
-  const splitIndex = findFirstTopLevelComma(trimmed)
-
-  if (splitIndex === -1) {
-    if (ICU_VARIABLE_NAME_PATTERN.test(trimmed)) {
-      counts.set(trimmed, (counts.get(trimmed) ?? 0) + 1)
-    } else {
-      collectICUPlaceholders(trimmed, counts)
-    }
-    return
-  }
-
-  const argName = trimmed.slice(0, splitIndex).trim()
-  const remainder = trimmed.slice(splitIndex + 1).trim()
-
-  if (ICU_VARIABLE_NAME_PATTERN.test(argName)) {
-    counts.set(argName, (counts.get(argName) ?? 0) + 1)
-  }
-
-  if (!remainder) {
-    return
-  }
-
-  const typeSeparatorIndex = findFirstTopLevelComma(remainder)
-  let type = remainder
-  let options = ''
-
-  if (typeSeparatorIndex !== -1) {
-    type = remainder.slice(0, typeSeparatorIndex).trim()
-    options = remainder.slice(typeSeparatorIndex + 1).trim()
-  } else {
-    type = type.trim()
-  }
-
-  if (ICU_SELECT_LIKE_TYPES.has(type)) {
-    processICUSelectLikeOptions(options, counts)
-    return
-  }
-
-  if (options) {
-    collectICUPlaceholders(options, counts)
-  } else {
-    collectICUPlaceholders(type, counts)
-  }
-}
-
-function processICUSelectLikeOptions(options, counts) {
-  if (!options) return
-
-  let index = 0
-  const { length } = options
-
-  while (index < length) {
-    while (index < length && /\s/.test(options[index])) {
-      index += 1
-    }
-
-    if (options.slice(index).startsWith('offset:')) {
-      index += 'offset:'.length
-      while (index < length && /\s/.test(options[index])) {
-        index += 1
-      }
-      while (index < length && /[0-9]/.test(options[index])) {
-        index += 1
-      }
-      continue
-    }
-
-    const braceIndex = options.indexOf('{', index)
-    if (braceIndex === -1) {
-      break
-    }
-
-    let depth = 0
-    let cursor = braceIndex
-
-    for (; cursor < length; cursor++) {
-      const char = options[cursor]
-      if (char === '{') {
-        depth += 1
-      } else if (char === '}') {
-        depth -= 1
-        if (depth === 0) {
-          break
-        }
-      }
-    }
-
-    if (depth !== 0) {
-      break
-    }
-
-    const blockContent = options.slice(braceIndex + 1, cursor)
-    collectICUPlaceholders(blockContent, counts)
-
-    index = cursor + 1
-  }
-}
-
-function extractICUVariableCounts(message) {
-  const counts = new Map()
-  collectICUPlaceholders(message, counts)
-  return counts
-}
-
 /**
  * 验证翻译质量
  * @param {string} original - 原文
  * @param {string} translated - 译文
+ * @param {Object} [options]
+ * @param {string[]} [options.plurals] - 需要 ICU plural 的计数变量
+ * @param {string[]} [options.categories] - 目标语言的复数类别
  * @returns {ValidationResult} 验证结果
  */
-function validateTranslation(original, translated) {
+export function validateTranslation(original, translated, { plurals = [], categories = ['other'] } = {}) {
   // 类型检查：必须是字符串
   if (typeof translated !== 'string') {
     return {
@@ -362,6 +214,19 @@ function validateTranslation(original, translated) {
     return { valid: false, reason: '翻译结果为空' }
   }
 
+  // 检查富文本标签是否完整保留且正确嵌套
+  const tagError = checkRichTextTags(original, translated)
+  if (tagError) {
+    return { valid: false, reason: tagError }
+  }
+
+  // 检查计数变量是否按目标语言的全部复数类别给出 plural 分支
+  const pluralError = checkPluralCategories(translated, plurals, categories)
+  if (pluralError) {
+    return { valid: false, reason: pluralError }
+  }
+  const usesPlural = plurals.length > 0 && categories.length > 1
+
   // 检查变量占位符是否保留: {var}
   const originalVarCounts = extractICUVariableCounts(original)
   const translatedVarCounts = extractICUVariableCounts(translated)
@@ -381,7 +246,8 @@ function validateTranslation(original, translated) {
       }
     }
     const translatedCount = translatedVarCounts.get(name)
-    if (translatedCount !== count) {
+    // plural 分支中变量会重复出现，只要求存在
+    if (!usesPlural && translatedCount !== count) {
       return {
         valid: false,
         reason: `变量占位符次数不匹配：${name}（原文 ${count} 次，译文 ${translatedCount} 次）`
@@ -400,121 +266,39 @@ function delay(ms) {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
-/**
- * 限流请求
- */
-async function rateLimitedFetch(url, options) {
-  const config = useConfig()
-  const provider = config.aiProvider
-  const retries = provider.maxRetries
-  const now = Date.now()
-  const timeSinceLastRequest = now - RATE_LIMIT.lastRequestTime
-  const minInterval = (60 * 1000) / provider.requestsPerMinute
-
-  if (timeSinceLastRequest < minInterval) {
-    await delay(minInterval - timeSinceLastRequest)
-  }
-
-  for (let i = 0; i < retries; i++) {
-    try {
-      const response = await fetch(url, options)
-
-      if (response.status === 429) {
-        const retryAfter = parseInt(response.headers.get('Retry-After') || '60', 10)
-        console.warn(`警告: 触发速率限制，等待 ${retryAfter} 秒后重试...`)
-        await delay(retryAfter * 1000)
-        continue
-      }
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`API 错误 ${response.status}: ${error}`)
-      }
-
-      // 只在成功时更新请求时间
-      RATE_LIMIT.lastRequestTime = Date.now()
-      return response
-    } catch (error) {
-      if (i === retries - 1) throw error
-      console.warn(`警告: 请求失败，${retries - i - 1} 次重试剩余: ${error.message}`)
-      await delay(Math.pow(2, i) * 1000)
-    }
-  }
-}
-
-/**
- * 调用 AI 提供商接口
- * @param {Array} messages - 消息数组
- * @param {Object} options - 可选参数
- * @returns {Promise<string>} API 响应内容
- */
-async function callAIProvider(messages, options = {}) {
-  const config = useConfig()
-  const provider = config.aiProvider
-  const { headers: headerOverrides, ...bodyOverrides } = options
-  const requestBody = {
-    model: provider.model,
-    messages,
-    temperature: bodyOverrides.temperature ?? provider.temperature,
-    max_tokens:
-      bodyOverrides.max_tokens ?? config.translation.maxTokensPerRequest ?? provider.maxTokens,
-    ...provider.request?.body,
-    ...bodyOverrides
-  }
-
-  const headers = {
-    'Content-Type': 'application/json',
-    Authorization: `Bearer ${provider.apiKey}`,
-    ...(provider.request?.headers || {}),
-    ...(headerOverrides || {})
-  }
-
-  const response = await rateLimitedFetch(provider.apiUrl, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(requestBody)
-  })
-
-  const data = await response.json()
-
-  // 健壮性检查：处理 API 错误响应
-  if (data.error) {
-    throw new Error(`AI 服务响应错误: ${data.error.message || JSON.stringify(data.error)}`)
-  }
-
-  if (!data.choices || data.choices.length === 0) {
-    throw new Error(`AI 服务返回空结果: ${JSON.stringify(data)}`)
-  }
-
-  if (!data.choices[0].message?.content) {
-    throw new Error(`AI 服务返回无效内容: ${JSON.stringify(data.choices[0])}`)
-  }
-
-  return data.choices[0].message.content
-}
+const EMPTY_GLOSSARY = { entries: {}, doNotTranslate: [] }
 
 /**
  * 批量翻译
  * @param {TranslationEntry[]} entries - 待翻译条目
  * @param {string} targetLang - 目标语言
  * @param {Record<string, string>} existingTranslations - 现有翻译（用于缺失 key 的兜底）
- * @returns {Promise<Record<string, string>>} 翻译结果
+ * @param {import('./glossary.js').Glossary} [glossary] - 术语表
+ * @returns {Promise<{translations: Record<string, string>, fallbackKeys: string[], reviewKeys: string[]}>}
+ *   翻译结果、保留现有译文的 key 与需要人工审校的 key
  */
-async function batchTranslate(entries, targetLang, existingTranslations = {}) {
+async function batchTranslate(entries, targetLang, existingTranslations = {}, glossary = EMPTY_GLOSSARY) {
   const config = useConfig()
   const languageMap = useLanguageMap()
   const langInfo = languageMap[targetLang]
   const sourceLangInfo = languageMap[config.languages.source]
+  const pluralCategories = getPluralCategories(langInfo.code ?? targetLang)
+  const glossaryTerms = getGlossaryTerms(glossary, targetLang, entries.map(({ text }) => text))
+  const glossaryPrompt = formatGlossaryPrompt(glossaryTerms)
 
   // 构建批量翻译的 prompt
   const systemPrompt = `你是一个专业的i18n翻译专家。你需要将${sourceLangInfo.name}文本翻译成${langInfo.name}。
 
 翻译要求：
 1. 保持专业、准确、自然的翻译
-2. 保留文本中的变量占位符（如 {variable}）
+2. 保留文本中的变量占位符（如 {variable}）与标签（如 <0>…</0>、<a href="/terms">…</a>），
+   标签可随语序调整位置，但不要增删标签或修改标签属性
 3. 保持原文的语气和风格
 4. 对于技术术语，使用标准译法
-5. 返回的必须是有效的 JSON 对象
+5. 如提供了译者说明，按说明中的使用场景、词性与长度限制翻译，说明本身不要写入译文
+6. 如指明了表示数量的变量，且目标语言区分单复数，使用 ICU plural 语法并给出全部复数类别，
+   如 {count, plural, one {# record} other {# records}}（# 代表数量本身）
+7. 返回的必须是有效的 JSON 对象${glossaryPrompt ? `\n\n${glossaryPrompt}` : ''}
 
 返回格式：JSON 对象，key 必须保持与输入一致的 i18n 标识符（不是原文内容），value 为译文。
 
@@ -532,21 +316,54 @@ async function batchTranslate(entries, targetLang, existingTranslations = {}) {
 }`
 
   const inputData = {}
-  for (const { key, text } of entries) {
+  const noteLines = []
+  const pluralLines = []
+  const pluralsByKey = {}
+  for (const { key, text, notes, plurals } of entries) {
     inputData[key] = text
+    if (notes?.length > 0) {
+      noteLines.push(`- ${key}: ${notes.join('；')}`)
+    }
+    // 目标语言只有 other 一个类别时（如日语）无需 plural
+    if (plurals?.length > 0 && pluralCategories.length > 1) {
+      pluralsByKey[key] = plurals
+      pluralLines.push(`- ${key}: ${plurals.join(', ')}`)
+    }
   }
 
+  const notesSection =
+    noteLines.length > 0
+      ? `\n\n以下 key 附有开发者提供的译者说明：\n${noteLines.join('\n')}`
+      : ''
+  const pluralSection =
+    pluralLines.length > 0
+      ? `\n\n以下 key 中的变量表示数量，请使用 ICU plural 语法，${langInfo.name}需要的复数类别为 ${pluralCategories.join(', ')}：\n${pluralLines.join('\n')}`
+      : ''
+
   const userPrompt = `请将以下${sourceLangInfo.name}文本翻译成${langInfo.name}：
 
-${JSON.stringify(inputData, null, 2)}
+${JSON.stringify(inputData, null, 2)}${notesSection}${pluralSection}
 
 请返回 JSON 格式的翻译结果：`
 
   try {
-    const result = await callAIProvider([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ])
+    const result = await callAIProvider(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      {
+        task: {
+          type: 'translate',
+          locale: targetLang,
+          input: inputData,
+          plurals: pluralsByKey,
+          categories: pluralCategories,
+          glossary: Object.fromEntries(glossaryTerms.terms.map(({ source, target }) => [source, target]))
+        }
+      },
+      config
+    )
 
     // 解析 JSON 结果
     let cleanedResult = result.trim()
@@ -588,6 +405,10 @@ ${JSON.stringify(inputData, null, 2)}
     const inputKeys = Object.keys(inputData)
     const missingKeys = inputKeys.filter((k) => !(k in translations))
     const validTranslations = {}
+    // 保留现有译文作为兜底的 key
+    const fallbackKeys = []
+    // 术语检查仅警告、需要人工审校的 key
+    const reviewKeys = []
 
     // 对缺失的 key，如果有现有翻译就保留，否则抛出错误
     if (missingKeys.length > 0) {
@@ -596,6 +417,7 @@ ${JSON.stringify(inputData, null, 2)}
         if (existingTranslations[key]) {
           // 有现有翻译，保留它
           validTranslations[key] = existingTranslations[key]
+          fallbackKeys.push(key)
         } else {
           // 没有现有翻译，记录为失败
           missingWithoutFallback.push(key)
@@ -618,12 +440,24 @@ ${JSON.stringify(inputData, null, 2)}
       }
 
       // 质量检查
-      const validation = validateTranslation(originalText, translation)
+      let validation = validateTranslation(originalText, translation, {
+        plurals: pluralsByKey[key],
+        categories: pluralCategories
+      })
+      // 术语检查：glossaryCheck 为 warn 时只提示，不影响译文写入
+      const glossaryIssue = validation.valid ? checkGlossary(originalText, translation, glossaryTerms) : null
+      if (glossaryIssue && config.translation.glossaryCheck === 'warn') {
+        console.warn(`  警告: ${glossaryIssue} [${key}]`)
+        reviewKeys.push(key)
+      } else if (glossaryIssue) {
+        validation = { valid: false, reason: glossaryIssue }
+      }
       if (!validation.valid) {
         // 质量不合格的翻译
         if (existingTranslations[key]) {
           // 有现有翻译，保留它
           validTranslations[key] = existingTranslations[key]
+          fallbackKeys.push(key)
         } else {
           // 没有现有翻译，抛出错误
           throw new Error(
@@ -639,23 +473,47 @@ ${JSON.stringify(inputData, null, 2)}
       validTranslations[key] = translation
     }
 
-    return validTranslations
+    return { translations: validTranslations, fallbackKeys, reviewKeys }
   } catch (error) {
     console.error('批量翻译失败:', error.message)
     throw error
   }
 }
 
+/**
+ * 翻译记忆中的译文能否用于当前 key：需通过与 AI 译文相同的质量检查，术语表按 error 模式校验
+ * @param {string} text - 原文
+ * @param {string} translation - 记忆中的译文
+ * @param {Object} context
+ * @param {string} context.targetLang - 目标语言
+ * @param {string[]} [context.plurals] - key 的计数变量
+ * @param {string[]} context.categories - 目标语言的复数类别
+ * @param {import('./glossary.js').Glossary} context.glossary - 术语表
+ * @returns {boolean}
+ */
+function isReusableTranslation(text, translation, { targetLang, plurals, categories, glossary }) {
+  const validation = validateTranslation(text, translation, {
+    plurals: categories.length > 1 ? plurals : undefined,
+    categories
+  })
+  if (!validation.valid) return false
+  return checkGlossary(text, translation, getGlossaryTerms(glossary, targetLang, [text])) === null
+}
+
 /**
  * 翻译单个语言
  * @param {Record<string, string>} sourceData - 源语言数据
  * @param {string} targetLang - 目标语言
  * @param {Object} options - 配置选项
  * @param {boolean} options.force - 是否强制重新翻译
+ * @param {Record<string, {notes?: string[], plurals?: string[]}>} [options.details] - key 对应的译者说明与计数变量
+ * @param {import('./glossary.js').Glossary} [options.glossary] - 术语表
+ * @param {import('./translation-memory.js').TranslationMemory} [options.memory] - 翻译记忆
+ * @param {{memory: number, ai: number}} [options.stats] - 译文来源统计，翻译过程中累加
  * @returns {Promise<Record<string, string>>} 翻译结果
  */
 async function translateLanguage(sourceData, targetLang, options = {}) {
-  const { force = false } = options
+  const { force = false, details = {}, glossary = EMPTY_GLOSSARY, memory, stats = { memory: 0, ai: 0 } } = options
   const config = useConfig()
   const languageMap = useLanguageMap()
   const translateConfig = useTranslateConfig()
@@ -706,23 +564,89 @@ async function translateLanguage(sourceData, targetLang, options = {}) {
     }
   }
 
+  const pluralCategories = getPluralCategories(langInfo.code ?? targetLang)
+
+  // 元数据只保留源语言中仍存在的 key；原文指纹与记录不一致的译文已过期，需要重新翻译
+  const previousMeta = readLocaleMeta(config, targetLang)
+  const outdatedKeys = new Set(findOutdatedKeys(sourceData, existingTranslations, previousMeta))
+  const meta = {}
+  for (const key of Object.keys(sourceData)) {
+    if (previousMeta[key]) meta[key] = previousMeta[key]
+  }
+
+  const saveResults = () => {
+    fs.writeFileSync(targetFilePath, JSON.stringify(results, null, 2), 'utf-8')
+    writeLocaleMeta(config, targetLang, meta)
+  }
+
+  // 已审校或锁定的译文（包括原文已修改的）保持不变，需要更新时通过 review 命令处理
+  const protectedKeys = []
+
   for (const [key, text] of Object.entries(sourceData)) {
     const existingValue = existingTranslations[key]
+    const isProtected =
+      isProtectedStatus(meta[key]?.status) && typeof existingValue === 'string' && existingValue.trim().length > 0
+    if (isProtected) {
+      protectedKeys.push(key)
+      // 已审校的译文写入翻译记忆，供其他 key 与项目复用
+      if (memory && !outdatedKeys.has(key)) {
+        memory.record(targetLang, text, existingValue, { key, origin: 'catalog', status: meta[key].status })
+      }
+      continue
+    }
+
+    const upToDate = !outdatedKeys.has(key) && !needsTranslation(existingValue, text)
+
+    // 启用元数据之前已有的译文无从判断，以当前原文为基准
+    if (upToDate && !meta[key]) {
+      meta[key] = { sourceHash: hashSourceText(text) }
+    }
 
     // 检查现有翻译是否需要重新翻译
-    if (!needsTranslation(existingValue, text, { force })) {
+    if (upToDate && !force) {
       // 已有可用翻译 -> 保留（已在results中）
       continue
     }
 
-    // 需要翻译（值为空、与中文原文相同、或 force 模式）
-    toTranslate.push({ key, text })
+    // 翻译记忆中有相同原文的译文，且仍能通过质量与术语检查时直接复用（force 模式下始终重新翻译）
+    const remembered = force ? null : memory?.lookup(targetLang, text)
+    const reusable =
+      remembered &&
+      isReusableTranslation(text, remembered.entry.translation, {
+        targetLang,
+        plurals: details[key]?.plurals,
+        categories: pluralCategories,
+        glossary
+      })
+    if (reusable) {
+      results[key] = remembered.entry.translation
+      // 仅空白不同的原文可能需要调整译文中的空白与换行
+      meta[key] = {
+        sourceHash: hashSourceText(text),
+        status: remembered.match === 'exact' ? 'machine' : 'needs-review'
+      }
+      stats.memory += 1
+      continue
+    }
+
+    // 需要翻译（值为空、原文已修改、或 force 模式）
+    toTranslate.push({ key, text, notes: details[key]?.notes, plurals: details[key]?.plurals })
+  }
+
+  if (outdatedKeys.size > 0 && !force) {
+    console.log(`  原文已修改: ${outdatedKeys.size} 条`)
+  }
+  if (protectedKeys.length > 0) {
+    console.log(`  已审校，保持不变: ${protectedKeys.length} 条`)
+  }
+  if (stats.memory > 0) {
+    console.log(`  翻译记忆命中: ${stats.memory} 条`)
   }
 
   if (toTranslate.length === 0) {
     console.log(`✓ 无需翻译，所有 ${Object.keys(sourceData).length} 条已存在`)
     // 即使不需要翻译，也要写入文件（可能目标文件不存在）
-    fs.writeFileSync(targetFilePath, JSON.stringify(results, null, 2), 'utf-8')
+    saveResults()
     console.log(`✓ 文件已保存: ${targetFilePath}`)
     return results
   }
@@ -841,17 +765,30 @@ async function translateLanguage(sourceData, targetLang, options = {}) {
       console.log(`  批次 ${index + 1}/${batches.length} (${batch.length} 条)...`)
 
       startSpinner()
-      const translations = await batchTranslate(batch, targetLang, existingTranslations)
+      const { translations, fallbackKeys, reviewKeys } = await batchTranslate(
+        batch,
+        targetLang,
+        existingTranslations,
+        glossary
+      )
 
       for (const [key, translation] of Object.entries(translations)) {
         results[key] = translation
+        // 兜底保留的现有译文不计为 AI 翻译，原文指纹也保持不变
+        if (!fallbackKeys.includes(key)) {
+          stats.ai += 1
+          meta[key] = {
+            sourceHash: hashSourceText(sourceData[key]),
+            status: reviewKeys.includes(key) ? 'needs-review' : 'machine'
+          }
+        }
       }
 
       completed += batch.length
       renderProgressLine()
 
       // 每批次完成后立即保存，防止超时时丢失进度
-      fs.writeFileSync(targetFilePath, JSON.stringify(results, null, 2), 'utf-8')
+      saveResults()
 
       // 批次间延迟（从配置读取）
       if (index < batches.length - 1) {
@@ -942,32 +879,54 @@ async function translateLanguage(sourceData, targetLang, options = {}) {
   renderProgressLine({ finalIcon: '✓', withNewline: true })
 
   // 保存翻译结果
-  fs.writeFileSync(targetFilePath, JSON.stringify(results, null, 2), 'utf-8')
+  saveResults()
   console.log(`✓ 翻译完成: ${targetFilePath}`)
 
   return results
 }
 
+/**
+ * 生成伪本地化语言文件，每次由源语言全量生成
+ * @param {Record<string, string>} sourceData - 源语言数据
+ * @param {string} locale - 伪本地化语言代码
+ * @param {Object} config - 当前配置
+ * @returns {Record<string, string>} 伪本地化结果
+ */
+function writePseudoLocale(sourceData, locale, config) {
+  console.log(`\n生成伪本地化语言 (${locale})...`)
+
+  const results = pseudoLocalizeMessages(sourceData, config.pseudo)
+  const targetFilePath = config.getOutputPath(locale)
+  fs.mkdirSync(path.dirname(targetFilePath), { recursive: true })
+  fs.writeFileSync(targetFilePath, JSON.stringify(results, null, 2), 'utf-8')
+  console.log(`✓ 文件已保存: ${targetFilePath}`)
+
+  return results
+}
+
 export async function translate(options = {}) {
   const config = options.config ?? getConfig()
   setTranslateContext(config)
 
   console.log('开始自动翻译...\n')
 
-  if (!config.aiProvider?.apiKey) {
-    throw new Error('未配置 AI 服务 API Key（aiProvider.apiKey）')
-  }
-
   const force = options.force ?? false
   const languageMap = useLanguageMap()
+  const pseudoLocale = config.pseudo.locale
 
   let targetLangs = options.targetLanguages
   if (!Array.isArray(targetLangs) || targetLangs.length === 0) {
     targetLangs = config.languages.targets.filter((lang) => lang !== config.languages.source)
   }
 
+  // 伪本地化语言由源语言文件直接生成，不调用 AI 服务
+  const needsAIProvider = targetLangs.some((lang) => lang !== pseudoLocale)
+  if (needsAIProvider && requiresApiKey(config.aiProvider) && !config.aiProvider.apiKey) {
+    throw new Error('未配置 AI 服务 API Key（aiProvider.apiKey）')
+  }
+
   for (const lang of targetLangs) {
-    if (!languageMap[lang]) {
+    if (lang !== pseudoLocale && !languageMap[lang]) {
       throw new Error(
         `不支持的目标语言: ${lang}，支持的语言: ${Object.keys(languageMap).join(', ')}`
       )
@@ -980,12 +939,33 @@ export async function translate(options = {}) {
   }
 
   const sourceData = JSON.parse(fs.readFileSync(sourceFilePath, 'utf-8'))
+  const details = readSourceDetails(config)
+  const glossary = loadGlossary(config)
+  const memory = new TranslationMemory(config)
+  memory.load()
 
   const startTime = Date.now()
   const results = {}
+  const stats = {}
 
-  for (const targetLang of targetLangs) {
-    results[targetLang] = await translateLanguage(sourceData, targetLang, { force })
+  try {
+    for (const targetLang of targetLangs) {
+      stats[targetLang] = { memory: 0, ai: 0 }
+      if (targetLang === pseudoLocale) {
+        results[targetLang] = writePseudoLocale(sourceData, targetLang, config)
+        continue
+      }
+      results[targetLang] = await translateLanguage(sourceData, targetLang, {
+        force,
+        details,
+        glossary,
+        memory,
+        stats: stats[targetLang]
+      })
+    }
+  } finally {
+    // 翻译失败时同样保存已通过校验的译文
+    memory.save()
   }
 
   const duration = (Date.now() - startTime) / 1000
@@ -994,6 +974,7 @@ export async function translate(options = {}) {
     force,
     targetLangs,
     duration: Number(duration.toFixed(2)),
-    results
+    results,
+    stats
   }
 }
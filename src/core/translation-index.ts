@@ -0,0 +1,227 @@
+/**
+ * 翻译字典的文本索引
+ *
+ * 按「文本 + 插值变量集合」为每个翻译字典维护一份索引，使 key 复用查找为常数时间，
+ * 避免每条文案都遍历整个字典。索引在首次查找时由字典现有条目懒构建，
+ * 之后对字典的写入需通过 setTranslation / deleteTranslation 同步到索引。
+ * 新生成的 key 通过 claimTranslationKey 写入：key 已被其它文案占用时追加序号后缀，
+ * 并把冲突记录在该字典上，供 detectKeyCollisions 汇总。
+ */
+
+import type { KeyCollision, KeyLocation, TranslationValue } from '../types.js'
+
+type TranslationDict = Record<string, TranslationValue>
+
+interface TranslationIndex {
+  // 签名 -> 具有该签名的 key
+  signatures: Map<string, Set<string>>
+  // key -> 首次写入序号，与对象属性的枚举顺序一致，用于在多个匹配中选出最早写入的 key
+  order: Map<string, number>
+  nextOrder: number
+}
+
+interface ClaimLog {
+  // key -> 首次写入该 key 的源码位置
+  locations: Map<string, KeyLocation>
+  collisions: KeyCollision[]
+}
+
+const indexes = new WeakMap<object, TranslationIndex>()
+const claimLogs = new WeakMap<object, ClaimLog>()
+
+function getText(value: TranslationValue): string {
+  return typeof value === 'string' ? value : value.text
+}
+
+function getVars(value: TranslationValue): string[] {
+  return typeof value === 'string' ? [] : value.interpolations || []
+}
+
+/**
+ * 文本与插值变量集合的签名，变量顺序不影响结果
+ */
+export function getTranslationSignature(text: string, vars: string[] = []): string {
+  return JSON.stringify([text, [...vars].sort()])
+}
+
+function signatureOf(value: TranslationValue): string {
+  return getTranslationSignature(getText(value), getVars(value))
+}
+
+function addToIndex(index: TranslationIndex, key: string, value: TranslationValue): void {
+  if (!index.order.has(key)) {
+    index.order.set(key, index.nextOrder)
+    index.nextOrder += 1
+  }
+
+  const signature = signatureOf(value)
+  const keys = index.signatures.get(signature)
+  if (keys) {
+    keys.add(key)
+  } else {
+    index.signatures.set(signature, new Set([key]))
+  }
+}
+
+function removeFromIndex(index: TranslationIndex, key: string, value: TranslationValue): void {
+  const signature = signatureOf(value)
+  const keys = index.signatures.get(signature)
+  if (!keys) return
+  keys.delete(key)
+  if (keys.size === 0) {
+    index.signatures.delete(signature)
+  }
+}
+
+function getIndex(translations: TranslationDict): TranslationIndex {
+  let index = indexes.get(translations)
+  if (!index) {
+    index = { signatures: new Map(), order: new Map(), nextOrder: 0 }
+    for (const [key, value] of Object.entries(translations)) {
+      addToIndex(index, key, value)
+    }
+    indexes.set(translations, index)
+  }
+  return index
+}
+
+/**
+ * 查找文本与插值变量都相同、可直接复用的 key
+ * @param translations - 翻译字典
+ * @param text - 文案
+ * @param vars - 插值变量名
+ * @returns 最早写入的匹配 key，不存在时返回 undefined
+ */
+export function findReusableKey(translations: TranslationDict, text: string, vars: string[] = []): string | undefined {
+  const index = getIndex(translations)
+  const signature = getTranslationSignature(text, vars)
+  const keys = index.signatures.get(signature)
+  if (!keys) return undefined
+
+  let found: string | undefined
+  for (const key of Array.from(keys)) {
+    const value = translations[key]
+    // 绕过 setTranslation 的删除或覆盖会使索引过期，命中时再校验一次
+    if (value === undefined || signatureOf(value) !== signature) {
+      keys.delete(key)
+      continue
+    }
+    if (found === undefined || (index.order.get(key) ?? 0) < (index.order.get(found) ?? 0)) {
+      found = key
+    }
+  }
+
+  if (keys.size === 0) {
+    index.signatures.delete(signature)
+  }
+  return found
+}
+
+/**
+ * 写入翻译条目并同步索引
+ */
+export function setTranslation(translations: TranslationDict, key: string, value: TranslationValue): void {
+  const index = indexes.get(translations)
+  if (index) {
+    const previous = translations[key]
+    if (previous !== undefined) {
+      removeFromIndex(index, key, previous)
+    }
+    addToIndex(index, key, value)
+  }
+  translations[key] = value
+}
+
+/**
+ * 删除翻译条目并同步索引
+ */
+export function deleteTranslation(translations: TranslationDict, key: string): void {
+  const index = indexes.get(translations)
+  const previous = translations[key]
+  if (index && previous !== undefined) {
+    removeFromIndex(index, key, previous)
+    index.order.delete(key)
+  }
+  delete translations[key]
+}
+
+function getClaimLog(translations: TranslationDict): ClaimLog {
+  let log = claimLogs.get(translations)
+  if (!log) {
+    log = { locations: new Map(), collisions: [] }
+    claimLogs.set(translations, log)
+  }
+  return log
+}
+
+function getLocation(value: TranslationValue, location?: Partial<KeyLocation>): KeyLocation {
+  return {
+    file: location?.file ?? (typeof value === 'string' ? '' : value.context),
+    line: location?.line ?? null,
+    column: location?.column ?? null
+  }
+}
+
+/**
+ * 为新文案写入生成的 key。key 已被文本或插值不同的文案占用时，依次尝试 key_2、key_3……
+ * 直到找到空闲或文案相同的 key；冲突会记录在该字典上。
+ * @param translations - 翻译字典
+ * @param key - 生成的 key
+ * @param value - 翻译条目
+ * @param location - 文案在源码中的位置
+ * @returns 实际使用的 key
+ */
+export function claimTranslationKey(
+  translations: TranslationDict,
+  key: string,
+  value: TranslationValue,
+  location?: Partial<KeyLocation>
+): string {
+  const log = getClaimLog(translations)
+  const signature = signatureOf(value)
+  let candidate = key
+
+  for (let suffix = 2; ; suffix += 1) {
+    const existing = Object.prototype.hasOwnProperty.call(translations, candidate) ? translations[candidate] : undefined
+    if (existing === undefined) {
+      setTranslation(translations, candidate, value)
+      log.locations.set(candidate, getLocation(value, location))
+      break
+    }
+    // 命中此前已分配后缀的相同文案时直接复用，冲突已在首次分配时记录
+    if (signatureOf(existing) === signature) return candidate
+    candidate = `${key}_${suffix}`
+  }
+
+  if (candidate !== key) {
+    const existing = translations[key]
+    log.collisions.push({
+      key,
+      texts: [getText(existing), getText(value)],
+      resolvedKey: candidate,
+      locations: [log.locations.get(key) ?? getLocation(existing), getLocation(value, location)]
+    })
+  }
+  return candidate
+}
+
+/**
+ * 通过 claimTranslationKey 写入的 key 在源码中的位置
+ */
+export function getKeyLocation(translations: TranslationDict, key: string): KeyLocation | undefined {
+  return claimLogs.get(translations)?.locations.get(key)
+}
+
+/**
+ * 写入时检测到的 key 冲突
+ */
+export function getKeyCollisions(translations: TranslationDict): KeyCollision[] {
+  return [...(claimLogs.get(translations)?.collisions ?? [])]
+}
+
+/**
+ * 追加在其它字典上检测到的冲突（如 worker 中转换、由主线程回放的文件）
+ */
+export function recordKeyCollisions(translations: TranslationDict, collisions: KeyCollision[]): void {
+  getClaimLog(translations).collisions.push(...collisions)
+}
@@ -0,0 +1,199 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { isProtectedStatus } from './locale-meta.js'
+import type { ForgeI18nConfig, TranslationStatus } from '../types.js'
+
+// 存储结构变化时递增，旧版本文件整体忽略
+const MEMORY_VERSION = 1
+
+export type TranslationMemoryOrigin = 'ai' | 'catalog'
+
+export interface TranslationMemoryEntry {
+  translation: string
+  /** 写入该条目的项目 */
+  project: string
+  /** 写入时对应的 key */
+  key: string
+  /** catalog：语言文件中已审校的译文；ai：旧版本写入的 AI 译文，不再写入也不会被复用 */
+  origin: TranslationMemoryOrigin
+  /** 写入时的审校状态，只有 reviewed 与 locked 的条目会被复用 */
+  status?: TranslationStatus
+  createdAt: string
+  updatedAt: string
+}
+
+interface TranslationMemoryStore {
+  version: number
+  /** 目标语言 -> 原文 -> 条目 */
+  locales: Record<string, Record<string, TranslationMemoryEntry>>
+}
+
+export interface TranslationMemoryMatch {
+  entry: TranslationMemoryEntry
+  /** exact：原文完全相同；normalized：仅空白字符不同 */
+  match: 'exact' | 'normalized'
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+function readStore(filePath: string): TranslationMemoryStore['locales'] {
+  if (!fs.existsSync(filePath)) return {}
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TranslationMemoryStore
+    if (data?.version === MEMORY_VERSION && data.locales && typeof data.locales === 'object') {
+      return data.locales
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.warn('警告: 加载翻译记忆失败:', error.message)
+    }
+  }
+  return {}
+}
+
+function resolveProjectName(config: ForgeI18nConfig): string {
+  if (config.translationMemory?.project) return config.translationMemory.project
+
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(config.projectRoot, 'package.json'), 'utf-8')) as {
+      name?: unknown
+    }
+    if (typeof pkg.name === 'string' && pkg.name) return pkg.name
+  } catch (error) {
+    // 没有 package.json 时使用目录名
+  }
+  return path.basename(config.projectRoot)
+}
+
+/**
+ * 翻译记忆：按「目标语言 + 原文」记录已审校或锁定的译文，跨 key、跨项目复用。
+ * 查找时先精确匹配原文，再忽略空白差异匹配；保存时与磁盘上的文件合并，
+ * 多个项目共享同一文件时不会覆盖彼此在本次运行期间新增的条目。
+ */
+export class TranslationMemory {
+  private readonly filePath: string
+  private readonly project: string
+  private readonly enabled: boolean
+  private locales: TranslationMemoryStore['locales'] = {}
+  // 目标语言 -> 规范化原文 -> 原文
+  private normalized = new Map<string, Map<string, string>>()
+  // 本次运行新增或更新的条目：目标语言 -> 原文集合
+  private changed = new Map<string, Set<string>>()
+
+  constructor(config: ForgeI18nConfig) {
+    this.filePath = config.paths.translationMemory
+    this.project = resolveProjectName(config)
+    this.enabled = config.translationMemory?.enabled === true
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled
+  }
+
+  load(): void {
+    this.locales = {}
+    this.normalized.clear()
+    this.changed.clear()
+    if (!this.enabled) return
+
+    this.locales = readStore(this.filePath)
+    for (const [locale, entries] of Object.entries(this.locales)) {
+      Object.keys(entries).forEach((source) => this.index(locale, source))
+    }
+  }
+
+  private index(locale: string, source: string): void {
+    let byLocale = this.normalized.get(locale)
+    if (!byLocale) {
+      byLocale = new Map()
+      this.normalized.set(locale, byLocale)
+    }
+    const normalized = normalizeWhitespace(source)
+    // 同一规范化文本保留最早写入的原文
+    if (!byLocale.has(normalized)) {
+      byLocale.set(normalized, source)
+    }
+  }
+
+  /**
+   * 查找原文在目标语言下已审校的译文，未审校的条目（如旧版本写入的 AI 译文）不返回
+   */
+  lookup(locale: string, source: string): TranslationMemoryMatch | null {
+    if (!this.enabled) return null
+
+    const entries = this.locales[locale]
+    if (!entries) return null
+
+    if (Object.prototype.hasOwnProperty.call(entries, source)) {
+      const entry = entries[source]
+      return isProtectedStatus(entry.status) ? { entry, match: 'exact' } : null
+    }
+
+    const original = this.normalized.get(locale)?.get(normalizeWhitespace(source))
+    const entry = original === undefined ? undefined : entries[original]
+    return entry && isProtectedStatus(entry.status) ? { entry, match: 'normalized' } : null
+  }
+
+  /**
+   * 记录已审校或锁定的译文，其他状态的译文忽略；译文与状态均未变化时保持原条目不动
+   */
+  record(
+    locale: string,
+    source: string,
+    translation: string,
+    { key, origin, status }: { key: string; origin: TranslationMemoryOrigin; status: TranslationStatus | undefined }
+  ): void {
+    if (!this.enabled || !source || !translation || !isProtectedStatus(status)) return
+
+    const entries = (this.locales[locale] ??= {})
+    const previous = Object.prototype.hasOwnProperty.call(entries, source) ? entries[source] : undefined
+    if (previous?.translation === translation && previous.status === status) return
+
+    const now = new Date().toISOString()
+    entries[source] = {
+      translation,
+      project: this.project,
+      key,
+      origin,
+      status,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now
+    }
+    this.index(locale, source)
+
+    let changed = this.changed.get(locale)
+    if (!changed) {
+      changed = new Set()
+      this.changed.set(locale, changed)
+    }
+    changed.add(source)
+  }
+
+  save(): void {
+    if (!this.enabled || this.changed.size === 0) return
+
+    try {
+      // 重新读取文件，只写入本次运行变化的条目
+      const locales = readStore(this.filePath)
+      for (const [locale, sources] of this.changed) {
+        const entries = (locales[locale] ??= {})
+        for (const source of sources) {
+          entries[source] = this.locales[locale][source]
+        }
+      }
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const store: TranslationMemoryStore = { version: MEMORY_VERSION, locales }
+      fs.writeFileSync(this.filePath, JSON.stringify(store, null, 2), 'utf-8')
+      this.changed.clear()
+    } catch (error) {
+      if (error instanceof Error) {
+        console.warn('警告: 保存翻译记忆失败:', error.message)
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { Worker } from 'node:worker_threads'
+
+interface PoolTask<TPayload, TResult> {
+  payload: TPayload
+  resolve: (value: TResult) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * 固定大小的 worker_threads 线程池：每个线程同一时间只处理一个任务，
+ * 其余任务排队等待。线程异常退出时拒绝其当前任务并补充新线程。
+ */
+export class WorkerPool<TPayload, TResult> {
+  private readonly script: URL
+  private readonly workerData: unknown
+  private readonly idle: Worker[] = []
+  private readonly workers = new Set<Worker>()
+  private readonly queue: Array<PoolTask<TPayload, TResult>> = []
+  private readonly active = new Map<Worker, PoolTask<TPayload, TResult>>()
+  private closed = false
+
+  constructor(script: URL, size: number, workerData?: unknown) {
+    this.script = script
+    this.workerData = workerData
+    for (let index = 0; index < Math.max(1, size); index += 1) {
+      this.spawn()
+    }
+  }
+
+  private spawn(): void {
+    const worker = new Worker(this.script, { workerData: this.workerData })
+    this.workers.add(worker)
+
+    worker.on('message', (message: TResult) => {
+      const task = this.active.get(worker)
+      if (!task) return
+      this.active.delete(worker)
+      this.idle.push(worker)
+      task.resolve(message)
+      this.drain()
+    })
+
+    const handleFailure = (error: Error) => {
+      if (!this.workers.has(worker)) return
+      this.workers.delete(worker)
+      const idleIndex = this.idle.indexOf(worker)
+      if (idleIndex !== -1) this.idle.splice(idleIndex, 1)
+
+      const task = this.active.get(worker)
+      this.active.delete(worker)
+      task?.reject(error)
+
+      if (!this.closed) {
+        this.spawn()
+      }
+    }
+
+    worker.on('error', handleFailure)
+    worker.on('exit', (code) => {
+      handleFailure(new Error(`worker 线程异常退出 (code ${code})`))
+    })
+
+    this.idle.push(worker)
+    this.drain()
+  }
+
+  private drain(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.shift()!
+      const task = this.queue.shift()!
+      this.active.set(worker, task)
+      worker.postMessage(task.payload)
+    }
+  }
+
+  run(payload: TPayload): Promise<TResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('线程池已关闭'))
+    }
+    return new Promise<TResult>((resolve, reject) => {
+      this.queue.push({ payload, resolve, reject })
+      this.drain()
+    })
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    for (const task of this.queue.splice(0)) {
+      task.reject(new Error('线程池已关闭'))
+    }
+    const workers = Array.from(this.workers)
+    this.workers.clear()
+    this.idle.length = 0
+    await Promise.all(workers.map((worker) => worker.terminate()))
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * XLIFF 1.2 / 2.0 读写
+ *
+ * 每个 key 对应一个翻译单元，原文与译文中的简单 ICU 参数（如 `{count}`）写为受保护的 <ph> 内联元素，
+ * 避免译者在 CAT 工具中误改；plural / select 等复杂结构保留为文本，由译者翻译其中的分支。
+ */
+
+import { escapeXml, findXmlElements, getXmlText, parseXml } from '../utils/xml.js'
+import { findClosingBrace } from './icu-utils.js'
+import { isPendingReview } from './locale-meta.js'
+import type {
+  ExchangeCatalog,
+  ExchangeUnit,
+  ParsedExchangeCatalog,
+  ParsedExchangeUnit,
+  TranslationStatus
+} from '../types.js'
+import type { XmlElement } from '../utils/xml.js'
+
+type XliffVersion = '1.2' | '2.0'
+
+type MessagePart = { type: 'text'; value: string } | { type: 'placeholder'; value: string }
+
+const SIMPLE_ARGUMENT_PATTERN = /^\s*[A-Za-z_$][\w$]*\s*$/
+
+// XLIFF 1.2 中表示尚未完成翻译或需要复核的 state
+const PENDING_STATES_V1 = new Set([
+  'new',
+  'needs-translation',
+  'needs-l10n',
+  'needs-adaptation',
+  'needs-review-translation',
+  'needs-review-l10n',
+  'needs-review-adaptation'
+])
+
+// XLIFF 1.2 中表示已审校的 state
+const REVIEWED_STATES_V1 = new Set(['signed-off', 'final'])
+
+// XLIFF 2.0 中表示已审校的 state
+const REVIEWED_STATES_V2 = new Set(['reviewed', 'final'])
+
+/**
+ * 把消息拆分为文本与顶层的简单参数
+ */
+function splitMessage(message: string): MessagePart[] {
+  const parts: MessagePart[] = []
+  let text = ''
+  let index = 0
+
+  while (index < message.length) {
+    const end = message[index] === '{' ? findClosingBrace(message, index) : -1
+    if (end !== -1 && SIMPLE_ARGUMENT_PATTERN.test(message.slice(index + 1, end))) {
+      if (text) parts.push({ type: 'text', value: text })
+      parts.push({ type: 'placeholder', value: message.slice(index, end + 1) })
+      text = ''
+      index = end + 1
+      continue
+    }
+    // 复杂参数整体作为文本，避免把 plural 分支误判为参数
+    const next = end === -1 ? index + 1 : end + 1
+    text += message.slice(index, next)
+    index = next
+  }
+
+  if (text) parts.push({ type: 'text', value: text })
+  return parts
+}
+
+/**
+ * 同一个参数在原文与译文中使用相同的 id
+ */
+class PlaceholderRegistry {
+  readonly ids = new Map<string, string>()
+
+  idOf(placeholder: string): string {
+    let id = this.ids.get(placeholder)
+    if (!id) {
+      id = String(this.ids.size + 1)
+      this.ids.set(placeholder, id)
+    }
+    return id
+  }
+}
+
+function renderContent(message: string, registry: PlaceholderRegistry, version: XliffVersion): string {
+  return splitMessage(message)
+    .map((part) => {
+      if (part.type === 'text') return escapeXml(part.value)
+      const id = registry.idOf(part.value)
+      return version === '1.2'
+        ? `<ph id="${id}" ctype="x-icu-placeholder">${escapeXml(part.value)}</ph>`
+        : `<ph id="${id}" dataRef="d${id}" equiv="${escapeXml(part.value)}" disp="${escapeXml(part.value)}"/>`
+    })
+    .join('')
+}
+
+function toStateV1(unit: ExchangeUnit): string | null {
+  if (!unit.target) return null
+  if (unit.status === 'locked') return 'final'
+  if (isPendingReview(unit.status, unit.outdated)) return 'needs-review-translation'
+  if (unit.status === 'reviewed') return 'signed-off'
+  return 'translated'
+}
+
+function toStateV2(unit: ExchangeUnit): string {
+  if (!unit.target) return 'initial'
+  if (unit.status === 'locked') return 'final'
+  if (isPendingReview(unit.status, unit.outdated)) return 'initial'
+  if (unit.status === 'reviewed') return 'reviewed'
+  return 'translated'
+}
+
+function renderUnitV1(unit: ExchangeUnit): string[] {
+  const registry = new PlaceholderRegistry()
+  const translate = unit.status === 'locked' ? ' translate="no"' : ''
+  const lines = [`      <trans-unit id="${escapeXml(unit.key)}" resname="${escapeXml(unit.key)}"${translate}>`]
+  lines.push(`        <source>${renderContent(unit.source, registry, '1.2')}</source>`)
+
+  const state = toStateV1(unit)
+  if (state) {
+    lines.push(`        <target state="${state}">${renderContent(unit.target, registry, '1.2')}</target>`)
+  }
+  unit.notes.forEach((note) => lines.push(`        <note from="developer">${escapeXml(note)}</note>`))
+  unit.locations.forEach((location) => lines.push(`        <note from="location">${escapeXml(location)}</note>`))
+  lines.push('      </trans-unit>')
+  return lines
+}
+
+function renderUnitV2(unit: ExchangeUnit): string[] {
+  const registry = new PlaceholderRegistry()
+  const translate = unit.status === 'locked' ? ' translate="no"' : ''
+  const source = renderContent(unit.source, registry, '2.0')
+  const target = unit.target ? renderContent(unit.target, registry, '2.0') : null
+
+  const lines = [`    <unit id="${escapeXml(unit.key)}" name="${escapeXml(unit.key)}"${translate}>`]
+  if (unit.notes.length > 0 || unit.locations.length > 0) {
+    lines.push('      <notes>')
+    unit.notes.forEach((note) => lines.push(`        <note category="developer">${escapeXml(note)}</note>`))
+    unit.locations.forEach((location) =>
+      lines.push(`        <note category="location">${escapeXml(location)}</note>`)
+    )
+    lines.push('      </notes>')
+  }
+  if (registry.ids.size > 0) {
+    lines.push('      <originalData>')
+    for (const [placeholder, id] of registry.ids) {
+      lines.push(`        <data id="d${id}">${escapeXml(placeholder)}</data>`)
+    }
+    lines.push('      </originalData>')
+  }
+  lines.push(`      <segment state="${toStateV2(unit)}">`)
+  lines.push(`        <source>${source}</source>`)
+  if (target !== null) {
+    lines.push(`        <target>${target}</target>`)
+  }
+  lines.push('      </segment>')
+  lines.push('    </unit>')
+  return lines
+}
+
+/**
+ * 生成 XLIFF 文档
+ * @param catalog - 一个目标语言的全部译文
+ * @param version - XLIFF 版本
+ */
+export function serializeXliff(catalog: ExchangeCatalog, version: XliffVersion = '2.0'): string {
+  const { sourceLanguage, targetLanguage, original, units } = catalog
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>']
+
+  if (version === '1.2') {
+    lines.push('<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">')
+    lines.push(
+      `  <file original="${escapeXml(original)}" source-language="${escapeXml(sourceLanguage)}" ` +
+        `target-language="${escapeXml(targetLanguage)}" datatype="plaintext">`
+    )
+    lines.push('    <body>')
+    units.forEach((unit) => lines.push(...renderUnitV1(unit)))
+    lines.push('    </body>')
+    lines.push('  </file>')
+  } else {
+    lines.push(
+      `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" ` +
+        `srcLang="${escapeXml(sourceLanguage)}" trgLang="${escapeXml(targetLanguage)}">`
+    )
+    lines.push(`  <file id="f1" original="${escapeXml(original)}">`)
+    units.forEach((unit) => lines.push(...renderUnitV2(unit)))
+    lines.push('  </file>')
+  }
+
+  lines.push('</xliff>')
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * 还原内联元素：<ph> 取回原始参数，<g> / <pc> / <mrk> 等成对元素保留内容
+ */
+function readContent(element: XmlElement, originalData: Map<string, string>): string {
+  return element.children
+    .map((child) => {
+      if (typeof child === 'string') return child
+      if (child.name === 'ph' || child.name === 'x') {
+        const dataRef = child.attributes.dataRef
+        if (dataRef && originalData.has(dataRef)) return originalData.get(dataRef) ?? ''
+        return child.attributes.equiv ?? child.attributes['equiv-text'] ?? getXmlText(child)
+      }
+      // 2.0 的 <sm> / <em> 只标记范围，没有内容
+      if (child.name === 'sm' || child.name === 'em') return ''
+      return readContent(child, originalData)
+    })
+    .join('')
+}
+
+function findChild(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child): child is XmlElement => typeof child !== 'string' && child.name === name)
+}
+
+function parseUnitV1(unit: XmlElement): ParsedExchangeUnit | null {
+  const key = unit.attributes.resname ?? unit.attributes.id
+  const target = findChild(unit, 'target')
+  if (!key || !target) return null
+
+  const source = findChild(unit, 'source')
+  const state = target.attributes.state ?? ''
+  const status: TranslationStatus | undefined = REVIEWED_STATES_V1.has(state)
+    ? 'reviewed'
+    : PENDING_STATES_V1.has(state)
+      ? 'needs-review'
+      : undefined
+  return {
+    key,
+    ...(source ? { source: readContent(source, new Map()) } : {}),
+    target: readContent(target, new Map()),
+    ...(status ? { status } : {})
+  }
+}
+
+function parseUnitV2(unit: XmlElement): ParsedExchangeUnit | null {
+  const key = unit.attributes.name ?? unit.attributes.id
+  if (!key) return null
+
+  const originalData = new Map<string, string>()
+  const dataContainer = findChild(unit, 'originalData')
+  if (dataContainer) {
+    findXmlElements(dataContainer, 'data').forEach((data) => originalData.set(data.attributes.id, getXmlText(data)))
+  }
+
+  // 一个 unit 可能拆分为多个 segment，按顺序拼接
+  const segments = unit.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (child.name === 'segment' || child.name === 'ignorable')
+  )
+  let source = ''
+  let target = ''
+  let hasTarget = false
+  const states: string[] = []
+  for (const segment of segments) {
+    const sourceElement = findChild(segment, 'source')
+    const targetElement = findChild(segment, 'target')
+    source += sourceElement ? readContent(sourceElement, originalData) : ''
+    if (targetElement) {
+      hasTarget = true
+      target += readContent(targetElement, originalData)
+    } else if (sourceElement) {
+      // ignorable 中的空白没有 target 时沿用原文
+      target += segment.name === 'ignorable' ? readContent(sourceElement, originalData) : ''
+    }
+    if (segment.name === 'segment') states.push(segment.attributes.state ?? 'initial')
+  }
+
+  if (!hasTarget) return null
+  // 任一 segment 未翻译即需要复核；全部 segment 均已审校才算确认
+  const status: TranslationStatus | undefined = states.includes('initial')
+    ? 'needs-review'
+    : states.length > 0 && states.every((state) => REVIEWED_STATES_V2.has(state))
+      ? 'reviewed'
+      : undefined
+  return { key, source, target, ...(status ? { status } : {}) }
+}
+
+/**
+ * 读取 XLIFF 1.2 或 2.0 文档中的译文，没有 target 的单元忽略
+ */
+export function parseXliff(content: string): ParsedExchangeCatalog {
+  const root = parseXml(content)
+  if (root.name !== 'xliff') {
+    throw new Error(`XLIFF 格式错误: 根元素应为 <xliff>，实际为 <${root.name}>`)
+  }
+
+  if (root.attributes.version?.startsWith('2')) {
+    const units = findXmlElements(root, 'unit')
+      .map(parseUnitV2)
+      .filter((unit): unit is ParsedExchangeUnit => unit !== null)
+    return { targetLanguage: root.attributes.trgLang, units }
+  }
+
+  const file = findXmlElements(root, 'file')[0]
+  const units = findXmlElements(root, 'trans-unit')
+    .map(parseUnitV1)
+    .filter((unit): unit is ParsedExchangeUnit => unit !== null)
+  return { targetLanguage: file?.attributes['target-language'], units }
+}
@@ -1,17 +1,64 @@
 export { extract } from './core/extract.js'
 export { translate } from './core/translate.js'
+export { pseudo } from './core/pseudo.js'
+export { check } from './core/check.js'
+export { findStaleKeys, pruneKeys } from './core/prune.js'
+export { findPendingReviews, applyReviewDecisions } from './core/review.js'
+export { exportTranslations, importTranslations } from './core/exchange.js'
 export type {
   ForgeI18nConfig,
   ForgeUserConfig,
   ExtractResult,
+  ExtractOptions,
+  SourceFileDiff,
+  LocaleFileDiff,
+  ExtractCacheSummary,
+  CheckOptions,
+  CheckHit,
+  CheckResult,
+  OutdatedTranslations,
+  PruneOptions,
+  PruneKeysOptions,
+  PruneResult,
+  StaleKey,
+  StaleKeyReport,
+  DynamicKeyReference,
+  SourceTextDetectionConfig,
+  RuntimeConfig,
+  RuntimePreset,
+  RuntimeImportConfig,
+  RuntimeHookConfig,
+  RuntimeJSXConfig,
+  RuntimeRichTextConfig,
   TranslateOptions,
   TranslateResult,
+  TranslateStats,
+  TranslationMemoryConfig,
+  PseudoLocalizationConfig,
+  GlossaryEntries,
+  PseudoOptions,
+  PseudoResult,
+  TranslationStatus,
+  ReviewOptions,
+  PendingReview,
+  ReviewDecision,
+  ReviewResult,
+  ExchangeFormat,
+  ExportOptions,
+  ExportResult,
+  ImportOptions,
+  ImportResult,
+  ImportedEntry,
+  ImportConflict,
+  SkippedImportEntry,
   KeyCollision,
+  KeyLocation,
   KeyReport,
   TransformResult,
   TransformStats,
   TranslationCollection,
   TranslationDetail,
+  TranslationOccurrence,
   TranslationValue,
   ForgeConfigEnv,
   ForgeConfigInput,
@@ -37,3 +84,5 @@ export {
   extractSemantic,
   extractContextInfo
 } from './core/key-generator.js'
+
+export { createSourceTextMatcher, isSourceText, isLikelyLatinText } from './core/text-detection.js'
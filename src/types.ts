@@ -39,21 +39,52 @@ export interface AIRequestOverrides {
   body?: Record<string, unknown>
 }
 
+export type AIProviderType = 'openai' | 'anthropic' | 'azure' | 'gemini' | 'ollama' | 'mock'
+
+export type MockProviderMode = 'prefix' | 'echo'
+
+/** 离线 mock 接口：不发送网络请求，按规则生成确定的译文与 key */
+export interface MockProviderConfig {
+  /** prefix：译文为「前缀 + 原文」；echo：译文与原文相同 */
+  mode?: MockProviderMode
+  /** prefix 模式的前缀，默认为 `[目标语言] ` */
+  prefix?: string
+  /** 这些 key 不返回译文，用于模拟翻译失败 */
+  failKeys?: string[]
+}
+
 export interface AIProviderConfig {
+  /** 接口类型，决定请求格式、鉴权方式与响应解析，默认为 OpenAI 兼容的 chat completions */
+  type: AIProviderType
   apiKey: string
+  /** 接口地址；azure 为资源地址（https://{resource}.openai.azure.com），gemini 为 API 根路径 */
   apiUrl: string
+  /** 模型名称；azure 为部署名称 */
   model: string
+  /** azure 的 api-version */
+  apiVersion?: string
   temperature: number
   maxTokens: number
   requestsPerMinute: number
   maxRetries: number
   request?: AIRequestOverrides
+  /** type 为 mock 时生效 */
+  mock?: MockProviderConfig
 }
 
+/** 源语言术语 -> 各目标语言的指定译法，如 { '工作台': { en_US: 'Workbench' } } */
+export type GlossaryEntries = Record<string, Record<string, string>>
+
 export interface TranslationBatchConfig {
   batchSize: number
   maxTokensPerRequest: number
   batchDelay: number
+  /** 术语表，或相对项目根目录的 .json / .csv 文件路径 */
+  glossary?: GlossaryEntries | string
+  /** 译文中必须原样保留的品牌名与产品名 */
+  doNotTranslate?: string[]
+  /** 译文违反术语表时的处理方式：error 视为不合格，warn 仅输出警告，默认为 error */
+  glossaryCheck?: 'error' | 'warn'
 }
 
 export interface LanguagesConfig {
@@ -62,6 +93,106 @@ export interface LanguagesConfig {
   map: LocaleLabelsMap
 }
 
+export interface SourceTextDetectionConfig {
+  /** Unicode 书写系统名称，如 Han / Hiragana / Katakana / Hangul / Cyrillic / Latin */
+  scripts?: string[]
+  /** 自定义正则，命中即视为源语言文案 */
+  pattern?: string | RegExp
+  /** 自定义判断函数，优先级最高 */
+  test?: (text: string) => boolean
+}
+
+export type RuntimePreset = 'react-intl-universal' | 'react-i18next' | 'react-intl' | 'custom'
+
+export interface RuntimeImportConfig {
+  /** 模块路径，如 react-intl-universal、@/i18n */
+  source: string
+  /** 导入名称，'default' 表示默认导入；本地名称取 callee 的首个标识符 */
+  imported: string
+}
+
+export interface RuntimeHookConfig {
+  /** hook 名称，如 useTranslation */
+  name: string
+  /** hook 所在模块 */
+  source: string
+  /** 组件内使用的翻译函数，如 t、intl.formatMessage */
+  callee: string
+  /** 是否以解构方式声明：const { t } = useTranslation()；否则为 const intl = useIntl() */
+  destructure: boolean
+}
+
+export interface RuntimeJSXConfig {
+  /** 替换 JSX 文本时使用的组件，如 FormattedMessage */
+  component: string
+  /** 组件所在模块 */
+  source: string
+  /** key 对应的属性名 */
+  idProp: string
+  /** 插值变量对应的属性名 */
+  valuesProp: string
+}
+
+export interface RuntimeRichTextConfig {
+  /**
+   * html：标签连同静态属性写入文案，通过 callee 渲染（仅限原生行内标签）；
+   * component：标签写为 <0></0> 编号占位，由 component 按编号插入对应元素
+   */
+  mode: 'html' | 'component'
+  /** html 模式的渲染函数，如 intl.getHTML，与 runtime.callee 共用 runtime.import */
+  callee?: string
+  /** component 模式的组件，如 Trans */
+  component?: string
+  /** 组件所在模块 */
+  source?: string
+  /** key 对应的属性名 */
+  idProp?: string
+  /** 插值变量对应的属性名 */
+  valuesProp?: string
+  /** 按编号排列的元素数组对应的属性名 */
+  componentsProp?: string
+}
+
+export interface RuntimeConfig {
+  preset: RuntimePreset
+  /** 组件外（或未配置 hook 时）生成的翻译函数，如 intl.get、i18n.t、$t */
+  callee: string
+  /** key 的传递方式：string 为 fn('key', values)，descriptor 为 fn({ id: 'key' }, values) */
+  keyArgument: 'string' | 'descriptor'
+  /** callee 对应的 import，为 null 时不插入 */
+  import: RuntimeImportConfig | null
+  /** 在函数组件与自定义 hook 中注入的 hook，为 null 时统一使用 callee */
+  hook: RuntimeHookConfig | null
+  /** JSX 子节点中的文案改写为组件，为 null 时使用翻译函数 */
+  jsx: RuntimeJSXConfig | null
+  /** 夹杂行内元素（a、strong、自定义组件等）的 JSX 文本整体提取为一条文案，为 null 时按片段分别提取 */
+  richText: RuntimeRichTextConfig | null
+  /** 视为翻译调用的函数（已有调用不会被重复提取，prune 会统计其中的 key） */
+  recognize: string[]
+}
+
+export interface ExtractCacheConfig {
+  enabled: boolean
+  filePath: string
+}
+
+export interface TranslationMemoryConfig {
+  enabled: boolean
+  /** 记忆库文件，相对项目根目录；多个项目指向同一文件即可共享 */
+  filePath: string
+  /** 写入条目来源的项目名称，默认读取 package.json 的 name */
+  project?: string
+}
+
+export interface PseudoLocalizationConfig {
+  /** 伪本地化语言代码，也可作为 translate 的目标语言 */
+  locale: string
+  /** 按文案长度追加的填充比例，0.3 表示加长 30% */
+  expansion: number
+  /** 包裹整条文案的前后标记，用于发现被截断或拼接的文案 */
+  brackets: [string, string]
+}
+
 export interface ReportingConfig {
   topLevelWarningsPath?: string
 }
@@ -69,6 +200,8 @@ export interface ReportingConfig {
 export interface ForgePathsConfig {
   localesDir: string
   aiCache: string | null
+  extractCache: string
+  translationMemory: string
   topLevelWarnings: string
 }
 
@@ -85,31 +218,72 @@ export interface ForgeI18nConfig {
   input: string[]
   ignore: string[]
   skipFunctionCalls: string[]
+  sourceTextDetection: SourceTextDetectionConfig
+  extractCache: ExtractCacheConfig
+  translationMemory: TranslationMemoryConfig
+  runtime: RuntimeConfig
+  /** 并行转换文件的线程数，默认为 CPU 核数 */
+  concurrency?: number
+  pseudo: PseudoLocalizationConfig
   localesDir: string
   namespace: string
   normalizeLocaleCode: (locale: string) => string
   getOutputPath: (locale: string, options?: NormalizeLocaleOptions) => string
   getOutputDetailPath: (locale: string, options?: NormalizeLocaleOptions) => string
   getOutputReportPath: (locale: string, options?: NormalizeLocaleOptions) => string
+  /** 语言文件旁记录原文指纹的元数据文件 */
+  getOutputMetaPath: (locale: string, options?: NormalizeLocaleOptions) => string
   reporting: ReportingConfig
   postCommands: string[]
   paths: ForgePathsConfig
   keyGenerationOverride?: unknown
 }
 
+export interface TranslationOccurrence {
+  /** 相对项目根目录的文件路径 */
+  file: string
+  line: number
+  /** 列号从 1 开始 */
+  column: number
+  /** 所在的 React 组件（函数组件或类组件），不在组件内时为 null */
+  component: string | null
+  /** 所在的具名函数或方法（最内层），顶层代码为 null */
+  function: string | null
+  /** 该处的译者说明（i18n: / @i18n-context 注释） */
+  note?: string
+}
+
 export interface TranslationDetail {
   text: string
   context?: string
   interpolations?: string[]
+  /** 源码中引用该 key 的全部位置，仅写入 .detail.json */
+  occurrences?: TranslationOccurrence[]
+  /** 各引用位置的译者说明（去重），翻译时提供给模型 */
+  notes?: string[]
+  /** 表示数量的插值变量，翻译时要求目标语言使用 ICU plural */
+  plurals?: string[]
 }
 
 export type TranslationValue = string | TranslationDetail
 
 export type TranslationCollection = Record<string, TranslationValue>
 
+export interface KeyLocation {
+  file: string
+  line: number | null
+  column: number | null
+}
+
 export interface KeyCollision {
+  /** 生成的 key */
   key: string
+  /** [已占用该 key 的文案, 新文案] */
   texts: string[]
+  /** 新文案最终使用的 key */
+  resolvedKey: string
+  /** 两条文案在源码中的位置，与 texts 一一对应 */
+  locations: KeyLocation[]
 }
 
 export interface KeyReport {
@@ -121,12 +295,35 @@ export interface KeyReport {
   shortestKey: string
 }
 
+export interface SourceFileDiff {
+  file: string
+  diff: string
+}
+
+export interface LocaleFileDiff {
+  locale: string
+  file: string
+  added: string[]
+  removed: string[]
+  changed: string[]
+}
+
 export interface ExtractResult {
   filesProcessed: number
   changedFiles: string[]
   collisions: KeyCollision[]
   errors: Array<{ file: string; error: Error }>
   keyReport: KeyReport
+  dryRun?: boolean
+  diffs?: SourceFileDiff[]
+  localeDiffs?: LocaleFileDiff[]
+  cache?: ExtractCacheSummary
+}
+
+export interface ExtractCacheSummary {
+  enabled: boolean
+  hits: number
+  misses: number
 }
 
 export type LoggerLike = Pick<Console, 'log' | 'warn'>
@@ -135,6 +332,252 @@ export interface ExtractOptions {
   config?: ForgeI18nConfig
   cwd?: string
   logger?: LoggerLike
+  dryRun?: boolean
+  /** 设为 false 时忽略增量缓存并全量扫描 */
+  cache?: boolean
+  /** 并行转换文件的线程数，覆盖配置中的 concurrency */
+  concurrency?: number
+}
+
+export interface CheckOptions {
+  config?: ForgeI18nConfig
+  cwd?: string
+}
+
+export interface CheckHit {
+  file: string
+  line: number
+  column: number
+  text: string
+  type: string
+}
+
+export interface OutdatedTranslations {
+  locale: string
+  /** 原文在翻译之后被修改过的 key */
+  keys: string[]
+}
+
+export interface CheckResult {
+  filesScanned: number
+  hits: CheckHit[]
+  errors: Array<{ file: string; error: Error }>
+  /** 各目标语言中译文已过期的 key，只列出存在过期译文的语言 */
+  outdated: OutdatedTranslations[]
+}
+
+export interface PruneOptions {
+  config?: ForgeI18nConfig
+  cwd?: string
+}
+
+export interface DynamicKeyReference {
+  file: string
+  line: number
+  column: number
+  expression: string
+  /** 动态 key 的静态前缀，无法确定时为空字符串 */
+  prefix: string
+}
+
+export interface StaleKey {
+  key: string
+  /** 包含该 key 的语言文件（相对路径） */
+  files: string[]
+}
+
+export interface StaleKeyReport {
+  filesScanned: number
+  referencedKeys: number
+  staleKeys: StaleKey[]
+  dynamicReferences: DynamicKeyReference[]
+  /** 存在无静态前缀的动态调用或解析失败的文件时为 false，此时任何 key 都可能仍被引用 */
+  safe: boolean
+  errors: Array<{ file: string; error: Error }>
+}
+
+export interface PruneKeysOptions extends PruneOptions {
+  dryRun?: boolean
+}
+
+export interface PruneResult {
+  removed: string[]
+  /** 被改写的语言文件（相对路径） */
+  files: string[]
+}
+
+/**
+ * 译文的审校状态，记录在语言元数据中
+ * - machine：AI 或翻译记忆生成，尚未审校
+ * - needs-review：生成时存在需要人工确认的问题（如术语检查警告、仅空白不同的翻译记忆）
+ * - reviewed：已由译者确认，translate 不再覆盖（包括 --force）
+ * - locked：已确认并锁定，translate 不再覆盖（包括 --force）
+ */
+export type TranslationStatus = 'machine' | 'needs-review' | 'reviewed' | 'locked'
+
+export interface ReviewOptions {
+  config?: ForgeI18nConfig
+  /** 只列出这些目标语言，默认为全部目标语言 */
+  locales?: string[]
+}
+
+export interface PendingReview {
+  locale: string
+  key: string
+  /** 源语言原文 */
+  source: string
+  translation: string
+  /** 没有元数据记录的译文为 undefined */
+  status?: TranslationStatus
+  /** 原文在翻译或审校之后被修改过 */
+  outdated: boolean
+}
+
+/**
+ * 审校操作
+ * - accept：确认现有译文
+ * - edit：以 translation 替换译文并确认
+ * - reject：清空译文，下次 translate 时重新翻译
+ * - lock：确认现有译文并锁定
+ */
+export interface ReviewDecision {
+  locale: string
+  key: string
+  action: 'accept' | 'edit' | 'reject' | 'lock'
+  /** action 为 edit 时的新译文 */
+  translation?: string
+}
+
+export interface ReviewResult {
+  applied: ReviewDecision[]
+  /** 被改写的语言文件（绝对路径） */
+  files: string[]
+}
+
+/** 与翻译供应商、产品团队交换译文的文件格式 */
+export type ExchangeFormat = 'xliff' | 'po' | 'csv'
+
+export interface ExportOptions {
+  config?: ForgeI18nConfig
+  format: ExchangeFormat
+  /** 导出的目标语言，默认为全部目标语言 */
+  locales?: string[]
+  /** 输出目录，相对项目根目录，默认为 i18n-exchange */
+  outDir?: string
+  /** XLIFF 版本，默认为 2.0 */
+  xliffVersion?: '1.2' | '2.0'
+}
+
+export interface ExportResult {
+  format: ExchangeFormat
+  /** 生成的文件（绝对路径） */
+  files: string[]
+}
+
+export interface ImportOptions {
+  config?: ForgeI18nConfig
+  /** 导入的文件，相对项目根目录 */
+  file: string
+  /** 默认按扩展名判断 */
+  format?: ExchangeFormat
+  /** 写入的目标语言，默认读取文件中声明的语言；CSV 等包含多个语言的格式不支持 */
+  locale?: string
+  /** 仅校验并报告，不写入语言文件 */
+  dryRun?: boolean
+}
+
+export interface ImportedEntry {
+  locale: string
+  key: string
+}
+
+export interface SkippedImportEntry extends ImportedEntry {
+  reason: string
+}
+
+/** 导出后文件与语言文件中都被修改过的译文 */
+export interface ImportConflict extends ImportedEntry {
+  /** 文件中的译文 */
+  incoming: string
+  /** 语言文件中的译文 */
+  current: string
+}
+
+export interface ImportResult {
+  format: ExchangeFormat
+  file: string
+  /** 译文或审校状态有变化的条目 */
+  updated: ImportedEntry[]
+  /** 未导入的条目及原因 */
+  skipped: SkippedImportEntry[]
+  /** 未导入的冲突条目，仅在文件记录了导出时的译文指纹（如 CSV）时检测 */
+  conflicts: ImportConflict[]
+  /** 包含多个语言的文件（如 CSV）中无法对应目标语言的列，如备注列，导入时忽略 */
+  ignoredColumns: string[]
+  dryRun: boolean
+}
+
+/** 导出时的一条译文 */
+export interface ExchangeUnit {
+  key: string
+  source: string
+  /** 尚未翻译时为空字符串 */
+  target: string
+  /** 译者说明 */
+  notes: string[]
+  /** 源码中的引用位置，如 src/pages/order.tsx:42 */
+  locations: string[]
+  status?: TranslationStatus
+  /** 原文在翻译或审校之后被修改过 */
+  outdated?: boolean
+}
+
+export interface ExchangeCatalog {
+  /** 配置中的语言代码，如 zh_CN */
+  sourceLocale: string
+  locale: string
+  /** 交换文件中使用的语言代码，如 zh-CN */
+  sourceLanguage: string
+  targetLanguage: string
+  /** 语言文件名，写入交换文件的 original 属性 */
+  original: string
+  units: ExchangeUnit[]
+}
+
+/** 从交换文件中读取的一条译文 */
+export interface ParsedExchangeUnit {
+  key: string
+  /** 文件中的原文，用于判断导出后原文是否被修改 */
+  source?: string
+  target: string
+  /** 文件中明确标记的审校状态（reviewed 或 needs-review），没有标记（如 XLIFF 的 translated）时为 undefined */
+  status?: TranslationStatus
+  /** 文件去掉了待审校标记（如 PO 的 fuzzy）：导出时待审校的译文即使未修改也视为已确认 */
+  pendingCleared?: boolean
+  /** 导出时译文的指纹（前缀），用于检测冲突；文件中没有记录时为 undefined */
+  baseHash?: string
+  /** 文件中的原文在导出后被修改 */
+  sourceEdited?: boolean
+}
+
+export interface ParsedExchangeCatalog {
+  targetLanguage?: string
+  units: ParsedExchangeUnit[]
+}
+
+export interface PseudoOptions {
+  config?: ForgeI18nConfig
+  /** 读取的语言文件，默认为源语言 */
+  from?: string
+  /** 生成的语言代码，默认为 pseudo.locale */
+  locale?: string
+}
+
+export interface PseudoResult {
+  locale: string
+  /** 生成的语言文件（绝对路径） */
+  file: string
+  entries: number
 }
 
 export interface TranslateOptions {
@@ -143,10 +586,20 @@ export interface TranslateOptions {
   targetLanguages?: string[]
 }
 
+export interface TranslateStats {
+  /** 由翻译记忆填充的条目数 */
+  memory: number
+  /** 由 AI 翻译的条目数 */
+  ai: number
+}
+
 export interface TranslateResult {
   force: boolean
   targetLangs: string[]
   duration: number
+  results: Record<string, Record<string, string>>
+  /** 各目标语言的译文来源统计 */
+  stats: Record<string, TranslateStats>
 }
 
 export interface TransformStats {
@@ -165,6 +618,7 @@ export interface TransformStats {
 export interface TransformResult {
   code: string
   stats: TransformStats
+  keys: string[]
 }
 
 export type TextType =
@@ -222,6 +676,7 @@ export type ForgeUserConfig = DeepPartial<Omit<
   | 'getOutputPath'
   | 'getOutputDetailPath'
   | 'getOutputReportPath'
+  | 'getOutputMetaPath'
   | 'normalizeLocaleCode'
 >> & {
   normalizeLocaleCode?: (locale: string) => string
@@ -230,7 +685,7 @@ export type ForgeUserConfig = DeepPartial<Omit<
 
 export type ForgeConfigDefaults = Omit<
   ForgeI18nConfig,
-  'projectRoot' | 'paths' | 'getOutputPath' | 'getOutputDetailPath' | 'getOutputReportPath'
+  'projectRoot' | 'paths' | 'getOutputPath' | 'getOutputDetailPath' | 'getOutputReportPath' | 'getOutputMetaPath'
 > & {
   projectRoot?: string
   paths?: Partial<ForgePathsConfig>
@@ -0,0 +1,62 @@
+/**
+ * CSV 读写（RFC 4180）：支持双引号包裹的字段、字段内的逗号、换行与 "" 转义，
+ * 兼容 CRLF 换行与 Excel 导出文件开头的 BOM。
+ */
+
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index]
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char
+      } else if (input[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else {
+        quoted = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index += 1
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // 忽略空行
+  return rows.filter((cells) => cells.some((cell) => cell.length > 0))
+}
+
+function quoteField(field: string): string {
+  return /[",\r\n]|^\s|\s$/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+}
+
+/**
+ * 生成 CSV 文本，行之间使用 CRLF；字段内的换行原样保留在引号中
+ */
+export function stringifyCSV(rows: string[][]): string {
+  return rows.map((row) => row.map(quoteField).join(',')).join('\r\n') + '\r\n'
+}
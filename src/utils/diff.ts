@@ -0,0 +1,196 @@
+/**
+ * 文本差异工具：基于 Myers 算法生成行级 unified diff，以及翻译字典的 key 级差异。
+ * 保持无外部依赖，便于在 dry-run 场景中直接输出给评审者。
+ */
+
+type DiffOp = { type: 'equal' | 'insert' | 'delete'; line: string }
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string
+  newLabel?: string
+  context?: number
+}
+
+export interface KeyLevelDiff {
+  added: string[]
+  removed: string[]
+  changed: string[]
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 2).fill(0)
+  // 第 d 步只会用到 k ∈ [-d, d]，只保存这一段，内存为 O(D²) 而非 O(D·(n+m))
+  const trace: number[][] = []
+
+  outer: for (let d = 0; d <= max; d += 1) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x: number
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1]
+      } else {
+        x = v[offset + k - 1] + 1
+      }
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1
+        y += 1
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        break outer
+      }
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d -= 1) {
+    const snapshot = trace[d]
+    const at = (k: number) => snapshot[k + d] ?? 0
+    const k = x - y
+    let prevK: number
+    if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+      prevK = k + 1
+    } else {
+      prevK = k - 1
+    }
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] })
+      x -= 1
+      y -= 1
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[y - 1] })
+      } else {
+        ops.push({ type: 'delete', line: a[x - 1] })
+      }
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return ops.reverse()
+}
+
+/**
+ * 生成 unified diff 文本，内容相同时返回空字符串
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  if (oldText === newText) return ''
+
+  const { oldLabel = 'a', newLabel = 'b', context = 3 } = options
+  const ops = diffLines(splitLines(oldText), splitLines(newText))
+
+  const hunks: string[] = []
+  let index = 0
+
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].type === 'equal') {
+      index += 1
+    }
+    if (index >= ops.length) break
+
+    const start = Math.max(0, index - context)
+    let end = index
+    // 合并间隔不超过 2 * context 的变更为同一个 hunk
+    while (end < ops.length) {
+      if (ops[end].type !== 'equal') {
+        end += 1
+        continue
+      }
+      let lookahead = end
+      while (lookahead < ops.length && ops[lookahead].type === 'equal') {
+        lookahead += 1
+      }
+      if (lookahead < ops.length && lookahead - end <= context * 2) {
+        end = lookahead
+        continue
+      }
+      end = Math.min(lookahead, end + context)
+      break
+    }
+
+    let oldStart = 1
+    let newStart = 1
+    for (let cursor = 0; cursor < start; cursor += 1) {
+      if (ops[cursor].type !== 'insert') oldStart += 1
+      if (ops[cursor].type !== 'delete') newStart += 1
+    }
+
+    const lines: string[] = []
+    let oldCount = 0
+    let newCount = 0
+    for (let cursor = start; cursor < end; cursor += 1) {
+      const op = ops[cursor]
+      if (op.type === 'equal') {
+        lines.push(` ${op.line}`)
+        oldCount += 1
+        newCount += 1
+      } else if (op.type === 'delete') {
+        lines.push(`-${op.line}`)
+        oldCount += 1
+      } else {
+        lines.push(`+${op.line}`)
+        newCount += 1
+      }
+    }
+
+    const oldRange = `${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount}`
+    const newRange = `${newCount === 0 ? newStart - 1 : newStart},${newCount}`
+    hunks.push(`@@ -${oldRange} +${newRange} @@`, ...lines)
+
+    index = end
+  }
+
+  return [`--- ${oldLabel}`, `+++ ${newLabel}`, ...hunks, ''].join('\n')
+}
+
+/**
+ * 对比两个翻译字典，返回新增、删除与值变更的 key
+ */
+export function diffTranslationKeys(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): KeyLevelDiff {
+  const added: string[] = []
+  const removed: string[] = []
+  const changed: string[] = []
+
+  for (const [key, value] of Object.entries(after)) {
+    if (!Object.prototype.hasOwnProperty.call(before, key)) {
+      added.push(key)
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(value)) {
+      changed.push(key)
+    }
+  }
+
+  for (const key of Object.keys(before)) {
+    if (!Object.prototype.hasOwnProperty.call(after, key)) {
+      removed.push(key)
+    }
+  }
+
+  return { added, removed, changed }
+}
@@ -0,0 +1,134 @@
+/**
+ * 轻量 XML 工具：转义与解析，满足 XLIFF 等交换格式的读写。
+ * 支持元素、属性、文本、CDATA、注释与处理指令，不处理 DTD 与命名空间前缀之外的语义。
+ */
+
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+}
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+export function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(Number.parseInt(name.slice(2), 16))
+    if (name.startsWith('#')) return String.fromCodePoint(Number.parseInt(name.slice(1), 10))
+    return NAMED_ENTITIES[name] ?? entity
+  })
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = unescapeXml(match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+/**
+ * 解析 XML 文档，返回根元素
+ * @throws 标签不成对或没有根元素时抛出异常
+ */
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+  let index = 0
+
+  const current = () => stack[stack.length - 1]
+  const skipPast = (terminator: string) => {
+    const end = input.indexOf(terminator, index)
+    if (end === -1) throw new Error(`XML 格式错误: 缺少 ${terminator}`)
+    const content = input.slice(index, end)
+    index = end + terminator.length
+    return content
+  }
+
+  while (index < input.length) {
+    const tagStart = input.indexOf('<', index)
+    const textEnd = tagStart === -1 ? input.length : tagStart
+    if (textEnd > index) {
+      if (stack.length > 1) current().children.push(unescapeXml(input.slice(index, textEnd)))
+      index = textEnd
+      continue
+    }
+
+    if (input.startsWith('<!--', index)) {
+      index += 4
+      skipPast('-->')
+    } else if (input.startsWith('<![CDATA[', index)) {
+      index += 9
+      current().children.push(skipPast(']]>'))
+    } else if (input.startsWith('<?', index) || input.startsWith('<!', index)) {
+      index += 2
+      skipPast('>')
+    } else if (input.startsWith('</', index)) {
+      index += 2
+      const name = skipPast('>').trim()
+      const element = stack.pop()
+      if (!element || element.name !== name || stack.length === 0) {
+        throw new Error(`XML 格式错误: 意外的结束标签 </${name}>`)
+      }
+    } else {
+      index += 1
+      const tag = skipPast('>')
+      const selfClosing = tag.endsWith('/')
+      const body = selfClosing ? tag.slice(0, -1) : tag
+      const nameMatch = body.match(/^[^\s/>]+/)
+      if (!nameMatch) throw new Error(`XML 格式错误: 无效的标签 <${tag}>`)
+
+      const element: XmlElement = {
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        children: []
+      }
+      current().children.push(element)
+      if (!selfClosing) stack.push(element)
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`XML 格式错误: 缺少结束标签 </${current().name}>`)
+  }
+  const documentElement = root.children.find((child): child is XmlElement => typeof child !== 'string')
+  if (!documentElement) {
+    throw new Error('XML 格式错误: 没有根元素')
+  }
+  return documentElement
+}
+
+/**
+ * 按名称查找后代元素（深度优先，按文档顺序）
+ */
+export function findXmlElements(element: XmlElement, name: string): XmlElement[] {
+  const result: XmlElement[] = []
+  for (const child of element.children) {
+    if (typeof child === 'string') continue
+    if (child.name === name) result.push(child)
+    result.push(...findXmlElements(child, name))
+  }
+  return result
+}
+
+/**
+ * 元素下全部文本内容
+ */
+export function getXmlText(element: XmlElement): string {
+  return element.children.map((child) => (typeof child === 'string' ? child : getXmlText(child))).join('')
+}